@@ -2,33 +2,49 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, ChangeEvent, useRef, useEffect } from 'react';
+import React, { useState, ChangeEvent, useRef, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { generateStyledImage } from './services/geminiService';
+import type { PromptAttempt } from './services/geminiService';
+import { toGenerationError } from './services/generationErrors';
+import type { ErrorAction } from './services/generationErrors';
+import { getGenerationScheduler, MAX_CONCURRENCY, MIN_CONCURRENCY, saveConcurrencySetting } from './services/generationScheduler';
+import type { JobPriority } from './services/generationScheduler';
 import PolaroidCard from './components/PolaroidCard';
 import RemixModal from './components/RemixModal';
-import { createAlbumPage } from './lib/albumUtils';
+import BatchRemixModal from './components/BatchRemixModal';
+import type { BatchRemixResult } from './components/BatchRemixModal';
+import ContactSheet from './components/ContactSheet';
+import VersionTimeline from './components/VersionTimeline';
+import { albumEntriesFor } from './lib/albumUtils';
+import type { AlbumEntry, AlbumRenderProgress } from './lib/albumUtils';
+import { albumProgressLabel, renderAlbumInBackground } from './lib/albumRendering';
+import { DEFAULT_ALBUM_SETTINGS } from './lib/albumLayouts';
+import type { AlbumSettings } from './lib/albumLayouts';
 import Footer from './components/Footer';
-
-const SCENES = [
-    'As an Auto Memory Doll', 
-    'In a Leiden Street Scene', 
-    'At a Grand Ball', 
-    'In a Countryside Landscape', 
-    'Writing a Letter', 
-    'Under a Starry Sky'
-];
-
-
-// Pre-defined positions for a scattered look on desktop
-const POSITIONS = [
-    { top: '5%', left: '10%', rotate: -8 },
-    { top: '15%', left: '60%', rotate: 5 },
-    { top: '45%', left: '5%', rotate: 3 },
-    { top: '2%', left: '35%', rotate: 10 },
-    { top: '40%', left: '70%', rotate: -12 },
-    { top: '50%', left: '38%', rotate: -3 },
-];
+import ScenePackPicker from './components/ScenePackPicker';
+import SceneEditor from './components/SceneEditor';
+import SessionGallery from './components/SessionGallery';
+import SubjectEditor from './components/SubjectEditor';
+import AlbumDialog from './components/AlbumDialog';
+import { boardCardFor, moveCard, raiseCard, scatterBoard, tidyBoard } from './lib/board';
+import type { BoardSize, BoardState } from './lib/board';
+import { renderBoardImage } from './lib/boardImage';
+import GenerationProgress from './components/GenerationProgress';
+import { BUILT_IN_SCENE_PACKS, DEFAULT_SCENE_PACK, loadCustomScenePacks, saveCustomScenePacks } from './lib/scenePacks';
+import type { ScenePack, SceneDefinition } from './lib/scenePacks';
+import { loadUseSoftenedPrompts, saveUseSoftenedPrompts } from './lib/scenePrompts';
+import { chooseVariant, createVariantId, discardVariant, loadVariantCount, MAX_VARIANTS, MIN_VARIANTS, replaceChosenImage, saveVariantCount, toggleVariantStar, withNewVariants } from './lib/variants';
+import { appendVersion, keepHistory, restoreVersion, syncCurrentVersion } from './lib/versions';
+import { abortable, throwIfAborted } from './lib/abort';
+import { createSubject, MAX_EXTRA_PHOTO_BYTES, MAX_PHOTOS_PER_SUBJECT, primaryPhoto, promptForSubjects, restoreSubjects, subjectPhotos } from './lib/subjects';
+import { fitPhotosToBudget, loadMaxUploadSize, preprocessUploads } from './lib/uploadPreprocessing';
+import { anchorUrlFor, loadConsistencyMode, saveConsistencyMode } from './lib/characterAnchor';
+import { createSessionId, loadSession, renameSession, requestPersistentStorage, saveSession, StorageQuotaError } from './lib/sessionStore';
+import type { StoredSession } from './lib/sessionStore';
+import { deleteRunJournal, findInterruptedRuns, startRunJournal, unfinishedSceneIds, updateJournalEntry } from './lib/runJournal';
+import type { RunJournal } from './lib/runJournal';
+import type { CharacterAnchor, ChatMessage, GeneratedImage, ImageVariant, Subject } from './types';
 
 const GHOST_POLAROIDS_CONFIG = [
   { initial: { x: "-150%", y: "-100%", rotate: -30 }, transition: { delay: 0.2 } },
@@ -40,16 +56,21 @@ const GHOST_POLAROIDS_CONFIG = [
 ];
 
 
-type ImageStatus = 'pending' | 'done' | 'error';
-interface GeneratedImage {
-    status: ImageStatus;
-    url?: string;
-    error?: string;
-}
-
 const primaryButtonClasses = "font-lato text-xl text-center text-amber-900 bg-amber-400 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:-rotate-2 hover:bg-amber-300 shadow-[2px_2px_0px_2px_rgba(0,0,0,0.1)]";
 const secondaryButtonClasses = "font-lato text-xl text-center text-white bg-white/10 backdrop-blur-sm border-2 border-white/80 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:rotate-2 hover:bg-white hover:text-amber-800";
 
+/**
+ * An in-flight (or queued) generation for one scene. Its controller cancels the request;
+ * `previous` is what the card showed before, restored if a regenerate is cancelled.
+ */
+interface SceneTask {
+    controller: AbortController;
+    previous?: GeneratedImage;
+    journal: RunJournal | null;
+}
+
+const CANCELLED_MESSAGE = 'Cancelled.';
+
 const useMediaQuery = (query: string) => {
     const [matches, setMatches] = useState(false);
     useEffect(() => {
@@ -65,166 +86,670 @@ const useMediaQuery = (query: string) => {
 };
 
 function App() {
-    const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+    const [subjects, setSubjects] = useState<Subject[]>([]);
+    const uploadedImage = primaryPhoto(subjects);
     const [generatedImages, setGeneratedImages] = useState<Record<string, GeneratedImage>>({});
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [isDownloading, setIsDownloading] = useState<boolean>(false);
-    const [appState, setAppState] = useState<'idle' | 'image-uploaded' | 'generating' | 'results-shown'>('idle');
+    const [albumProgress, setAlbumProgress] = useState<AlbumRenderProgress | null>(null);
+    const [appState, setAppState] = useState<'idle' | 'image-uploaded' | 'generating' | 'results-shown' | 'gallery'>('idle');
     const dragAreaRef = useRef<HTMLDivElement>(null);
     const isMobile = useMediaQuery('(max-width: 768px)');
     const [remixModalState, setRemixModalState] = useState<{
         isOpen: boolean;
-        scene: string | null;
+        scene: SceneDefinition | null;
         imageUrl: string | null;
     }>({ isOpen: false, scene: null, imageUrl: null });
+    const [isBatchRemixOpen, setIsBatchRemixOpen] = useState(false);
+    const [isAlbumDialogOpen, setIsAlbumDialogOpen] = useState(false);
+    const [albumSettings, setAlbumSettings] = useState<AlbumSettings>(DEFAULT_ALBUM_SETTINGS);
+    const [board, setBoard] = useState<BoardState>({});
+    const [boardSize, setBoardSize] = useState<BoardSize | null>(null);
+    const [customScenePacks, setCustomScenePacks] = useState<ScenePack[]>(loadCustomScenePacks);
+    const [scenePack, setScenePack] = useState<ScenePack>(DEFAULT_SCENE_PACK);
+    const [isSceneEditorOpen, setIsSceneEditorOpen] = useState(false);
+    const scenes = scenePack.scenes;
+    const [session, setSession] = useState<{ id: string; name: string; createdAt: number } | null>(null);
+    const [remixTranscripts, setRemixTranscripts] = useState<Record<string, ChatMessage[]>>({});
+    const [storageNotice, setStorageNotice] = useState<string | null>(null);
+    const [interruptedRun, setInterruptedRun] = useState<RunJournal | null>(null);
+    const pendingSessionSave = useRef<StoredSession | null>(null);
+    const appStateBeforeGallery = useRef<typeof appState>('idle');
+    // Results are only applied while their task is still the one registered for the scene,
+    // so anything finishing after a cancel, reset or newer request is dropped.
+    const sceneTasks = useRef(new Map<string, SceneTask>());
+    const sentPhotos = useRef<{ source: string[]; photos: Promise<string[]> } | null>(null);
+    const activeRun = useRef<object | null>(null);
+    const [concurrency, setConcurrency] = useState(() => getGenerationScheduler().concurrency);
+    const [useSoftenedPrompts, setUseSoftenedPrompts] = useState(loadUseSoftenedPrompts);
+    const [variantCount, setVariantCount] = useState(loadVariantCount);
+    const [contactSheetSceneId, setContactSheetSceneId] = useState<string | null>(null);
+    const [timelineSceneId, setTimelineSceneId] = useState<string | null>(null);
+    const [consistencyMode, setConsistencyMode] = useState(loadConsistencyMode);
+    const [anchor, setAnchor] = useState<CharacterAnchor | null>(null);
+    // Mirrors `anchor` for generations that start after the render that scheduled them.
+    const anchorRef = useRef<CharacterAnchor | null>(null);
+    // Set while a consistency-mode run holds its other scenes until an anchor is approved.
+    const [anchorCandidateId, setAnchorCandidateId] = useState<string | null>(null);
+    const anchorApproval = useRef<(() => void) | null>(null);
+
+    const flushSessionSave = async () => {
+        const snapshot = pendingSessionSave.current;
+        if (!snapshot) return;
+        pendingSessionSave.current = null;
+        try {
+            const evicted = await saveSession(snapshot);
+            if (evicted.length > 0) {
+                setStorageNotice(`Storage was running low, so the oldest saved sessions were removed: ${evicted.join(', ')}.`);
+            }
+        } catch (error) {
+            console.error("Failed to save session:", error);
+            setStorageNotice(error instanceof StorageQuotaError
+                ? `${error.message} Your latest changes are not saved; try deleting old sessions from the gallery.`
+                : "Your session couldn't be saved to this browser.");
+        }
+    };
+
+    // Autosave the open session shortly after anything in it changes.
+    useEffect(() => {
+        if (!session) return;
+        pendingSessionSave.current = {
+            ...session,
+            updatedAt: Date.now(),
+            scenePack,
+            uploadedImage,
+            subjects,
+            images: generatedImages,
+            remixTranscripts,
+            ...(anchor && { anchor }),
+            album: albumSettings,
+            board,
+        };
+        const timer = setTimeout(flushSessionSave, 800);
+        return () => clearTimeout(timer);
+    }, [session, scenePack, subjects, generatedImages, remixTranscripts, anchor, albumSettings, board]);
+
+    useEffect(() => {
+        findInterruptedRuns()
+            .then(runs => setInterruptedRun(runs[0] ?? null))
+            .catch(error => console.warn("Could not check for interrupted runs:", error));
+    }, []);
+
+    // The board's size turns card positions, stored as fractions of it, into pixels.
+    useEffect(() => {
+        const dragArea = dragAreaRef.current;
+        if (!dragArea) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setBoardSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(dragArea);
+        return () => observer.disconnect();
+    }, [isMobile, appState]);
+
+    useEffect(() => {
+        const handlePageHide = () => { flushSessionSave(); };
+        window.addEventListener('pagehide', handlePageHide);
+        return () => window.removeEventListener('pagehide', handlePageHide);
+    }, []);
 
 
-    const handleImageUpload = (e: ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            const file = e.target.files[0];
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                setUploadedImage(reader.result as string);
-                setAppState('image-uploaded');
-                setGeneratedImages({}); // Clear previous results
-            };
-            reader.readAsDataURL(file);
+    const handleImageUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+        // Several photos picked at once are taken to be of the same person.
+        const files = Array.from<File>(e.target.files ?? []).slice(0, MAX_PHOTOS_PER_SUBJECT);
+        e.target.value = '';
+        if (files.length === 0) return;
+        const { photos, rejections } = await preprocessUploads(files, loadMaxUploadSize());
+        if (rejections.length > 0) {
+            alert(rejections.join('\n'));
         }
+        if (photos.length === 0) return;
+        setSubjects([createSubject(photos, 0)]);
+        setAppState('image-uploaded');
+        setGeneratedImages({}); // Clear previous results
+        updateAnchor(null);
     };
 
-    const handleGenerateClick = async () => {
-        if (!uploadedImage) return;
+    const isBuiltInScenePack = (pack: ScenePack) => BUILT_IN_SCENE_PACKS.some(builtIn => builtIn.id === pack.id);
+
+    const saveCustomScenePack = (pack: ScenePack) => {
+        // Saving a pack with the same id as an earlier one replaces it.
+        const updatedPacks = [...customScenePacks.filter(custom => custom.id !== pack.id), pack];
+        setCustomScenePacks(updatedPacks);
+        if (!saveCustomScenePacks(updatedPacks)) {
+            setStorageNotice(`"${pack.name}" couldn't be saved in this browser, so it will be gone when you leave the page. Export it to keep a copy.`);
+        }
+        setScenePack(pack);
+    };
+
+    const handleImportScenePack = (pack: ScenePack): string | void => {
+        if (isBuiltInScenePack(pack)) {
+            return `"${pack.id}" is the id of a built-in pack. Please give your pack a different id.`;
+        }
+        saveCustomScenePack(pack);
+    };
+
+    const handleSaveEditedScenes = (pack: ScenePack) => {
+        saveCustomScenePack(pack);
+        setIsSceneEditorOpen(false);
+    };
+
+    const startSceneTask = (sceneId: string, previous: GeneratedImage | undefined, journal: RunJournal | null): SceneTask => {
+        sceneTasks.current.get(sceneId)?.controller.abort();
+        const task = { controller: new AbortController(), previous, journal };
+        sceneTasks.current.set(sceneId, task);
+        return task;
+    };
+
+    const isCurrentTask = (sceneId: string, task: SceneTask) => sceneTasks.current.get(sceneId) === task;
+
+    const finishSceneTask = (sceneId: string, task: SceneTask) => {
+        if (isCurrentTask(sceneId, task)) sceneTasks.current.delete(sceneId);
+    };
+
+    /**
+     * Cancels a scene's queued or in-flight generation and puts the card back the way it was.
+     */
+    const handleCancelScene = (scene: SceneDefinition) => {
+        const task = sceneTasks.current.get(scene.id);
+        if (!task) return;
+        sceneTasks.current.delete(scene.id);
+        task.controller.abort();
+        setGeneratedImages(prev => ({
+            ...prev,
+            [scene.id]: task.previous?.status === 'done' ? task.previous : { status: 'error', error: CANCELLED_MESSAGE, ...keepHistory(task.previous), updatedAt: Date.now() },
+        }));
+        if (task.journal) updateJournalEntry(task.journal, scene.id, { state: 'failed', error: CANCELLED_MESSAGE });
+    };
+
+    const handleStopAll = () => {
+        for (const scene of scenes) {
+            handleCancelScene(scene);
+        }
+    };
 
+    /**
+     * Aborts every request without touching the cards, for when the whole session is being left.
+     * @returns Whether a batch run was still in progress.
+     */
+    const abortAllGenerations = (): boolean => {
+        const wasRunning = activeRun.current !== null;
+        activeRun.current = null;
+        sceneTasks.current.forEach(task => task.controller.abort());
+        sceneTasks.current.clear();
+        setIsLoading(false);
+        return wasRunning;
+    };
+
+    const handleConcurrencyChange = (limit: number) => {
+        getGenerationScheduler().setConcurrency(limit);
+        saveConcurrencySetting(limit);
+        setConcurrency(getGenerationScheduler().concurrency);
+    };
+
+    const handleUseSoftenedPromptsChange = (enabled: boolean) => {
+        saveUseSoftenedPrompts(enabled);
+        setUseSoftenedPrompts(enabled);
+    };
+
+    /** The scene's fallback ladder, or none if the user chose to stop at the original prompt. */
+    const fallbacksFor = (scene: SceneDefinition) => useSoftenedPrompts ? scene.fallbackPrompts : [];
+
+    /** The prompt on the given rung of a scene's ladder, for recording in its history. */
+    const promptOnRung = (scene: Pick<SceneDefinition, 'prompt' | 'fallbackPrompts'>, rung = 0) =>
+        [scene.prompt, ...scene.fallbackPrompts][rung] ?? scene.prompt;
+
+    const handleVariantCountChange = (count: number) => {
+        saveVariantCount(count);
+        setVariantCount(loadVariantCount());
+    };
+
+    const updateAnchor = (next: CharacterAnchor | null) => {
+        anchorRef.current = next;
+        setAnchor(next);
+    };
+
+    const handleConsistencyModeChange = (enabled: boolean) => {
+        saveConsistencyMode(enabled);
+        setConsistencyMode(enabled);
+    };
+
+    /** The anchor image to generate a scene with, if consistency mode is on. */
+    const anchorUrlForScene = (sceneId: string) => consistencyMode ? anchorUrlFor(anchorRef.current, sceneId) : undefined;
+
+    /** Lets scenes held back for an anchor go ahead, with whatever anchor is set by then. */
+    const releaseAnchorWait = () => {
+        anchorApproval.current?.();
+        anchorApproval.current = null;
+        setAnchorCandidateId(null);
+    };
+
+    const handleToggleAnchor = (scene: SceneDefinition) => {
+        if (anchorRef.current?.sceneId === scene.id) {
+            updateAnchor(null);
+            return;
+        }
+        const image = generatedImages[scene.id];
+        if (image?.status !== 'done' || !image.url) return;
+        updateAnchor({ sceneId: scene.id, url: image.url });
+        releaseAnchorWait();
+    };
+
+    /**
+     * Generates the chosen number of candidates for a scene, each as its own scheduler job.
+     * Resolves with every candidate that came back; rejects only if none did.
+     * @param sourceSubjects The people to draw; the scene's prompts are adapted to them.
+     * @param anchorUrl Sent with the photo so the character matches this image.
+     * @param onStart Called when the first candidate's request actually starts.
+     */
+    /**
+     * The subjects' photos as they are sent: the ones after the first shrunk, if need be, to
+     * fit the API's limit on their combined size. Worked out once for each set of photos.
+     */
+    const photosToSend = (sourceSubjects: Subject[]): Promise<string[]> => {
+        const source = subjectPhotos(sourceSubjects);
+        const cached = sentPhotos.current;
+        if (cached && cached.source.length === source.length && cached.source.every((photo, index) => photo === source[index])) {
+            return cached.photos;
+        }
+        const [main, ...extras] = source;
+        const photos = fitPhotosToBudget(extras, MAX_EXTRA_PHOTO_BYTES)
+            .then(fitted => [main, ...fitted])
+            .catch(error => {
+                if (sentPhotos.current?.photos === photos) sentPhotos.current = null;
+                throw error;
+            });
+        sentPhotos.current = { source, photos };
+        return photos;
+    };
+
+    const generateCandidates = async (
+        sourceSubjects: Subject[],
+        scene: SceneDefinition,
+        signal: AbortSignal,
+        priority: JobPriority,
+        anchorUrl: string | undefined,
+        onStart?: () => Promise<unknown>,
+    ) => {
+        const photos = await photosToSend(sourceSubjects);
+        let started = false;
+        const results = await Promise.allSettled(Array.from({ length: variantCount }, () =>
+            getGenerationScheduler().schedule(async () => {
+                if (!started) {
+                    started = true;
+                    await onStart?.();
+                }
+                return generateStyledImage(
+                    photos,
+                    promptForSubjects(scene.prompt, sourceSubjects),
+                    fallbacksFor(scene).map(fallback => promptForSubjects(fallback, sourceSubjects)),
+                    { signal, sceneId: scene.id, anchorDataUrl: anchorUrl },
+                );
+            }, { priority, signal }),
+        ));
+        throwIfAborted(signal);
+
+        const candidates: ImageVariant[] = [];
+        let attempts: PromptAttempt[] | undefined;
+        for (const result of results) {
+            if (result.status === 'fulfilled') {
+                candidates.push({ id: createVariantId(), url: result.value.imageUrl, promptRung: result.value.rung, createdAt: Date.now() });
+                attempts ??= result.value.attempts;
+            } else if (results.length > 1) {
+                console.warn(`A variant for ${scene.caption} failed:`, result.reason);
+            }
+        }
+        if (candidates.length === 0) {
+            throw (results[0] as PromiseRejectedResult).reason;
+        }
+        return { candidates, attempts };
+    };
+
+    /**
+     * Queues the given scenes as batch work on the generation scheduler, journaling each scene's
+     * progress so the run can be resumed if the page goes away before it finishes.
+     *
+     * In consistency mode without an anchor, the first scene is generated on its own and the
+     * rest wait until the user picks an anchor or chooses to carry on without one.
+     */
+    const runScenes = async (sourceSubjects: Subject[], scenesToRun: SceneDefinition[], journal: RunJournal | null) => {
+        const run = {};
+        activeRun.current = run;
         setIsLoading(true);
         setAppState('generating');
-        
-        const initialImages: Record<string, GeneratedImage> = {};
-        SCENES.forEach(scene => {
-            initialImages[scene] = { status: 'pending' };
-        });
-        setGeneratedImages(initialImages);
 
-        const concurrencyLimit = 2; // Process two scenes at a time
-        const scenesQueue = [...SCENES];
+        const [leadScene] = scenesToRun;
+        let approveAnchor = () => {};
+        const anchorApproved = new Promise<void>(resolve => { approveAnchor = resolve; });
+        const waitsForAnchor = consistencyMode && !anchorRef.current && scenesToRun.length > 1;
+        if (waitsForAnchor) {
+            anchorApproval.current = approveAnchor;
+            setAnchorCandidateId(leadScene.id);
+        }
 
-        const processScene = async (scene: string) => {
+        const processScene = async (scene: SceneDefinition) => {
+            const task = startSceneTask(scene.id, undefined, journal);
+            const { signal } = task.controller;
             try {
-                const prompt = `Reimagine the person in this photo in the artistic style of the anime 'Violet Evergarden'. The scene is: "${scene}". Capture the painterly, emotional aesthetic of the anime with detailed clothing and background appropriate for the scene. The output must be a high-quality, artistic image.`;
-                const resultUrl = await generateStyledImage(uploadedImage, prompt, scene);
-                setGeneratedImages(prev => ({
-                    ...prev,
-                    [scene]: { status: 'done', url: resultUrl },
-                }));
+                if (waitsForAnchor && scene !== leadScene) await abortable(anchorApproved, signal);
+                const { candidates, attempts } = await generateCandidates(sourceSubjects, scene, signal, 'batch', anchorUrlForScene(scene.id),
+                    async () => journal && updateJournalEntry(journal, scene.id, { state: 'in-flight' }));
+                if (!isCurrentTask(scene.id, task)) return;
+                const generated = withNewVariants(undefined, candidates);
+                const image = appendVersion({ ...generated, attempts }, 'initial', promptOnRung(scene, generated.promptRung));
+                setGeneratedImages(prev => ({ ...prev, [scene.id]: image }));
+                if (journal) await updateJournalEntry(journal, scene.id, { state: 'done', resultUrl: image.url, promptRung: image.promptRung });
             } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+                if (!isCurrentTask(scene.id, task)) return;
+                const { message: errorMessage, kind: errorKind, block, attempts } = toGenerationError(err);
                 setGeneratedImages(prev => ({
                     ...prev,
-                    [scene]: { status: 'error', error: errorMessage },
+                    [scene.id]: { status: 'error', error: errorMessage, errorKind, block, attempts, updatedAt: Date.now() },
                 }));
-                console.error(`Failed to generate image for ${scene}:`, err);
+                if (journal) await updateJournalEntry(journal, scene.id, { state: 'failed', error: errorMessage, errorKind });
+                console.error(`Failed to generate image for ${scene.caption}:`, err);
+            } finally {
+                finishSceneTask(scene.id, task);
             }
         };
 
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (scenesQueue.length > 0) {
-                const scene = scenesQueue.shift();
-                if (scene) {
-                    await processScene(scene);
-                }
-            }
-        });
-
-        await Promise.all(workers);
+        await Promise.all(scenesToRun.map(processScene));
+        if (waitsForAnchor && anchorApproval.current === approveAnchor) {
+            anchorApproval.current = null;
+            setAnchorCandidateId(null);
+        }
 
+        // A reset or a newer run has taken over; leave the screen to it.
+        if (activeRun.current !== run) return;
+        activeRun.current = null;
         setIsLoading(false);
         setAppState('results-shown');
     };
 
-    const handleRegenerateScene = async (scene: string) => {
+    const handleGenerateClick = async () => {
+        if (!uploadedImage) return;
+
+        const activeSession = session ?? (() => {
+            const createdAt = Date.now();
+            return { id: createSessionId(), name: `${scenePack.name}, ${new Date(createdAt).toLocaleString()}`, createdAt };
+        })();
+        if (!session) {
+            setSession(activeSession);
+            setBoard({});
+            requestPersistentStorage();
+        }
+        
+        updateAnchor(null);
+        const initialImages: Record<string, GeneratedImage> = {};
+        scenes.forEach(scene => {
+            initialImages[scene.id] = { status: 'pending' };
+        });
+        setGeneratedImages(initialImages);
+
+        let journal: RunJournal | null = null;
+        try {
+            journal = await startRunJournal(activeSession, scenePack, subjects);
+        } catch (error) {
+            console.warn("Could not journal this run; it won't be resumable.", error);
+        }
+        await runScenes(subjects, scenes, journal);
+    };
+
+    const handleResumeRun = async () => {
+        const journal = interruptedRun;
+        if (!journal) return;
+        setInterruptedRun(null);
+        await flushSessionSave();
+
+        const stored = await loadSession(journal.sessionId).catch(() => undefined);
+        const unfinished = new Set(unfinishedSceneIds(journal));
+
+        // Finished scenes come from the journal (or a newer saved edit) and are never regenerated.
+        const images: Record<string, GeneratedImage> = {};
+        for (const scene of journal.scenePack.scenes) {
+            const entry = journal.entries[scene.id];
+            const saved = stored?.images[scene.id];
+            if (unfinished.has(scene.id)) {
+                images[scene.id] = { status: 'pending' };
+            } else if (saved && saved.status !== 'pending' && (saved.updatedAt ?? 0) > entry.updatedAt) {
+                images[scene.id] = saved;
+            } else if (entry.state === 'done') {
+                images[scene.id] = appendVersion(
+                    { status: 'done', url: entry.resultUrl, promptRung: entry.promptRung, updatedAt: entry.updatedAt },
+                    'initial',
+                    promptOnRung(entry, entry.promptRung),
+                );
+            } else {
+                images[scene.id] = { status: 'error', error: entry.error, errorKind: entry.errorKind, updatedAt: entry.updatedAt };
+            }
+        }
+
+        setSession({ id: journal.sessionId, name: stored?.name ?? journal.sessionName, createdAt: journal.sessionCreatedAt });
+        setScenePack(journal.scenePack);
+        const journalSubjects = restoreSubjects(journal.subjects, journal.sourceImage);
+        setSubjects(journalSubjects);
+        setGeneratedImages(images);
+        setRemixTranscripts(stored?.remixTranscripts ?? {});
+        updateAnchor(stored?.anchor ?? null);
+        setAlbumSettings({ ...DEFAULT_ALBUM_SETTINGS, ...stored?.album });
+        setBoard(stored?.board ?? {});
+
+        // Resume with exactly the prompts the scenes were queued with.
+        const scenesToRun = journal.scenePack.scenes
+            .filter(scene => unfinished.has(scene.id))
+            .map(scene => ({ ...scene, prompt: journal.entries[scene.id].prompt, fallbackPrompts: journal.entries[scene.id].fallbackPrompts }));
+        await runScenes(journalSubjects, scenesToRun, journal);
+    };
+
+    const handleDiscardRun = () => {
+        if (interruptedRun) {
+            deleteRunJournal(interruptedRun.sessionId).catch(error => console.warn("Could not discard run journal:", error));
+        }
+        setInterruptedRun(null);
+    };
+
+    const handleRegenerateScene = async (scene: SceneDefinition) => {
         if (!uploadedImage) return;
 
         // Prevent re-triggering if a generation is already in progress
-        if (generatedImages[scene]?.status === 'pending') {
+        const previous = generatedImages[scene.id];
+        if (previous?.status === 'pending') {
             return;
         }
         
-        console.log(`Regenerating image for ${scene}...`);
+        console.log(`Regenerating image for ${scene.caption}...`);
+        const task = startSceneTask(scene.id, previous, null);
 
         // Set the specific scene to 'pending' to show the loading spinner
         setGeneratedImages(prev => ({
             ...prev,
-            [scene]: { status: 'pending' },
+            [scene.id]: { status: 'pending', ...keepHistory(previous) },
         }));
 
         // Call the generation service for the specific scene
+        const { signal } = task.controller;
         try {
-            const prompt = `Reimagine the person in this photo in the artistic style of the anime 'Violet Evergarden'. The scene is: "${scene}". Capture the painterly, emotional aesthetic of the anime with detailed clothing and background appropriate for the scene. The output must be a high-quality, artistic image.`;
-            const resultUrl = await generateStyledImage(uploadedImage, prompt, scene);
+            // Jumps ahead of any batch work still queued.
+            const { candidates, attempts } = await generateCandidates(subjects, scene, signal, 'interactive', anchorUrlForScene(scene.id));
+            if (!isCurrentTask(scene.id, task)) return;
+            const generated = withNewVariants(previous, candidates);
             setGeneratedImages(prev => ({
                 ...prev,
-                [scene]: { status: 'done', url: resultUrl },
+                [scene.id]: appendVersion(
+                    { ...generated, attempts, ...keepHistory(previous) },
+                    previous?.versions?.length ? 'regenerate' : 'initial',
+                    promptOnRung(scene, generated.promptRung),
+                ),
             }));
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+            if (!isCurrentTask(scene.id, task)) return;
+            const { message: errorMessage, kind: errorKind, block, attempts } = toGenerationError(err);
             setGeneratedImages(prev => ({
                 ...prev,
-                [scene]: { status: 'error', error: errorMessage },
+                [scene.id]: { status: 'error', error: errorMessage, errorKind, block, attempts, ...keepHistory(previous), updatedAt: Date.now() },
             }));
-            console.error(`Failed to regenerate image for ${scene}:`, err);
+            console.error(`Failed to regenerate image for ${scene.caption}:`, err);
+        } finally {
+            finishSceneTask(scene.id, task);
         }
     };
     
     const handleReset = () => {
-        setUploadedImage(null);
+        // Starting over abandons the run for good, so don't offer to resume it later.
+        if (abortAllGenerations() && session) {
+            deleteRunJournal(session.id).catch(error => console.warn("Could not discard run journal:", error));
+        }
+        // The session stays in the gallery; make sure its latest state is written first.
+        flushSessionSave();
+        setSession(null);
+        setSubjects([]);
         setGeneratedImages({});
+        setRemixTranscripts({});
+        updateAnchor(null);
+        setAlbumSettings(DEFAULT_ALBUM_SETTINGS);
+        setBoard({});
         setAppState('idle');
     };
 
-    const handleDownloadIndividualImage = (scene: string) => {
-        const image = generatedImages[scene];
+    const handleErrorAction = (scene: SceneDefinition, action: ErrorAction) => {
+        switch (action) {
+            case 'retry':
+            case 'retry-later':
+                // While rate limited the scheduler holds the request until the API is ready again.
+                handleRegenerateScene(scene);
+                break;
+            case 'edit-prompt':
+                setIsSceneEditorOpen(true);
+                break;
+            case 'try-another-photo':
+                handleReset();
+                break;
+        }
+    };
+
+    const handleOpenGallery = () => {
+        appStateBeforeGallery.current = appState;
+        setAppState('gallery');
+    };
+
+    const handleRenameSession = async (id: string, name: string) => {
+        // Save first, so a save still waiting with the old name can't undo the rename.
+        await flushSessionSave();
+        await renameSession(id, name);
+        setSession(current => current?.id === id ? { ...current, name } : current);
+    };
+
+    const handleOpenSession = async (id: string) => {
+        abortAllGenerations();
+        await flushSessionSave();
+        let stored: StoredSession | undefined;
+        try {
+            stored = await loadSession(id);
+        } catch (error) {
+            console.error("Failed to open session:", error);
+            setStorageNotice("That session couldn't be read from this browser's storage.");
+            return;
+        }
+        if (!stored) {
+            setStorageNotice("That session could no longer be found.");
+            return;
+        }
+        // Anything still pending when the session was saved was cut off mid-generation.
+        const images = Object.fromEntries(Object.entries(stored.images).map(([sceneId, image]) => [
+            sceneId,
+            image.status === 'pending' ? { status: 'error' as const, error: 'Generation was interrupted.' } : image,
+        ]));
+        setSession({ id: stored.id, name: stored.name, createdAt: stored.createdAt });
+        setScenePack(stored.scenePack);
+        setSubjects(restoreSubjects(stored.subjects, stored.uploadedImage));
+        setGeneratedImages(images);
+        setRemixTranscripts(stored.remixTranscripts ?? {});
+        updateAnchor(stored.anchor ?? null);
+        setAlbumSettings({ ...DEFAULT_ALBUM_SETTINGS, ...stored.album });
+        setBoard(stored.board ?? {});
+        setAppState(Object.keys(images).length > 0 ? 'results-shown' : 'image-uploaded');
+    };
+
+    const handleDownloadIndividualImage = (scene: SceneDefinition) => {
+        const image = generatedImages[scene.id];
         if (image?.status === 'done' && image.url) {
             const link = document.createElement('a');
             link.href = image.url;
-            link.download = `violet-evergarden-${scene.toLowerCase().replace(/\s/g, '-')}.jpg`;
+            link.download = `violet-evergarden-${scene.id}.jpg`;
             document.body.appendChild(link);
             link.click();
             document.body.removeChild(link);
         }
     };
 
-    const handleDownloadAlbum = async () => {
-        setIsDownloading(true);
-        try {
-            const imageData = Object.entries(generatedImages)
-                .filter(([, image]) => image.status === 'done' && image.url)
-                .reduce((acc, [scene, image]) => {
-                    acc[scene] = image!.url!;
-                    return acc;
-                }, {} as Record<string, string>);
-
-            if (Object.keys(imageData).length < SCENES.length) {
-                alert("Please wait for all images to finish generating before downloading the album.");
-                return;
-            }
+    const albumEntries = useMemo<AlbumEntry[]>(() => scenes.map(scene => {
+        const image = generatedImages[scene.id];
+        return { id: scene.id, caption: scene.caption, ...(image?.status === 'done' && image.url && { imageUrl: image.url }) };
+    }), [scenes, generatedImages]);
 
-            const albumDataUrl = await createAlbumPage(imageData);
+    const handleArrangeBoard = (arrange: typeof tidyBoard) => {
+        if (boardSize) setBoard(arrange(scenes, boardSize));
+    };
 
+    const handleDownloadBoard = async () => {
+        if (!boardSize) return;
+        setIsDownloading(true);
+        try {
+            const boardUrl = await renderBoardImage(
+                albumEntries.map((entry, index) => ({ ...entry, card: boardCardFor(board, scenes[index], index) })),
+                boardSize,
+            );
             const link = document.createElement('a');
-            link.href = albumDataUrl;
-            link.download = 'violet-evergarden-album.jpg';
+            link.href = boardUrl;
+            link.download = 'violet-evergarden-board.jpg';
             document.body.appendChild(link);
             link.click();
             document.body.removeChild(link);
+        } catch (error) {
+            console.error("Failed to create the board image:", error);
+            alert("Sorry, there was an error saving your board. Please try again.");
+        } finally {
+            setIsDownloading(false);
+        }
+    };
 
+    const handleDownloadAlbum = async () => {
+        setIsDownloading(true);
+        try {
+            const entries = albumEntriesFor(albumEntries, albumSettings);
+            const album = await renderAlbumInBackground(entries, albumSettings, setAlbumProgress);
+
+            if (album.format !== 'jpeg') {
+                const url = URL.createObjectURL(album.pdf);
+                const link = document.createElement('a');
+                link.href = url;
+                link.download = album.format === 'print' ? 'violet-evergarden-album-print.pdf' : 'violet-evergarden-album.pdf';
+                document.body.appendChild(link);
+                link.click();
+                document.body.removeChild(link);
+                // The download starts after click() returns, and some browsers still need the URL then.
+                setTimeout(() => URL.revokeObjectURL(url), 60000);
+            } else {
+                const { pages } = album;
+                pages.forEach((pageUrl, index) => {
+                    const link = document.createElement('a');
+                    link.href = pageUrl;
+                    link.download = pages.length === 1 ? 'violet-evergarden-album.jpg' : `violet-evergarden-album-page-${index + 1}.jpg`;
+                    document.body.appendChild(link);
+                    link.click();
+                    document.body.removeChild(link);
+                });
+            }
+            setIsAlbumDialogOpen(false);
         } catch (error) {
             console.error("Failed to create or download album:", error);
             alert("Sorry, there was an error creating your album. Please try again.");
         } finally {
             setIsDownloading(false);
+            setAlbumProgress(null);
         }
     };
     
-    const handleOpenRemixModal = (scene: string, imageUrl: string) => {
+    const handleOpenRemixModal = (scene: SceneDefinition, imageUrl: string) => {
         setRemixModalState({ isOpen: true, scene, imageUrl });
     };
 
@@ -232,14 +757,54 @@ function App() {
         setRemixModalState({ isOpen: false, scene: null, imageUrl: null });
     };
 
-    const handleSaveRemixedImage = (scene: string, newImageUrl: string) => {
+    const handleSaveRemixedImage = (newImageUrl: string, instructions: string) => {
+        const scene = remixModalState.scene;
+        if (!scene) return;
+        if (newImageUrl === generatedImages[scene.id]?.url) {
+            handleCloseRemixModal(); // Saved without remixing; nothing to record.
+            return;
+        }
         setGeneratedImages(prev => ({
             ...prev,
-            [scene]: { ...prev[scene], status: 'done', url: newImageUrl },
+            [scene.id]: appendVersion(replaceChosenImage(prev[scene.id], newImageUrl), 'remix', instructions),
         }));
         handleCloseRemixModal();
     };
 
+    const batchRemixScenes = scenes.flatMap(scene => {
+        const image = generatedImages[scene.id];
+        return image?.status === 'done' && image.url ? [{ id: scene.id, caption: scene.caption, imageUrl: image.url }] : [];
+    });
+
+    const handleApplyBatchRemix = (results: BatchRemixResult[], instruction: string) => {
+        setGeneratedImages(prev => {
+            const next = { ...prev };
+            for (const { sceneId, sourceUrl, imageUrl } of results) {
+                // A card regenerated or remixed since the batch started keeps its newer image.
+                if (next[sceneId]?.url !== sourceUrl || sceneTasks.current.has(sceneId)) continue;
+                next[sceneId] = appendVersion(replaceChosenImage(next[sceneId], imageUrl), 'remix', instruction);
+            }
+            return next;
+        });
+        setIsBatchRemixOpen(false);
+    };
+
+    const updateContactSheetImage = (update: (image: GeneratedImage) => GeneratedImage) => {
+        if (!contactSheetSceneId) return;
+        setGeneratedImages(prev => prev[contactSheetSceneId]
+            ? { ...prev, [contactSheetSceneId]: update(prev[contactSheetSceneId]) }
+            : prev);
+    };
+
+    const contactSheetScene = scenes.find(scene => scene.id === contactSheetSceneId);
+    const anchorCandidate = scenes.find(scene => scene.id === anchorCandidateId);
+    const timelineScene = scenes.find(scene => scene.id === timelineSceneId);
+
+    const handleRestoreVersion = (versionId: string) => {
+        if (!timelineScene || sceneTasks.current.has(timelineScene.id)) return;
+        setGeneratedImages(prev => ({ ...prev, [timelineScene.id]: restoreVersion(prev[timelineScene.id], versionId) }));
+    };
+
     return (
         <main className="text-neutral-800 min-h-screen w-full flex flex-col items-center justify-center p-4 pb-24 overflow-hidden relative">
             <div className="absolute top-0 left-0 w-full h-full bg-grid-black/[0.05]"></div>
@@ -250,6 +815,34 @@ function App() {
                     <p className="text-neutral-700 mt-2 text-xl tracking-wide">See yourself in the style of an Auto Memory Doll.</p>
                 </div>
 
+                {storageNotice && (
+                    <div className="mb-6 max-w-xl flex items-start gap-3 bg-amber-100/80 text-amber-900 text-sm rounded-sm px-4 py-2" role="status">
+                        <p className="flex-grow">{storageNotice}</p>
+                        <button onClick={() => setStorageNotice(null)} aria-label="Dismiss">✕</button>
+                    </div>
+                )}
+
+                {interruptedRun && !isLoading && (
+                    <div className="mb-6 max-w-xl flex flex-col sm:flex-row items-center gap-3 bg-white/70 text-neutral-800 rounded-sm px-4 py-3 shadow" role="status">
+                        <p className="flex-grow text-center sm:text-left">
+                            "{interruptedRun.sessionName}" was interrupted with {unfinishedSceneIds(interruptedRun).length} of {interruptedRun.scenePack.scenes.length} scenes unfinished.
+                        </p>
+                        <div className="flex gap-2">
+                            <button onClick={handleResumeRun} className="font-lato text-amber-900 bg-amber-400 py-1.5 px-4 rounded-sm hover:bg-amber-300">Resume</button>
+                            <button onClick={handleDiscardRun} className="font-lato text-neutral-700 py-1.5 px-4 rounded-sm hover:bg-white">Discard</button>
+                        </div>
+                    </div>
+                )}
+
+                {appState === 'gallery' && (
+                    <SessionGallery
+                        currentSessionId={session?.id ?? null}
+                        onOpen={handleOpenSession}
+                        onRename={handleRenameSession}
+                        onBack={() => setAppState(appStateBeforeGallery.current)}
+                    />
+                )}
+
                 {appState === 'idle' && (
                      <div className="relative flex flex-col items-center justify-center w-full">
                         {/* Ghost polaroids for intro animation */}
@@ -282,21 +875,68 @@ function App() {
                                      status="done"
                                  />
                             </label>
-                            <input id="file-upload" type="file" className="hidden" accept="image/png, image/jpeg, image/webp" onChange={handleImageUpload} />
+                            <input id="file-upload" type="file" className="hidden" accept="image/*,.heic,.heif" multiple onChange={handleImageUpload} />
                             <p className="mt-8 text-neutral-600 text-center max-w-xs text-lg">
-                                Click the polaroid to upload your photo and start your journey.
+                                Click the polaroid to upload your photo and start your journey. Pick a few photos of yourself for a closer likeness.
                             </p>
+                            <button onClick={handleOpenGallery} className="mt-4 font-lato text-neutral-700 underline underline-offset-4 hover:text-amber-800">
+                                Past Sessions
+                            </button>
                         </motion.div>
                     </div>
                 )}
 
                 {appState === 'image-uploaded' && uploadedImage && (
                     <div className="flex flex-col items-center gap-6">
-                         <PolaroidCard 
-                            imageUrl={uploadedImage} 
-                            caption="Your Photo" 
-                            status="done"
+                         <SubjectEditor subjects={subjects} onChange={setSubjects} />
+                         <ScenePackPicker
+                            packs={[...BUILT_IN_SCENE_PACKS, ...customScenePacks]}
+                            selectedPack={scenePack}
+                            onSelect={setScenePack}
+                            onImport={handleImportScenePack}
+                            onEdit={() => setIsSceneEditorOpen(true)}
                          />
+                         <label className="font-lato text-neutral-700 flex items-center gap-2">
+                            Generate
+                            <select
+                                value={concurrency}
+                                onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+                                className="bg-white/70 rounded-sm px-2 py-1"
+                            >
+                                {Array.from({ length: MAX_CONCURRENCY - MIN_CONCURRENCY + 1 }, (_, i) => MIN_CONCURRENCY + i).map(limit => (
+                                    <option key={limit} value={limit}>{limit}</option>
+                                ))}
+                            </select>
+                            at a time
+                         </label>
+                         <label className="font-lato text-neutral-700 flex items-center gap-2">
+                            <select
+                                value={variantCount}
+                                onChange={(e) => handleVariantCountChange(Number(e.target.value))}
+                                className="bg-white/70 rounded-sm px-2 py-1"
+                            >
+                                {Array.from({ length: MAX_VARIANTS - MIN_VARIANTS + 1 }, (_, i) => MIN_VARIANTS + i).map(count => (
+                                    <option key={count} value={count}>{count}</option>
+                                ))}
+                            </select>
+                            {variantCount === 1 ? 'image' : 'variants to pick from'} per scene
+                         </label>
+                         <label className="font-lato text-neutral-700 flex items-center gap-2" title="When off, a scene whose prompt is blocked fails instead of retrying with a gentler version.">
+                            <input
+                                type="checkbox"
+                                checked={useSoftenedPrompts}
+                                onChange={(e) => handleUseSoftenedPromptsChange(e.target.checked)}
+                            />
+                            Retry blocked scenes with softened prompts
+                         </label>
+                         <label className="font-lato text-neutral-700 flex items-center gap-2" title="The first scene is generated on its own; once you approve it, the others are drawn to match it.">
+                            <input
+                                type="checkbox"
+                                checked={consistencyMode}
+                                onChange={(e) => handleConsistencyModeChange(e.target.checked)}
+                            />
+                            Keep the character consistent across scenes
+                         </label>
                          <div className="flex items-center gap-4 mt-4">
                             <button onClick={handleReset} className={secondaryButtonClasses}>
                                 Different Photo
@@ -310,66 +950,149 @@ function App() {
 
                 {(appState === 'generating' || appState === 'results-shown') && (
                      <>
+                        {anchorCandidate && (
+                            <div className="mt-4 max-w-xl flex flex-col sm:flex-row items-center gap-3 bg-white/70 text-neutral-800 rounded-sm px-4 py-3 shadow" role="status">
+                                <p className="flex-grow text-center sm:text-left">
+                                    {generatedImages[anchorCandidate.id]?.status === 'done'
+                                        ? `Happy with how you look in "${anchorCandidate.caption}"? The other scenes will be drawn to match it.`
+                                        : `The other scenes wait for "${anchorCandidate.caption}", so they can be drawn to match it.`}
+                                </p>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => handleToggleAnchor(anchorCandidate)}
+                                        disabled={generatedImages[anchorCandidate.id]?.status !== 'done'}
+                                        className="font-lato text-amber-900 bg-amber-400 py-1.5 px-4 rounded-sm hover:bg-amber-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        Use as anchor
+                                    </button>
+                                    <button onClick={releaseAnchorWait} className="font-lato text-neutral-700 py-1.5 px-4 rounded-sm hover:bg-white">Continue without</button>
+                                </div>
+                            </div>
+                        )}
                         {isMobile ? (
                             <div className="w-full max-w-sm flex-1 overflow-y-auto mt-4 space-y-8 p-4">
-                                {SCENES.map((scene) => (
-                                    <div key={scene} className="flex justify-center">
+                                {scenes.map((scene) => (
+                                    <div key={scene.id} className="flex justify-center">
                                          <PolaroidCard
-                                            caption={scene}
-                                            status={generatedImages[scene]?.status || 'pending'}
-                                            imageUrl={generatedImages[scene]?.url}
-                                            error={generatedImages[scene]?.error}
-                                            onShake={handleRegenerateScene}
-                                            onDownload={handleDownloadIndividualImage}
-                                            onRemix={handleOpenRemixModal}
+                                            caption={scene.caption}
+                                            status={generatedImages[scene.id]?.status || 'pending'}
+                                            imageUrl={generatedImages[scene.id]?.url}
+                                            error={generatedImages[scene.id]?.error}
+                                            errorKind={generatedImages[scene.id]?.errorKind}
+                                            promptRung={generatedImages[scene.id]?.promptRung}
+                                            attempts={generatedImages[scene.id]?.attempts}
+                                            variantCount={generatedImages[scene.id]?.variants?.length}
+                                            onShowVariants={() => setContactSheetSceneId(scene.id)}
+                                            versionCount={generatedImages[scene.id]?.versions?.length}
+                                            onShowHistory={() => setTimelineSceneId(scene.id)}
+                                            isAnchor={consistencyMode && anchor?.sceneId === scene.id}
+                                            onToggleAnchor={consistencyMode ? () => handleToggleAnchor(scene) : undefined}
+                                            onShake={() => handleRegenerateScene(scene)}
+                                            onCancel={() => handleCancelScene(scene)}
+                                            onErrorAction={(action) => handleErrorAction(scene, action)}
+                                            onDownload={() => handleDownloadIndividualImage(scene)}
+                                            onRemix={(_, imageUrl) => handleOpenRemixModal(scene, imageUrl)}
                                             isMobile={isMobile}
                                         />
                                     </div>
                                 ))}
                             </div>
                         ) : (
+                            <>
+                            <div className="flex gap-2 mt-4">
+                                <button onClick={() => handleArrangeBoard(tidyBoard)} disabled={!boardSize} className="font-lato text-sm text-white bg-white/10 backdrop-blur-sm border border-white/60 py-1.5 px-3 rounded-sm hover:bg-white hover:text-amber-800 transition-colors duration-200">
+                                    Tidy Up
+                                </button>
+                                <button onClick={() => handleArrangeBoard(scatterBoard)} disabled={!boardSize} className="font-lato text-sm text-white bg-white/10 backdrop-blur-sm border border-white/60 py-1.5 px-3 rounded-sm hover:bg-white hover:text-amber-800 transition-colors duration-200">
+                                    Scatter
+                                </button>
+                            </div>
                             <div ref={dragAreaRef} className="relative w-full max-w-5xl h-[600px] mt-4">
-                                {SCENES.map((scene, index) => {
-                                    const { top, left, rotate } = POSITIONS[index];
+                                {scenes.map((scene, index) => {
+                                    const card = boardCardFor(board, scene, index);
                                     return (
                                         <motion.div
-                                            key={scene}
-                                            className="absolute cursor-grab active:cursor-grabbing"
-                                            style={{ top, left }}
-                                            initial={{ opacity: 0, scale: 0.5, y: 100, rotate: 0 }}
+                                            key={scene.id}
+                                            className="absolute top-0 left-0 cursor-grab active:cursor-grabbing"
+                                            style={{ zIndex: card.z }}
+                                            initial={{ opacity: 0, scale: 0.5, y: 100 }}
                                             animate={{ 
                                                 opacity: 1, 
                                                 scale: 1, 
                                                 y: 0,
-                                                rotate: `${rotate}deg`,
                                             }}
                                             transition={{ type: 'spring', stiffness: 100, damping: 20, delay: index * 0.15 }}
                                         >
                                             <PolaroidCard 
                                                 dragConstraintsRef={dragAreaRef}
-                                                caption={scene}
-                                                status={generatedImages[scene]?.status || 'pending'}
-                                                imageUrl={generatedImages[scene]?.url}
-                                                error={generatedImages[scene]?.error}
-                                                onShake={handleRegenerateScene}
-                                                onDownload={handleDownloadIndividualImage}
-                                                onRemix={handleOpenRemixModal}
+                                                boardPosition={boardSize ? { x: card.left * boardSize.width, y: card.top * boardSize.height } : undefined}
+                                                boardRotation={card.rotation}
+                                                onBoardGrab={() => setBoard(current => raiseCard(current, scenes, scene.id))}
+                                                onBoardSettle={(position) => {
+                                                    if (boardSize) setBoard(current => moveCard(current, scenes, scene.id, position, boardSize));
+                                                }}
+                                                caption={scene.caption}
+                                                status={generatedImages[scene.id]?.status || 'pending'}
+                                                imageUrl={generatedImages[scene.id]?.url}
+                                                error={generatedImages[scene.id]?.error}
+                                                errorKind={generatedImages[scene.id]?.errorKind}
+                                                promptRung={generatedImages[scene.id]?.promptRung}
+                                                attempts={generatedImages[scene.id]?.attempts}
+                                                variantCount={generatedImages[scene.id]?.variants?.length}
+                                                onShowVariants={() => setContactSheetSceneId(scene.id)}
+                                                versionCount={generatedImages[scene.id]?.versions?.length}
+                                                onShowHistory={() => setTimelineSceneId(scene.id)}
+                                                isAnchor={consistencyMode && anchor?.sceneId === scene.id}
+                                                onToggleAnchor={consistencyMode ? () => handleToggleAnchor(scene) : undefined}
+                                                onShake={() => handleRegenerateScene(scene)}
+                                                onCancel={() => handleCancelScene(scene)}
+                                                onErrorAction={(action) => handleErrorAction(scene, action)}
+                                                onDownload={() => handleDownloadIndividualImage(scene)}
+                                                onRemix={(_, imageUrl) => handleOpenRemixModal(scene, imageUrl)}
                                                 isMobile={isMobile}
                                             />
                                         </motion.div>
                                     );
                                 })}
                             </div>
+                            </>
                         )}
+                         <div className="w-full flex justify-center mt-4">
+                            <GenerationProgress />
+                         </div>
                          <div className="h-20 mt-4 flex items-center justify-center">
+                            {appState === 'generating' && isLoading && (
+                                <button onClick={handleStopAll} className={secondaryButtonClasses}>
+                                    Stop All
+                                </button>
+                            )}
                             {appState === 'results-shown' && (
                                 <div className="flex flex-col sm:flex-row items-center gap-4">
                                     <button 
-                                        onClick={handleDownloadAlbum} 
+                                        onClick={() => setIsAlbumDialogOpen(true)} 
                                         disabled={isDownloading} 
                                         className={`${primaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
                                     >
-                                        {isDownloading ? 'Creating Album...' : 'Download Album'}
+                                        {isDownloading ? albumProgressLabel(albumProgress) : 'Download Album'}
+                                    </button>
+                                    {!isMobile && (
+                                        <button
+                                            onClick={handleDownloadBoard}
+                                            disabled={isDownloading || !boardSize}
+                                            className={`${secondaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+                                        >
+                                            Download Board
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => setIsBatchRemixOpen(true)}
+                                        disabled={batchRemixScenes.length === 0}
+                                        className={`${secondaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+                                    >
+                                        Batch Remix
+                                    </button>
+                                    <button onClick={handleOpenGallery} className={secondaryButtonClasses}>
+                                        Past Sessions
                                     </button>
                                     <button onClick={handleReset} className={secondaryButtonClasses}>
                                         Start Over
@@ -381,12 +1104,56 @@ function App() {
                 )}
             </div>
             <Footer />
+            <SceneEditor
+                isOpen={isSceneEditorOpen}
+                pack={scenePack}
+                isEditable={!isBuiltInScenePack(scenePack)}
+                onClose={() => setIsSceneEditorOpen(false)}
+                onSave={handleSaveEditedScenes}
+            />
+            <ContactSheet
+                isOpen={!!contactSheetScene}
+                caption={contactSheetScene?.caption ?? ''}
+                image={contactSheetScene ? generatedImages[contactSheetScene.id] : undefined}
+                onChoose={(variantId) => updateContactSheetImage(image => syncCurrentVersion(chooseVariant(image, variantId)))}
+                onToggleStar={(variantId) => updateContactSheetImage(image => toggleVariantStar(image, variantId))}
+                onDiscard={(variantId) => updateContactSheetImage(image => syncCurrentVersion(discardVariant(image, variantId)))}
+                onClose={() => setContactSheetSceneId(null)}
+            />
+            <VersionTimeline
+                isOpen={!!timelineScene}
+                caption={timelineScene?.caption ?? ''}
+                image={timelineScene ? generatedImages[timelineScene.id] : undefined}
+                onRestore={handleRestoreVersion}
+                onClose={() => setTimelineSceneId(null)}
+            />
+            <AlbumDialog
+                isOpen={isAlbumDialogOpen}
+                entries={albumEntries}
+                settings={albumSettings}
+                onSettingsChange={setAlbumSettings}
+                isDownloading={isDownloading}
+                progress={albumProgress}
+                onDownload={handleDownloadAlbum}
+                onClose={() => setIsAlbumDialogOpen(false)}
+            />
+            <BatchRemixModal
+                isOpen={isBatchRemixOpen}
+                scenes={batchRemixScenes}
+                onApply={handleApplyBatchRemix}
+                onClose={() => setIsBatchRemixOpen(false)}
+            />
             <RemixModal
                 isOpen={remixModalState.isOpen}
                 onClose={handleCloseRemixModal}
                 onSave={handleSaveRemixedImage}
-                scene={remixModalState.scene}
+                scene={remixModalState.scene?.caption ?? null}
                 initialImageUrl={remixModalState.imageUrl}
+                initialChatHistory={remixModalState.scene ? remixTranscripts[remixModalState.scene.id] : undefined}
+                onChatHistoryChange={(history) => {
+                    const scene = remixModalState.scene;
+                    if (scene) setRemixTranscripts(prev => ({ ...prev, [scene.id]: history }));
+                }}
             />
         </main>
     );
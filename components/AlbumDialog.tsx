@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { ALBUM_TEMPLATES, layoutAlbum } from '../lib/albumLayouts';
+import type { AlbumSettings } from '../lib/albumLayouts';
+import { PDF_PAPER_SIZES } from '../lib/pdfWriter';
+import type { PdfPaperSize } from '../lib/pdfWriter';
+import { albumEntriesFor, findLowResolutionEntries } from '../lib/albumUtils';
+import type { AlbumEntry, AlbumRenderProgress, LowResolutionEntry } from '../lib/albumUtils';
+import { albumProgressLabel } from '../lib/albumRendering';
+import { BLEED_OPTIONS_MM, INSTANT_FILM_MM, layoutPolaroidSheets, MIN_PRINT_PPI, PRINT_DPI_OPTIONS } from '../lib/printLayout';
+import type { PrintSettings } from '../lib/printLayout';
+import { resetLayout } from '../lib/albumEdits';
+import AlbumEditor from './AlbumEditor';
+
+interface AlbumDialogProps {
+    isOpen: boolean;
+    /** Every scene, in order; the ones without an image are placeheld or skipped per the settings. */
+    entries: AlbumEntry[];
+    settings: AlbumSettings;
+    onSettingsChange: (settings: AlbumSettings) => void;
+    isDownloading: boolean;
+    /** How far the album being downloaded has got, once it has started. */
+    progress: AlbumRenderProgress | null;
+    onDownload: () => void;
+    onClose: () => void;
+}
+
+const inputClasses = "w-full bg-neutral-800 text-white placeholder-neutral-500 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-amber-400";
+
+/**
+ * Chooses how the album is laid out and titled before it is downloaded.
+ */
+const AlbumDialog: React.FC<AlbumDialogProps> = ({ isOpen, entries, settings, onSettingsChange, isDownloading, progress, onDownload, onClose }) => {
+    const [lowResolution, setLowResolution] = useState<LowResolutionEntry[]>([]);
+    const [isEditing, setIsEditing] = useState(false);
+    const update = (changes: Partial<AlbumSettings>) => onSettingsChange({ ...settings, ...changes });
+    const updatePrint = (changes: Partial<PrintSettings>) => update({ print: { ...settings.print, ...changes } });
+
+    const missingCount = entries.filter(entry => !entry.imageUrl).length;
+    const included = albumEntriesFor(entries, settings);
+    const isPrint = settings.format === 'print';
+    const isSheet = isPrint && settings.print.sheet === 'polaroids';
+    const pageCount = isSheet
+        ? layoutPolaroidSheets(included.length, settings.paperSize, settings.print).sheets.length
+        : layoutAlbum(included.length, settings.template).length;
+
+    // Only the print export checks resolution; the photos have to be decoded to know it.
+    useEffect(() => {
+        if (!isOpen || !isPrint) {
+            setLowResolution([]);
+            return;
+        }
+        let cancelled = false;
+        findLowResolutionEntries(included, settings)
+            .then(found => { if (!cancelled) setLowResolution(found); })
+            .catch(error => console.error("Failed to check print resolution:", error));
+        return () => { cancelled = true; };
+    }, [isOpen, isPrint, entries, settings.missingScenes, settings.template, settings.paperSize, settings.print, settings.edits]);
+
+    return (
+        <>
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+                        onClick={onClose}
+                    >
+                        <motion.div
+                            initial={{ scale: 0.9, y: 20 }}
+                            animate={{ scale: 1, y: 0 }}
+                            exit={{ scale: 0.9, y: 20 }}
+                            className="bg-[#1c1c1c] border border-white/10 rounded-lg w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden shadow-2xl"
+                            onClick={(e) => e.stopPropagation()}
+                        >
+                            {/* Header */}
+                            <div className="flex-shrink-0 flex items-center justify-between gap-4 p-4 border-b border-white/10">
+                                <h2 className="font-playfair text-2xl text-amber-400">Your Album</h2>
+                                <button onClick={onClose} className="text-neutral-400 hover:text-white transition-colors" aria-label="Close album settings">
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                                </button>
+                            </div>
+
+                            <div className="flex-grow overflow-y-auto p-4 space-y-4 text-white">
+                                <div className="grid grid-cols-2 md:grid-cols-4 gap-2" role="radiogroup" aria-label="Layout">
+                                    {ALBUM_TEMPLATES.map(template => (
+                                        <button
+                                            key={template.id}
+                                            // Hand placements were made for the old template's slots.
+                                            onClick={() => template.id !== settings.template && update({ template: template.id, edits: resetLayout(settings.edits) })}
+                                            role="radio"
+                                            aria-checked={settings.template === template.id}
+                                            className={cn(
+                                                "text-left rounded-md p-3 border",
+                                                settings.template === template.id ? "border-amber-400 bg-amber-400/10" : "border-white/10 hover:bg-white/5",
+                                            )}
+                                        >
+                                            <span className="block font-semibold">{template.name}</span>
+                                            <span className="block text-xs text-neutral-400">{template.description}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                                <button
+                                    onClick={() => setIsEditing(true)}
+                                    disabled={included.length === 0}
+                                    className="py-1 px-3 rounded-sm text-sm bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    Arrange pages, captions and decorations...
+                                </button>
+                                <label className="block space-y-1">
+                                    <span className="text-sm">Title</span>
+                                    <input type="text" value={settings.title} onChange={(e) => update({ title: e.target.value })} maxLength={60} className={inputClasses} />
+                                </label>
+                                <label className="block space-y-1">
+                                    <span className="text-sm">Subtitle</span>
+                                    <input type="text" value={settings.subtitle} onChange={(e) => update({ subtitle: e.target.value })} maxLength={100} className={inputClasses} />
+                                </label>
+                                {missingCount > 0 && (
+                                    <fieldset className="space-y-1">
+                                        <legend className="text-sm">
+                                            {missingCount} {missingCount === 1 ? 'scene has' : 'scenes have'} no finished image.
+                                        </legend>
+                                        <label className="flex items-center gap-2 text-sm text-neutral-300">
+                                            <input type="radio" checked={settings.missingScenes === 'placeholder'} onChange={() => update({ missingScenes: 'placeholder' })} />
+                                            Keep their place with a blank polaroid
+                                        </label>
+                                        <label className="flex items-center gap-2 text-sm text-neutral-300">
+                                            <input type="radio" checked={settings.missingScenes === 'skip'} onChange={() => update({ missingScenes: 'skip' })} />
+                                            Leave them out
+                                        </label>
+                                    </fieldset>
+                                )}
+                                <fieldset className="space-y-1">
+                                    <legend className="text-sm">Download as</legend>
+                                    <label className="flex items-center gap-2 text-sm text-neutral-300">
+                                        <input type="radio" checked={settings.format === 'jpeg'} onChange={() => update({ format: 'jpeg' })} />
+                                        {pageCount === 1 ? 'A JPEG image' : 'A JPEG image per page'}
+                                    </label>
+                                    <label className="flex items-center gap-2 text-sm text-neutral-300">
+                                        <input type="radio" checked={settings.format === 'pdf'} onChange={() => update({ format: 'pdf' })} />
+                                        A PDF document with a cover, to print or share
+                                    </label>
+                                    <label className="flex items-center gap-2 text-sm text-neutral-300">
+                                        <input type="radio" checked={isPrint} onChange={() => update({ format: 'print' })} />
+                                        A print-ready PDF for a print shop
+                                    </label>
+                                </fieldset>
+                                {settings.format !== 'jpeg' && (
+                                    <div className="flex flex-col sm:flex-row gap-4">
+                                        <label className="block space-y-1 sm:w-40">
+                                            <span className="text-sm">Paper size</span>
+                                            <select
+                                                value={settings.paperSize}
+                                                onChange={(e) => update({ paperSize: e.target.value as PdfPaperSize })}
+                                                className={inputClasses}
+                                            >
+                                                {(Object.keys(PDF_PAPER_SIZES) as PdfPaperSize[]).map(size => (
+                                                    <option key={size} value={size}>{PDF_PAPER_SIZES[size].name}</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                        <label className="block space-y-1 flex-grow">
+                                            <span className="text-sm">Author</span>
+                                            <input type="text" value={settings.author} onChange={(e) => update({ author: e.target.value })} maxLength={60} placeholder="Optional" className={inputClasses} />
+                                        </label>
+                                    </div>
+                                )}
+                                {isPrint && (
+                                    <div className="space-y-3">
+                                        <fieldset className="space-y-1">
+                                            <legend className="text-sm">Print</legend>
+                                            <label className="flex items-center gap-2 text-sm text-neutral-300">
+                                                <input type="radio" checked={settings.print.sheet === 'album'} onChange={() => updatePrint({ sheet: 'album' })} />
+                                                The album pages
+                                            </label>
+                                            <label className="flex items-center gap-2 text-sm text-neutral-300">
+                                                <input type="radio" checked={isSheet} onChange={() => updatePrint({ sheet: 'polaroids' })} />
+                                                Single {INSTANT_FILM_MM.width}×{INSTANT_FILM_MM.height} mm polaroids, laid out to cut out
+                                            </label>
+                                        </fieldset>
+                                        <div className="flex flex-wrap items-end gap-4">
+                                            <label className="block space-y-1">
+                                                <span className="text-sm">Resolution</span>
+                                                <select value={settings.print.dpi} onChange={(e) => updatePrint({ dpi: Number(e.target.value) })} className={inputClasses}>
+                                                    {PRINT_DPI_OPTIONS.map(dpi => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+                                                </select>
+                                            </label>
+                                            {!isSheet && (
+                                                <label className="block space-y-1">
+                                                    <span className="text-sm">Bleed</span>
+                                                    <select value={settings.print.bleedMm} onChange={(e) => updatePrint({ bleedMm: Number(e.target.value) })} className={inputClasses}>
+                                                        {BLEED_OPTIONS_MM.map(mm => <option key={mm} value={mm}>{mm === 0 ? 'None' : `${mm} mm`}</option>)}
+                                                    </select>
+                                                </label>
+                                            )}
+                                            <label className="flex items-center gap-2 text-sm text-neutral-300 pb-2">
+                                                <input type="checkbox" checked={settings.print.cropMarks} onChange={(e) => updatePrint({ cropMarks: e.target.checked })} />
+                                                Crop marks
+                                            </label>
+                                        </div>
+                                        {lowResolution.length > 0 && (
+                                            <div className="text-sm text-amber-300 bg-amber-400/10 border border-amber-400/30 rounded-md p-3" role="alert">
+                                                <p>These photos will print below {MIN_PRINT_PPI} pixels per inch and may look soft:</p>
+                                                <ul className="list-disc list-inside">
+                                                    {lowResolution.map((entry, index) => (
+                                                        <li key={index}>{entry.caption} ({entry.ppi} PPI)</li>
+                                                    ))}
+                                                </ul>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="flex-shrink-0 flex items-center justify-between gap-4 p-4 border-t border-white/10">
+                                <p className="text-sm text-neutral-400">
+                                    {included.length} {included.length === 1 ? 'polaroid' : 'polaroids'} on {pageCount} {isSheet ? (pageCount === 1 ? 'sheet' : 'sheets') : (pageCount === 1 ? 'page' : 'pages')}
+                                    {settings.format !== 'jpeg' && !isSheet && ', plus a cover'}
+                                </p>
+                                <button
+                                    onClick={onDownload}
+                                    disabled={isDownloading || included.length === 0}
+                                    className="font-lato text-lg text-amber-900 bg-amber-400 py-2 px-6 rounded-sm hover:bg-amber-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {isDownloading ? albumProgressLabel(progress) : 'Download'}
+                                </button>
+                            </div>
+                        </motion.div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+            {/* A sibling rather than a child, so its clicks don't reach this dialog's backdrop. */}
+            <AlbumEditor
+                isOpen={isOpen && isEditing}
+                entries={included}
+                settings={settings}
+                onApply={(edits) => { update({ edits }); setIsEditing(false); }}
+                onClose={() => setIsEditing(false)}
+            />
+        </>
+    );
+};
+
+export default AlbumDialog;
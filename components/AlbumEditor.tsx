@@ -0,0 +1,304 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { layoutAlbum } from '../lib/albumLayouts';
+import type { AlbumSettings } from '../lib/albumLayouts';
+import { drawPageOnto, itemAt, loadAlbumImages, resolvePageItems } from '../lib/albumUtils';
+import type { AlbumEntry, AlbumItem } from '../lib/albumUtils';
+import {
+    addElement,
+    ALBUM_DECORATIONS,
+    createElementId,
+    placeItem,
+    removeElement,
+    resetLayout,
+    restackItem,
+    setCaption,
+    setElementText,
+} from '../lib/albumEdits';
+import type { AlbumDecorationKind, AlbumEdits } from '../lib/albumEdits';
+
+interface AlbumEditorProps {
+    isOpen: boolean;
+    /** The scenes in the album, already filtered with albumEntriesFor. */
+    entries: AlbumEntry[];
+    settings: AlbumSettings;
+    onApply: (edits: AlbumEdits) => void;
+    onClose: () => void;
+}
+
+// The largest the page preview is shown at, in CSS pixels.
+const PREVIEW_MAX_WIDTH = 640;
+const PREVIEW_MAX_HEIGHT = 760;
+
+const inputClasses = "w-full bg-neutral-800 text-white placeholder-neutral-500 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-amber-400";
+const toolButtonClasses = "py-1 px-3 rounded-sm text-sm bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const toDegrees = (radians: number) => Math.round(radians * 180 / Math.PI);
+
+/**
+ * Arranges the album by hand: drag polaroids around, turn and resize them, change
+ * their stacking and captions, and add text and decorations. The preview is drawn by
+ * the same code as the downloads, so it shows exactly what will be exported.
+ */
+const AlbumEditor: React.FC<AlbumEditorProps> = ({ isOpen, entries, settings, onApply, onClose }) => {
+    // Changes are kept here until applied, so dragging doesn't save the session on every move.
+    const [draft, setDraft] = useState<AlbumEdits>(settings.edits);
+    const [pageIndex, setPageIndex] = useState(0);
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+    const [images, setImages] = useState<(HTMLImageElement | null)[] | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const drag = useRef<{ item: AlbumItem; startX: number; startY: number } | null>(null);
+
+    const pages = layoutAlbum(entries.length, settings.template);
+    const page = pages[Math.min(pageIndex, pages.length - 1)];
+    const preview = { ...settings, edits: draft };
+    const items = images ? resolvePageItems(page, entries, preview) : [];
+    const selected = items.find(item => item.key === selectedKey) ?? null;
+
+    const displayScale = Math.min(PREVIEW_MAX_WIDTH / page.width, PREVIEW_MAX_HEIGHT / page.height);
+    const display = { width: Math.round(page.width * displayScale), height: Math.round(page.height * displayScale) };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setDraft(settings.edits);
+        setPageIndex(0);
+        setSelectedKey(null);
+        setImages(null);
+        let cancelled = false;
+        loadAlbumImages(entries)
+            .then(loaded => { if (!cancelled) setImages(loaded); })
+            .catch(error => {
+                console.error("Failed to load album photos:", error);
+                if (!cancelled) setImages(entries.map(() => null));
+            });
+        return () => { cancelled = true; };
+    }, [isOpen]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !images) return;
+        const pixelRatio = window.devicePixelRatio || 1;
+        canvas.width = Math.round(display.width * pixelRatio);
+        canvas.height = Math.round(display.height * pixelRatio);
+        drawPageOnto(canvas, page, entries, images, preview);
+    }, [images, page, entries, settings, draft, display.width, display.height]);
+
+    const toPagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) / rect.width * page.width,
+            y: (e.clientY - rect.top) / rect.height * page.height,
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const point = toPagePoint(e);
+        const item = itemAt(items, point.x, point.y);
+        setSelectedKey(item?.key ?? null);
+        if (!item) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        drag.current = { item, startX: point.x, startY: point.y };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!drag.current || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        const { item, startX, startY } = drag.current;
+        const point = toPagePoint(e);
+        setDraft(current => placeItem(current, item, {
+            centerX: Math.min(page.width, Math.max(0, item.centerX + point.x - startX)),
+            centerY: Math.min(page.height, Math.max(0, item.centerY + point.y - startY)),
+        }));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+        drag.current = null;
+    };
+
+    const handleAdd = (kind: 'text' | AlbumDecorationKind) => {
+        const id = createElementId();
+        const placement = { page: page.pageNumber, centerX: page.width / 2, centerY: page.height / 2, rotation: 0, scale: 1 };
+        setDraft(current => addElement(current, kind === 'text'
+            ? { id, kind, text: 'Your words here', ...placement }
+            : { id, kind, ...placement }));
+        setSelectedKey(id);
+    };
+
+    const handleDelete = () => {
+        if (!selected || selected.kind === 'polaroid') return;
+        setDraft(current => removeElement(current, selected.key));
+        setSelectedKey(null);
+    };
+
+    const handlePageChange = (index: number) => {
+        setPageIndex(index);
+        setSelectedKey(null);
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[60] flex items-center justify-center p-4"
+                    onClick={onClose}
+                >
+                    <motion.div
+                        initial={{ scale: 0.9, y: 20 }}
+                        animate={{ scale: 1, y: 0 }}
+                        exit={{ scale: 0.9, y: 20 }}
+                        className="bg-[#1c1c1c] border border-white/10 rounded-lg w-full max-w-6xl max-h-[95vh] flex flex-col overflow-hidden shadow-2xl"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        {/* Header */}
+                        <div className="flex-shrink-0 flex items-center justify-between gap-4 p-4 border-b border-white/10">
+                            <h2 className="font-playfair text-2xl text-amber-400">Arrange Your Album</h2>
+                            <button onClick={onClose} className="text-neutral-400 hover:text-white transition-colors" aria-label="Close album editor">
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                            </button>
+                        </div>
+
+                        <div className="flex-grow overflow-auto p-4 flex flex-col lg:flex-row gap-4 text-white">
+                            <div className="flex flex-col items-center gap-2 flex-shrink-0">
+                                <div className="relative" style={{ width: display.width, height: display.height }}>
+                                    <canvas
+                                        ref={canvasRef}
+                                        className="block w-full h-full touch-none cursor-move shadow-lg"
+                                        onPointerDown={handlePointerDown}
+                                        onPointerMove={handlePointerMove}
+                                        onPointerUp={handlePointerUp}
+                                        onPointerCancel={handlePointerUp}
+                                    />
+                                    {!images && (
+                                        <div className="absolute inset-0 flex items-center justify-center text-neutral-500 bg-[#fdf5e6]">Loading photos...</div>
+                                    )}
+                                    {selected && (
+                                        // Only an outline over the canvas; nothing here is part of the page.
+                                        <div
+                                            className="absolute border-2 border-dashed border-amber-400 pointer-events-none"
+                                            style={{
+                                                left: (selected.centerX - selected.width / 2) * displayScale,
+                                                top: (selected.centerY - selected.height / 2) * displayScale,
+                                                width: selected.width * displayScale,
+                                                height: selected.height * displayScale,
+                                                transform: `rotate(${selected.rotation}rad)`,
+                                            }}
+                                        />
+                                    )}
+                                </div>
+                                {pages.length > 1 && (
+                                    <div className="flex items-center gap-3 text-sm">
+                                        <button onClick={() => handlePageChange(pageIndex - 1)} disabled={pageIndex === 0} className={toolButtonClasses}>Previous</button>
+                                        <span>Page {page.pageNumber} of {pages.length}</span>
+                                        <button onClick={() => handlePageChange(pageIndex + 1)} disabled={pageIndex >= pages.length - 1} className={toolButtonClasses}>Next</button>
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="flex-grow space-y-4 min-w-0">
+                                <div className="space-y-2">
+                                    <p className="text-sm text-neutral-400">Drag anything on the page to move it; click it to change it here.</p>
+                                    <div className="flex flex-wrap gap-2">
+                                        <button onClick={() => handleAdd('text')} className={toolButtonClasses}>Add text</button>
+                                        {ALBUM_DECORATIONS.map(decoration => (
+                                            <button key={decoration.kind} onClick={() => handleAdd(decoration.kind)} className={toolButtonClasses}>
+                                                Add {decoration.name.toLowerCase()}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                {selected ? (
+                                    <div className="space-y-3 border-t border-white/10 pt-4">
+                                        {selected.kind === 'polaroid' && (
+                                            <label className="block space-y-1">
+                                                <span className="text-sm">Caption</span>
+                                                <input
+                                                    type="text"
+                                                    value={selected.caption}
+                                                    maxLength={60}
+                                                    onChange={(e) => setDraft(current => setCaption(current, selected.sceneId!, e.target.value))}
+                                                    className={inputClasses}
+                                                />
+                                            </label>
+                                        )}
+                                        {selected.kind === 'text' && (
+                                            <label className="block space-y-1">
+                                                <span className="text-sm">Text</span>
+                                                <textarea
+                                                    value={selected.text}
+                                                    rows={3}
+                                                    maxLength={300}
+                                                    onChange={(e) => setDraft(current => setElementText(current, selected.key, e.target.value))}
+                                                    className={cn(inputClasses, "resize-none")}
+                                                />
+                                            </label>
+                                        )}
+                                        <label className="flex items-center gap-3 text-sm">
+                                            <span className="w-16">Rotate</span>
+                                            <input
+                                                type="range"
+                                                min={-45}
+                                                max={45}
+                                                step={1}
+                                                value={toDegrees(selected.rotation)}
+                                                onChange={(e) => setDraft(current => placeItem(current, selected, { rotation: Number(e.target.value) * Math.PI / 180 }))}
+                                                className="flex-grow accent-amber-400"
+                                            />
+                                            <span className="w-10 text-right">{toDegrees(selected.rotation)}°</span>
+                                        </label>
+                                        <label className="flex items-center gap-3 text-sm">
+                                            <span className="w-16">Size</span>
+                                            <input
+                                                type="range"
+                                                min={0.3}
+                                                max={2.5}
+                                                step={0.05}
+                                                value={selected.scale}
+                                                onChange={(e) => setDraft(current => placeItem(current, selected, { scale: Number(e.target.value) }))}
+                                                className="flex-grow accent-amber-400"
+                                            />
+                                            <span className="w-10 text-right">{Math.round(selected.scale * 100)}%</span>
+                                        </label>
+                                        <div className="flex flex-wrap gap-2">
+                                            <button onClick={() => setDraft(current => restackItem(current, items, selected.key, true))} className={toolButtonClasses}>Bring to front</button>
+                                            <button onClick={() => setDraft(current => restackItem(current, items, selected.key, false))} className={toolButtonClasses}>Send to back</button>
+                                            {selected.kind !== 'polaroid' && (
+                                                <button onClick={handleDelete} className={cn(toolButtonClasses, "text-red-300")}>Delete</button>
+                                            )}
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <p className="text-sm text-neutral-500 border-t border-white/10 pt-4">Nothing selected.</p>
+                                )}
+
+                                <button onClick={() => { setDraft(current => resetLayout(current)); setSelectedKey(null); }} className={toolButtonClasses}>
+                                    Put the polaroids back
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="flex-shrink-0 flex justify-end gap-4 p-4 border-t border-white/10">
+                            <button onClick={onClose} className="text-neutral-400 hover:text-white">Cancel</button>
+                            <button
+                                onClick={() => onApply(draft)}
+                                className="font-lato text-lg text-amber-900 bg-amber-400 py-2 px-6 rounded-sm hover:bg-amber-300 transition-colors"
+                            >
+                                Done
+                            </button>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default AlbumEditor;
@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { isAbortError } from '../lib/abort';
+import { remixImage } from '../services/geminiService';
+import { describeGenerationError, toGenerationError } from '../services/generationErrors';
+import { getGenerationScheduler } from '../services/generationScheduler';
+
+export interface BatchRemixScene {
+    id: string;
+    caption: string;
+    imageUrl: string;
+}
+
+/** A remixed image the user accepted, with the image it was made from. */
+export interface BatchRemixResult {
+    sceneId: string;
+    sourceUrl: string;
+    imageUrl: string;
+}
+
+interface BatchRemixModalProps {
+    isOpen: boolean;
+    /** The finished scenes that can be remixed. */
+    scenes: BatchRemixScene[];
+    onApply: (results: BatchRemixResult[], instruction: string) => void;
+    onClose: () => void;
+}
+
+type SceneRemix =
+    | { status: 'pending' }
+    | { status: 'done'; imageUrl: string; accepted: boolean }
+    | { status: 'error'; reason: string };
+
+const primaryButtonClasses = "font-lato text-lg text-amber-900 bg-amber-400 py-2 px-6 rounded-sm hover:bg-amber-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Runs one remix instruction over several scenes through the generation queue,
+ * then lets the user accept or reject each result before any card changes.
+ */
+const BatchRemixModal: React.FC<BatchRemixModalProps> = ({ isOpen, scenes, onApply, onClose }) => {
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [instruction, setInstruction] = useState('');
+    // Null until a batch is started; then one entry per scene in the batch.
+    const [remixes, setRemixes] = useState<Record<string, SceneRemix> | null>(null);
+    const [batchScenes, setBatchScenes] = useState<BatchRemixScene[]>([]);
+    const batchController = useRef<AbortController | null>(null);
+
+    const cancelBatch = () => {
+        batchController.current?.abort();
+        batchController.current = null;
+    };
+
+    useEffect(() => {
+        if (!isOpen) {
+            cancelBatch();
+            return;
+        }
+        setSelectedIds(new Set(scenes.map(scene => scene.id)));
+        setInstruction('');
+        setRemixes(null);
+    }, [isOpen]);
+
+    useEffect(() => () => batchController.current?.abort(), []);
+
+    const isRunning = !!remixes && Object.values(remixes).some((remix: SceneRemix) => remix.status === 'pending');
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id); else next.add(id);
+            return next;
+        });
+    };
+
+    const updateRemix = (sceneId: string, remix: SceneRemix) => {
+        setRemixes(prev => prev && { ...prev, [sceneId]: remix });
+    };
+
+    const handleStart = () => {
+        const prompt = instruction.trim();
+        const toRemix = scenes.filter(scene => selectedIds.has(scene.id));
+        if (!prompt || toRemix.length === 0) return;
+
+        const controller = new AbortController();
+        batchController.current = controller;
+        const { signal } = controller;
+        setBatchScenes(toRemix);
+        setRemixes(Object.fromEntries(toRemix.map(scene => [scene.id, { status: 'pending' as const }])));
+
+        for (const scene of toRemix) {
+            getGenerationScheduler()
+                .schedule(() => remixImage(scene.imageUrl, prompt, { signal }), { priority: 'batch', signal })
+                .then(result => {
+                    if (batchController.current !== controller) return;
+                    updateRemix(scene.id, result.imageUrl
+                        ? { status: 'done', imageUrl: result.imageUrl, accepted: true }
+                        : { status: 'error', reason: result.text || 'The model sent no image.' });
+                })
+                .catch(error => {
+                    if (batchController.current !== controller || isAbortError(error)) return;
+                    console.error(`Batch remix failed for ${scene.caption}:`, error);
+                    updateRemix(scene.id, { status: 'error', reason: describeGenerationError(toGenerationError(error).kind).reason });
+                });
+        }
+    };
+
+    const handleStop = () => {
+        cancelBatch();
+        setRemixes(prev => prev && Object.fromEntries(Object.entries(prev).map(([sceneId, remix]: [string, SceneRemix]) => [
+            sceneId,
+            remix.status === 'pending' ? { status: 'error' as const, reason: 'Cancelled.' } : remix,
+        ])));
+    };
+
+    const toggleAccepted = (sceneId: string) => {
+        const remix = remixes?.[sceneId];
+        if (remix?.status === 'done') updateRemix(sceneId, { ...remix, accepted: !remix.accepted });
+    };
+
+    const accepted: BatchRemixResult[] = batchScenes.flatMap(scene => {
+        const remix = remixes?.[scene.id];
+        return remix?.status === 'done' && remix.accepted
+            ? [{ sceneId: scene.id, sourceUrl: scene.imageUrl, imageUrl: remix.imageUrl }]
+            : [];
+    });
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+                    onClick={onClose}
+                >
+                    <motion.div
+                        initial={{ scale: 0.9, y: 20 }}
+                        animate={{ scale: 1, y: 0 }}
+                        exit={{ scale: 0.9, y: 20 }}
+                        className="bg-[#1c1c1c] border border-white/10 rounded-lg w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden shadow-2xl"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        {/* Header */}
+                        <div className="flex-shrink-0 flex items-center justify-between gap-4 p-4 border-b border-white/10">
+                            <h2 className="font-playfair text-2xl text-amber-400">Remix Several Scenes</h2>
+                            <button onClick={onClose} className="text-neutral-400 hover:text-white transition-colors" aria-label="Close batch remix">
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                            </button>
+                        </div>
+
+                        {!remixes ? (
+                            <>
+                                <div className="flex-grow overflow-y-auto p-4 space-y-4 text-white">
+                                    <label className="block space-y-1">
+                                        <span className="text-sm">What should change in every selected scene?</span>
+                                        <input
+                                            type="text"
+                                            value={instruction}
+                                            onChange={(e) => setInstruction(e.target.value)}
+                                            placeholder="e.g., give me red hair"
+                                            className="w-full bg-neutral-800 text-white placeholder-neutral-500 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                                        />
+                                    </label>
+                                    <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+                                        {scenes.map(scene => (
+                                            <label key={scene.id} className={cn("relative cursor-pointer rounded-sm overflow-hidden border-2", selectedIds.has(scene.id) ? "border-amber-400" : "border-transparent opacity-60")}>
+                                                <img src={scene.imageUrl} alt={scene.caption} className="w-full aspect-[3/4] object-cover" />
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selectedIds.has(scene.id)}
+                                                    onChange={() => toggleSelected(scene.id)}
+                                                    className="absolute top-2 left-2"
+                                                />
+                                                <span className="block text-xs text-center truncate p-1">{scene.caption}</span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div className="flex-shrink-0 flex justify-end p-4 border-t border-white/10">
+                                    <button onClick={handleStart} disabled={!instruction.trim() || selectedIds.size === 0} className={primaryButtonClasses}>
+                                        Remix {selectedIds.size} {selectedIds.size === 1 ? 'scene' : 'scenes'}
+                                    </button>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                <div className="flex-grow overflow-y-auto p-4 grid grid-cols-1 md:grid-cols-2 gap-4 text-white">
+                                    {batchScenes.map(scene => {
+                                        const remix = remixes[scene.id];
+                                        return (
+                                            <div key={scene.id} className="bg-black/40 rounded-md p-3 space-y-2">
+                                                <p className="font-caveat text-xl">{scene.caption}</p>
+                                                <div className="grid grid-cols-2 gap-2">
+                                                    <img src={scene.imageUrl} alt={`${scene.caption}, before`} className="w-full aspect-[3/4] object-cover rounded-sm" />
+                                                    {remix.status === 'done' ? (
+                                                        <img src={remix.imageUrl} alt={`${scene.caption}, remixed`} className={cn("w-full aspect-[3/4] object-cover rounded-sm", !remix.accepted && "opacity-40")} />
+                                                    ) : (
+                                                        <div className="w-full aspect-[3/4] rounded-sm bg-neutral-800 flex items-center justify-center text-sm text-neutral-400 text-center p-2">
+                                                            {remix.status === 'pending' ? 'Remixing...' : remix.reason}
+                                                        </div>
+                                                    )}
+                                                </div>
+                                                {remix.status === 'done' && (
+                                                    <div className="flex gap-2">
+                                                        <button
+                                                            onClick={() => !remix.accepted && toggleAccepted(scene.id)}
+                                                            aria-pressed={remix.accepted}
+                                                            className={cn("flex-1 py-1 rounded-sm text-sm", remix.accepted ? "bg-amber-400 text-black" : "bg-neutral-800 hover:bg-neutral-700")}
+                                                        >
+                                                            Accept
+                                                        </button>
+                                                        <button
+                                                            onClick={() => remix.accepted && toggleAccepted(scene.id)}
+                                                            aria-pressed={!remix.accepted}
+                                                            className={cn("flex-1 py-1 rounded-sm text-sm", !remix.accepted ? "bg-white text-black" : "bg-neutral-800 hover:bg-neutral-700")}
+                                                        >
+                                                            Reject
+                                                        </button>
+                                                    </div>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                                <div className="flex-shrink-0 flex items-center justify-between gap-4 p-4 border-t border-white/10">
+                                    <p className="text-sm text-neutral-400">"{instruction.trim()}"</p>
+                                    <div className="flex items-center gap-4">
+                                        {isRunning && (
+                                            <button onClick={handleStop} className="text-neutral-400 hover:text-white">Stop</button>
+                                        )}
+                                        <button onClick={() => onApply(accepted, instruction.trim())} disabled={isRunning || accepted.length === 0} className={primaryButtonClasses}>
+                                            Apply {accepted.length} {accepted.length === 1 ? 'remix' : 'remixes'}
+                                        </button>
+                                    </div>
+                                </div>
+                            </>
+                        )}
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default BatchRemixModal;
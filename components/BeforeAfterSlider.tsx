@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+
+interface BeforeAfterSliderProps {
+    beforeUrl: string;
+    afterUrl: string;
+    beforeLabel?: string;
+    afterLabel?: string;
+}
+
+/**
+ * Shows two images on top of each other with a draggable divider: the "before"
+ * image to the left of it, the "after" image to the right.
+ */
+const BeforeAfterSlider: React.FC<BeforeAfterSliderProps> = ({ beforeUrl, afterUrl, beforeLabel = 'Before', afterLabel = 'After' }) => {
+    const [position, setPosition] = useState(50);
+
+    return (
+        <div className="relative max-w-full select-none">
+            <img src={afterUrl} alt={afterLabel} className="block max-w-full max-h-[60vh] object-contain rounded-md" draggable={false} />
+            <img
+                src={beforeUrl}
+                alt={beforeLabel}
+                className="absolute inset-0 w-full h-full object-cover rounded-md"
+                style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+                draggable={false}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${position}%` }}>
+                <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 h-8 w-8 rounded-full bg-white text-black text-xs flex items-center justify-center shadow">
+                    ⇔
+                </div>
+            </div>
+            <span className="absolute top-2 left-2 text-xs text-white bg-black/50 py-0.5 px-2 rounded-full pointer-events-none">{beforeLabel}</span>
+            <span className="absolute top-2 right-2 text-xs text-white bg-black/50 py-0.5 px-2 rounded-full pointer-events-none">{afterLabel}</span>
+            {/* An invisible range input covering the images does the dragging, and keeps it keyboard accessible. */}
+            <input
+                type="range"
+                min={0}
+                max={100}
+                value={position}
+                onChange={(e) => setPosition(Number(e.target.value))}
+                aria-label={`Compare ${beforeLabel.toLowerCase()} and ${afterLabel.toLowerCase()}`}
+                className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+            />
+        </div>
+    );
+};
+
+export default BeforeAfterSlider;
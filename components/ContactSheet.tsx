@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '../lib/utils';
+import type { GeneratedImage } from '../types';
+
+interface ContactSheetProps {
+    isOpen: boolean;
+    caption: string;
+    image?: GeneratedImage;
+    onChoose: (variantId: string) => void;
+    onToggleStar: (variantId: string) => void;
+    onDiscard: (variantId: string) => void;
+    onClose: () => void;
+}
+
+const iconButtonClasses = "p-1.5 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white disabled:opacity-30 disabled:cursor-not-allowed";
+
+/**
+ * Shows every variant generated for a scene side by side, to pick the keeper,
+ * star favourites and discard the rest.
+ */
+const ContactSheet: React.FC<ContactSheetProps> = ({ isOpen, caption, image, onChoose, onToggleStar, onDiscard, onClose }) => {
+    const variants = image?.variants ?? [];
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+                    onClick={onClose}
+                >
+                    <motion.div
+                        initial={{ scale: 0.9, y: 20 }}
+                        animate={{ scale: 1, y: 0 }}
+                        exit={{ scale: 0.9, y: 20 }}
+                        className="bg-[#1c1c1c] border border-white/10 rounded-lg w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden shadow-2xl"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div className="flex-shrink-0 flex items-center justify-between gap-4 p-4 border-b border-white/10">
+                            <div>
+                                <h2 className="font-playfair text-2xl text-amber-400">{caption}</h2>
+                                <p className="text-sm text-neutral-400">Click a variant to use it. Starred variants are kept when you regenerate.</p>
+                            </div>
+                            <button onClick={onClose} className="text-neutral-400 hover:text-white transition-colors" aria-label="Close contact sheet">
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                            </button>
+                        </div>
+                        <div className="flex-grow overflow-y-auto p-4 grid grid-cols-2 md:grid-cols-3 gap-4">
+                            {variants.map((variant, index) => {
+                                const isChosen = variant.id === image?.chosenVariantId;
+                                return (
+                                    <div
+                                        key={variant.id}
+                                        className={cn(
+                                            "relative bg-neutral-100 p-2 pb-8 rounded-sm",
+                                            isChosen ? "ring-4 ring-amber-400" : "opacity-80 hover:opacity-100",
+                                        )}
+                                    >
+                                        <button onClick={() => onChoose(variant.id)} className="block w-full" aria-label={`Use variant ${index + 1}`}>
+                                            <img src={variant.url} alt={`${caption}, variant ${index + 1}`} className="w-full aspect-[3/4] object-cover" />
+                                        </button>
+                                        <div className="absolute top-3 right-3 flex gap-1.5">
+                                            <button
+                                                onClick={() => onToggleStar(variant.id)}
+                                                className={cn(iconButtonClasses, variant.starred && "text-amber-400")}
+                                                aria-label={variant.starred ? `Unstar variant ${index + 1}` : `Star variant ${index + 1}`}
+                                                aria-pressed={!!variant.starred}
+                                            >
+                                                {variant.starred ? '★' : '☆'}
+                                            </button>
+                                            <button
+                                                onClick={() => onDiscard(variant.id)}
+                                                disabled={variants.length <= 1}
+                                                className={iconButtonClasses}
+                                                aria-label={`Discard variant ${index + 1}`}
+                                            >
+                                                ✕
+                                            </button>
+                                        </div>
+                                        <p className="absolute bottom-1.5 left-0 right-0 text-center font-caveat text-lg text-neutral-800">
+                                            {isChosen ? 'Chosen' : `Variant ${index + 1}`}{variant.promptRung ? ' · softened' : ''}
+                                        </p>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default ContactSheet;
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { getGenerationScheduler } from '../services/generationScheduler';
+import type { SchedulerProgress } from '../services/generationScheduler';
+
+const formatDuration = (ms: number) => {
+    const seconds = Math.max(Math.round(ms / 1000), 1);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+/**
+ * A slim progress bar for whatever the generation scheduler is working on,
+ * with a rolling time estimate. Renders nothing while the scheduler is idle.
+ */
+const GenerationProgress: React.FC = () => {
+    const scheduler = getGenerationScheduler();
+    const [progress, setProgress] = useState<SchedulerProgress>(scheduler.getProgress);
+
+    useEffect(() => scheduler.subscribe(setProgress), [scheduler]);
+
+    const isBusy = progress.active + progress.queued > 0;
+
+    // Re-read once a second so the estimate counts down between completions.
+    useEffect(() => {
+        if (!isBusy) return;
+        const timer = setInterval(() => setProgress(scheduler.getProgress()), 1000);
+        return () => clearInterval(timer);
+    }, [isBusy, scheduler]);
+
+    if (!isBusy || progress.total === 0) return null;
+
+    const percent = Math.round((progress.completed / progress.total) * 100);
+    let status: string;
+    if (progress.pausedUntil !== null) {
+        status = `Rate limited, resuming in ${formatDuration(progress.pausedUntil - Date.now())}`;
+    } else if (progress.etaMs !== null) {
+        status = `About ${formatDuration(progress.etaMs)} left`;
+    } else {
+        status = 'Estimating time left...';
+    }
+
+    return (
+        <div className="w-full max-w-md" role="progressbar" aria-valuemin={0} aria-valuemax={progress.total} aria-valuenow={progress.completed}>
+            <div className="flex justify-between font-lato text-sm text-neutral-700 mb-1">
+                <span>{progress.completed} of {progress.total} done</span>
+                <span>{status}</span>
+            </div>
+            <div className="h-2 w-full bg-white/50 rounded-full overflow-hidden">
+                <div
+                    className={`h-full transition-all duration-500 ${progress.pausedUntil !== null ? 'bg-neutral-400' : 'bg-amber-400'}`}
+                    style={{ width: `${percent}%` }}
+                />
+            </div>
+        </div>
+    );
+};
+
+export default GenerationProgress;
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef } from 'react';
+import { cn } from '../lib/utils';
+
+export type MaskTool = 'brush' | 'eraser';
+
+interface MaskCanvasProps {
+    /** The image's natural size; the mask is painted at full resolution. */
+    width: number;
+    height: number;
+    tool: MaskTool;
+    /** Brush diameter as a fraction of the image's shorter side. */
+    brushSize: number;
+    canvasRef: React.RefObject<HTMLCanvasElement>;
+    /** Called after each stroke with whether anything is painted. */
+    onChange: (hasMask: boolean) => void;
+    className?: string;
+}
+
+function hasPaintedPixels(canvas: HTMLCanvasElement): boolean {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return false;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 0) return true;
+    }
+    return false;
+}
+
+/**
+ * A transparent canvas laid over an image to paint a remix mask on. Painted areas
+ * show as a translucent amber wash; the eraser clears them again.
+ */
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ width, height, tool, brushSize, canvasRef, onChange, className }) => {
+    const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+    // Resizing a canvas clears it, so a new image size starts with an empty mask.
+    useEffect(() => {
+        onChange(false);
+    }, [width, height]);
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * width / rect.width,
+            y: (e.clientY - rect.top) * height / rect.height,
+        };
+    };
+
+    const paintTo = (point: { x: number; y: number }) => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx) return;
+        const from = lastPoint.current ?? point;
+        ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+        ctx.strokeStyle = 'rgb(251, 191, 36)';
+        ctx.lineWidth = Math.max(brushSize * Math.min(width, height), 1);
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(point.x, point.y);
+        ctx.stroke();
+        lastPoint.current = point;
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPoint.current = null;
+        paintTo(toCanvasPoint(e));
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        paintTo(toCanvasPoint(e));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        lastPoint.current = null;
+        if (canvasRef.current) onChange(hasPaintedPixels(canvasRef.current));
+    };
+
+    return (
+        <canvas
+            ref={canvasRef}
+            width={width}
+            height={height}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className={cn("absolute inset-0 w-full h-full opacity-50 touch-none cursor-crosshair", className)}
+            aria-label="Paint the area to change"
+        />
+    );
+};
+
+export default MaskCanvas;
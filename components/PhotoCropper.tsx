@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { cropPhoto } from '../lib/uploadPreprocessing';
+
+interface PhotoCropperProps {
+    /** The photo to crop, or null when the cropper is closed. */
+    photoUrl: string | null;
+    onApply: (croppedUrl: string) => void;
+    onClose: () => void;
+}
+
+const ASPECTS = [
+    { id: 'original', label: 'Original' },
+    { id: 'portrait', label: 'Portrait 3:4', ratio: 3 / 4 },
+    { id: 'square', label: 'Square', ratio: 1 },
+    { id: 'landscape', label: 'Landscape 4:3', ratio: 4 / 3 },
+] as const;
+
+type AspectId = typeof ASPECTS[number]['id'];
+
+const FRAME_MAX = 320; // CSS pixels; fits a phone screen
+const MAX_ZOOM = 4;
+
+/**
+ * Lets the user frame a photo before generating: zoom in with the slider and drag
+ * the photo around until the right part is inside the frame.
+ */
+const PhotoCropper: React.FC<PhotoCropperProps> = ({ photoUrl, onApply, onClose }) => {
+    const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+    const [aspect, setAspect] = useState<AspectId>('original');
+    const [zoom, setZoom] = useState(1);
+    // Position of the photo's top-left corner relative to the frame, in CSS pixels.
+    const [offset, setOffset] = useState({ x: 0, y: 0 });
+    const [isApplying, setIsApplying] = useState(false);
+    const lastPointer = useRef<{ x: number; y: number } | null>(null);
+
+    useEffect(() => {
+        setNatural(null);
+        setAspect('original');
+        setZoom(1);
+        setIsApplying(false);
+    }, [photoUrl]);
+
+    const ratio = natural ? (ASPECTS.find(option => option.id === aspect) as { ratio?: number }).ratio ?? natural.width / natural.height : 1;
+    const frame = ratio >= 1
+        ? { width: FRAME_MAX, height: FRAME_MAX / ratio }
+        : { width: FRAME_MAX * ratio, height: FRAME_MAX };
+    // At zoom 1 the photo just covers the frame.
+    const scale = natural ? Math.max(frame.width / natural.width, frame.height / natural.height) * zoom : 1;
+    const displayed = natural ? { width: natural.width * scale, height: natural.height * scale } : frame;
+
+    const clampOffset = (x: number, y: number) => ({
+        x: Math.min(0, Math.max(frame.width - displayed.width, x)),
+        y: Math.min(0, Math.max(frame.height - displayed.height, y)),
+    });
+
+    // Re-centre whenever the frame or the photo changes shape.
+    useEffect(() => {
+        if (!natural) return;
+        setOffset(clampOffset((frame.width - displayed.width) / 2, (frame.height - displayed.height) / 2));
+    }, [natural, aspect]);
+
+    const handleZoomChange = (nextZoom: number) => {
+        if (!natural) return;
+        // Keep whatever is at the centre of the frame there.
+        const centre = { x: (frame.width / 2 - offset.x) / scale, y: (frame.height / 2 - offset.y) / scale };
+        const nextScale = scale / zoom * nextZoom;
+        setZoom(nextZoom);
+        setOffset({
+            x: Math.min(0, Math.max(frame.width - natural.width * nextScale, frame.width / 2 - centre.x * nextScale)),
+            y: Math.min(0, Math.max(frame.height - natural.height * nextScale, frame.height / 2 - centre.y * nextScale)),
+        });
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPointer.current = { x: e.clientX, y: e.clientY };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!lastPointer.current || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        const dx = e.clientX - lastPointer.current.x;
+        const dy = e.clientY - lastPointer.current.y;
+        lastPointer.current = { x: e.clientX, y: e.clientY };
+        setOffset(prev => clampOffset(prev.x + dx, prev.y + dy));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+        lastPointer.current = null;
+    };
+
+    const handleApply = async () => {
+        if (!photoUrl || !natural) return;
+        setIsApplying(true);
+        try {
+            onApply(await cropPhoto(photoUrl, {
+                x: -offset.x / scale,
+                y: -offset.y / scale,
+                width: frame.width / scale,
+                height: frame.height / scale,
+            }));
+        } catch (error) {
+            console.error("Failed to crop photo:", error);
+            alert("Sorry, the photo couldn't be cropped. Please try again.");
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {photoUrl && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+                    onClick={onClose}
+                >
+                    <motion.div
+                        initial={{ scale: 0.9, y: 20 }}
+                        animate={{ scale: 1, y: 0 }}
+                        exit={{ scale: 0.9, y: 20 }}
+                        className="bg-[#1c1c1c] border border-white/10 rounded-lg w-full max-w-xl max-h-[90vh] flex flex-col overflow-hidden shadow-2xl"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        {/* Header */}
+                        <div className="flex-shrink-0 flex items-center justify-between gap-4 p-4 border-b border-white/10">
+                            <h2 className="font-playfair text-2xl text-amber-400">Crop Photo</h2>
+                            <button onClick={onClose} className="text-neutral-400 hover:text-white transition-colors" aria-label="Close cropper">
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                            </button>
+                        </div>
+
+                        <div className="flex-grow overflow-y-auto p-4 flex flex-col items-center gap-4 text-white">
+                            <div
+                                className="relative overflow-hidden bg-black rounded-sm touch-none cursor-move select-none"
+                                style={{ width: frame.width, height: frame.height }}
+                                onPointerDown={handlePointerDown}
+                                onPointerMove={handlePointerMove}
+                                onPointerUp={handlePointerUp}
+                                onPointerCancel={handlePointerUp}
+                            >
+                                <img
+                                    src={photoUrl}
+                                    alt="Photo to crop"
+                                    draggable={false}
+                                    onLoad={(e) => setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                                    className="absolute max-w-none"
+                                    style={{ left: offset.x, top: offset.y, width: displayed.width, height: displayed.height }}
+                                />
+                            </div>
+                            <label className="w-full flex items-center gap-3 text-sm">
+                                Zoom
+                                <input
+                                    type="range"
+                                    min={1}
+                                    max={MAX_ZOOM}
+                                    step={0.01}
+                                    value={zoom}
+                                    onChange={(e) => handleZoomChange(Number(e.target.value))}
+                                    className="flex-grow accent-amber-400"
+                                />
+                            </label>
+                            <div className="flex flex-wrap justify-center gap-2">
+                                {ASPECTS.map(option => (
+                                    <button
+                                        key={option.id}
+                                        onClick={() => setAspect(option.id)}
+                                        aria-pressed={aspect === option.id}
+                                        className={cn("py-1 px-3 rounded-sm text-sm", aspect === option.id ? "bg-amber-400 text-black" : "bg-neutral-800 hover:bg-neutral-700")}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="flex-shrink-0 flex justify-end gap-4 p-4 border-t border-white/10">
+                            <button onClick={onClose} className="text-neutral-400 hover:text-white">Cancel</button>
+                            <button
+                                onClick={handleApply}
+                                disabled={!natural || isApplying}
+                                className="font-lato text-lg text-amber-900 bg-amber-400 py-2 px-6 rounded-sm hover:bg-amber-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {isApplying ? 'Cropping...' : 'Apply'}
+                            </button>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default PhotoCropper;
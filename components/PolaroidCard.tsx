@@ -6,6 +6,9 @@ import React, { useState, useEffect, useRef } from 'react';
 import { DraggableCardContainer, DraggableCardBody } from './ui/draggable-card';
 import { cn } from '../lib/utils';
 import type { PanInfo } from 'framer-motion';
+import { describeGenerationError } from '../services/generationErrors';
+import type { ErrorAction, GenerationErrorKind } from '../services/generationErrors';
+import type { PromptAttempt } from '../services/geminiService';
 
 type ImageStatus = 'pending' | 'done' | 'error';
 
@@ -14,10 +17,37 @@ interface PolaroidCardProps {
     caption: string;
     status: ImageStatus;
     error?: string;
+    errorKind?: GenerationErrorKind;
+    /** Which rung of the fallback ladder produced the image; above 0 shows a "softened" badge. */
+    promptRung?: number;
+    /** The prompts tried for the image, listed in the badge's tooltip. */
+    attempts?: PromptAttempt[];
+    /** How many variants the scene has; above 1 shows a button to open its contact sheet. */
+    variantCount?: number;
+    onShowVariants?: () => void;
+    /** How many versions the scene has had; above 1 shows a button to open its history. */
+    versionCount?: number;
+    onShowHistory?: () => void;
+    /** Whether the card is the character anchor other scenes are drawn to match. */
+    isAnchor?: boolean;
+    /** Makes the card the character anchor, or clears the anchor if it already is. */
+    onToggleAnchor?: () => void;
     dragConstraintsRef?: React.RefObject<HTMLElement>;
+    /** Where the card sits on the desktop board, in pixels. */
+    boardPosition?: { x: number; y: number };
+    /** The card's rotation on the desktop board, in degrees. */
+    boardRotation?: number;
+    /** Called when the card is picked up on the desktop board. */
+    onBoardGrab?: () => void;
+    /** Called with the card's board position once it comes to rest after being dragged. */
+    onBoardSettle?: (position: { x: number; y: number }) => void;
     onShake?: (caption: string) => void;
     onDownload?: (caption: string) => void;
     onRemix?: (caption: string, imageUrl: string) => void;
+    /** Shown while the card is pending; cancels its generation. */
+    onCancel?: (caption: string) => void;
+    /** Called with the action suggested for the card's error (retry, edit prompt, ...). */
+    onErrorAction?: (action: ErrorAction) => void;
     isMobile?: boolean;
 }
 
@@ -30,13 +60,52 @@ const LoadingSpinner = () => (
     </div>
 );
 
-const ErrorDisplay = () => (
-    <div className="flex items-center justify-center h-full">
-         <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-        </svg>
-    </div>
-);
+const describeAttempts = (attempts: PromptAttempt[]) => attempts
+    .map(({ rung, outcome, reason }) => {
+        const label = rung === 0 ? 'Original prompt' : `Softened prompt ${rung}`;
+        return outcome === 'image' ? `${label}: used` : `${label}: ${reason || outcome}`;
+    })
+    .join('\n');
+
+const ErrorDisplay = ({ error, errorKind, onAction, onShowHistory }: {
+    error?: string;
+    errorKind?: GenerationErrorKind;
+    onAction?: (action: ErrorAction) => void;
+    /** Offered when there are earlier versions to go back to. */
+    onShowHistory?: () => void;
+}) => {
+    const { reason, action, actionLabel } = describeGenerationError(errorKind, error);
+    return (
+        <div className="flex flex-col items-center justify-center h-full gap-3 px-6 text-center">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="font-lato text-sm text-neutral-300" title={error}>{reason}</p>
+            {onAction && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onAction(action);
+                    }}
+                    className="font-lato text-sm text-white bg-black/50 py-1 px-4 rounded-full hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                >
+                    {actionLabel}
+                </button>
+            )}
+            {onShowHistory && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onShowHistory();
+                    }}
+                    className="font-lato text-xs text-neutral-400 underline hover:text-white"
+                >
+                    Restore an earlier version
+                </button>
+            )}
+        </div>
+    );
+};
 
 const Placeholder = () => (
     <div className="flex flex-col items-center justify-center h-full text-neutral-500 group-hover:text-neutral-300 transition-colors duration-300">
@@ -49,9 +118,10 @@ const Placeholder = () => (
 );
 
 
-const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, error, dragConstraintsRef, onShake, onDownload, onRemix, isMobile }) => {
+const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, error, errorKind, promptRung, attempts, variantCount, onShowVariants, versionCount, onShowHistory, isAnchor, onToggleAnchor, dragConstraintsRef, boardPosition, boardRotation, onBoardGrab, onBoardSettle, onShake, onDownload, onRemix, onCancel, onErrorAction, isMobile }) => {
     const [isDeveloped, setIsDeveloped] = useState(false);
     const [isImageLoaded, setIsImageLoaded] = useState(false);
+    const hasHistory = !!onShowHistory && versionCount !== undefined && versionCount > 1;
     const lastShakeTime = useRef(0);
     const lastVelocity = useRef({ x: 0, y: 0 });
 
@@ -80,6 +150,7 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
     const handleDragStart = () => {
         // Reset velocity on new drag to prevent false triggers from old data
         lastVelocity.current = { x: 0, y: 0 };
+        onBoardGrab?.();
     };
 
     const handleDrag = (event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => {
@@ -110,7 +181,19 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
         <>
             <div className="w-full bg-neutral-900 shadow-inner flex-grow relative overflow-hidden group">
                 {status === 'pending' && <LoadingSpinner />}
-                {status === 'error' && <ErrorDisplay />}
+                {status === 'pending' && onCancel && (
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onCancel(caption);
+                        }}
+                        className="absolute bottom-3 left-1/2 -translate-x-1/2 z-20 font-lato text-sm text-white bg-black/50 py-1 px-4 rounded-full hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                        aria-label={`Cancel generating image for ${caption}`}
+                    >
+                        Cancel
+                    </button>
+                )}
+                {status === 'error' && <ErrorDisplay error={error} errorKind={errorKind} onAction={onErrorAction} onShowHistory={versionCount ? onShowHistory : undefined} />}
                 {status === 'done' && imageUrl && (
                     <>
                         <div className={cn(
@@ -132,6 +215,53 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                                     </svg>
                                 </button>
                             )}
+                            {onShowVariants && variantCount !== undefined && variantCount > 1 && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onShowVariants();
+                                    }}
+                                    className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                                    aria-label={`Choose from ${variantCount} variants for ${caption}`}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                        <path d="M5 3a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2V5a2 2 0 00-2-2H5zM5 11a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2v-2a2 2 0 00-2-2H5zM11 5a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V5zM11 13a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+                                    </svg>
+                                </button>
+                            )}
+                            {hasHistory && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onShowHistory?.();
+                                    }}
+                                    className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                                    aria-label={`Show ${versionCount} versions of ${caption}`}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z" clipRule="evenodd" />
+                                    </svg>
+                                </button>
+                            )}
+                            {onToggleAnchor && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onToggleAnchor();
+                                    }}
+                                    className={cn(
+                                        "p-2 rounded-full focus:outline-none focus:ring-2 focus:ring-white",
+                                        isAnchor ? "bg-amber-400 text-black hover:bg-amber-300" : "bg-black/50 text-white hover:bg-black/75",
+                                    )}
+                                    aria-label={isAnchor ? `Stop using ${caption} as the character anchor` : `Use ${caption} as the character anchor`}
+                                    aria-pressed={isAnchor}
+                                    title={isAnchor ? 'Other scenes are drawn to match this one' : 'Draw other scenes to match this one'}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                        <path fillRule="evenodd" d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z" clipRule="evenodd" />
+                                    </svg>
+                                </button>
+                            )}
                             {onDownload && (
                                 <button
                                     onClick={(e) => {
@@ -163,6 +293,20 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                         </div>
 
 
+                        <div className="absolute top-2 left-2 z-20 flex flex-col items-start gap-1 font-lato text-xs">
+                            {isAnchor && (
+                                <span className="text-black bg-amber-400 py-0.5 px-2 rounded-full">Character anchor</span>
+                            )}
+                            {!!promptRung && (
+                                <span
+                                    className="text-white bg-black/50 py-0.5 px-2 rounded-full"
+                                    title={attempts ? describeAttempts(attempts) : 'The original prompt was blocked, so a softened one was used.'}
+                                >
+                                    Softened prompt
+                                </span>
+                            )}
+                        </div>
+
                         {/* The developing chemical overlay - fades out */}
                         <div
                             className={`absolute inset-0 z-10 bg-[#3a322c] transition-opacity duration-[3500ms] ease-out ${
@@ -214,6 +358,9 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                 dragConstraintsRef={dragConstraintsRef}
                 onDragStart={handleDragStart}
                 onDrag={handleDrag}
+                position={boardPosition}
+                rotation={boardRotation}
+                onDragSettle={onBoardSettle}
             >
                 {cardInnerContent}
             </DraggableCardBody>
@@ -5,19 +5,24 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { remixImage } from '../services/geminiService';
-
-interface ChatMessage {
-    type: 'user' | 'bot';
-    text?: string;
-    imageUrl?: string;
-}
+import { getGenerationScheduler } from '../services/generationScheduler';
+import { buildRemixHistory, createRemixNodeId, instructionsTo, loadRemixContextSize, remixNodes, REMIX_CONTEXT_OPTIONS, saveRemixContextSize, withNodeIds } from '../lib/remixContext';
+import BeforeAfterSlider from './BeforeAfterSlider';
+import { compositeWithMask, maskToModelImage, snapshotMask } from '../lib/mask';
+import MaskCanvas from './MaskCanvas';
+import type { MaskTool } from './MaskCanvas';
+import type { ChatMessage } from '../types';
 
 interface RemixModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSave: (scene: string, newImageUrl: string) => void;
+    /** Called with the remixed image and the instructions that produced it. */
+    onSave: (newImageUrl: string, instructions: string) => void;
     scene: string | null;
     initialImageUrl: string | null;
+    /** A transcript from an earlier visit, shown when the modal opens. */
+    initialChatHistory?: ChatMessage[];
+    onChatHistoryChange?: (history: ChatMessage[]) => void;
 }
 
 const LoadingSpinner = () => (
@@ -29,17 +34,64 @@ const LoadingSpinner = () => (
     </div>
 );
 
-const RemixModal: React.FC<RemixModalProps> = ({ isOpen, onClose, onSave, scene, initialImageUrl }) => {
+const RemixModal: React.FC<RemixModalProps> = ({ isOpen, onClose, onSave, scene, initialImageUrl, initialChatHistory, onChatHistoryChange }) => {
     const [currentImage, setCurrentImage] = useState<string | null>(initialImageUrl);
     const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+    // The remix tree node shown as the working image; null is the image the modal was opened with.
+    const [workingNodeId, setWorkingNodeId] = useState<string | null>(null);
+    const [isComparing, setIsComparing] = useState(false);
+    const [saveChoice, setSaveChoice] = useState<string | null | undefined>(undefined);
     const [userInput, setUserInput] = useState('');
     const [isGenerating, setIsGenerating] = useState(false);
+    const [contextSize, setContextSize] = useState(loadRemixContextSize);
+    const [isMasking, setIsMasking] = useState(false);
+    const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+    const [brushSize, setBrushSize] = useState(0.06);
+    const [hasMask, setHasMask] = useState(false);
+    const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+    const maskRef = useRef<HTMLCanvasElement>(null);
     const chatEndRef = useRef<HTMLDivElement>(null);
+    const remixController = useRef<AbortController | null>(null);
+    // The image an unmarked conversation began from, known only if it began on this visit.
+    const conversationStart = useRef<string | undefined>(undefined);
+
+    const cancelRemix = () => {
+        remixController.current?.abort();
+        remixController.current = null;
+        setIsGenerating(false);
+    };
 
+    // Whatever is in flight belongs to the image being closed or replaced.
     useEffect(() => {
+        if (!isOpen) cancelRemix();
+    }, [isOpen]);
+
+    useEffect(() => () => remixController.current?.abort(), []);
+
+    useEffect(() => {
+        cancelRemix();
         setCurrentImage(initialImageUrl);
-        setChatHistory([]);
+        setIsComparing(false);
+        setSaveChoice(undefined);
+        const history = withNodeIds(initialChatHistory ?? []);
+        conversationStart.current = history.length === 0 ? initialImageUrl ?? undefined : undefined;
+        const lastNode = [...history].reverse().find(message => message.nodeId);
+        if (!initialImageUrl || !lastNode || lastNode.imageUrl === initialImageUrl) {
+            setChatHistory(history);
+            setWorkingNodeId(lastNode?.nodeId ?? null);
+        } else {
+            // An earlier conversation about a different image would only confuse the model; pick up from this one.
+            const nodeId = createRemixNodeId();
+            setChatHistory([...history, { type: 'bot', text: "Continuing from the card's current image.", imageUrl: initialImageUrl, nodeId, startsFresh: true }]);
+            setWorkingNodeId(nodeId);
+        }
+        // Only reseed when a different image is opened, not when the parent stores our updates.
     }, [initialImageUrl]);
+
+    const updateChatHistory = (history: ChatMessage[]) => {
+        setChatHistory(history);
+        onChatHistoryChange?.(history);
+    };
     
     useEffect(() => {
         chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -47,41 +99,107 @@ const RemixModal: React.FC<RemixModalProps> = ({ isOpen, onClose, onSave, scene,
 
     if (!scene || !initialImageUrl) return null;
 
+    const nodes = remixNodes(chatHistory);
+    const nodeList = [...nodes.values()];
+    const previousNodeId = (index: number) => chatHistory.slice(0, index).reverse().find(message => message.nodeId)?.nodeId;
+
     const handleSend = async () => {
         if (!userInput.trim() || isGenerating || !currentImage) return;
 
         const prompt = userInput;
-        const newHistory: ChatMessage[] = [...chatHistory, { type: 'user', text: prompt }];
-        setChatHistory(newHistory);
+        const context = buildRemixHistory(chatHistory, workingNodeId, conversationStart.current, contextSize);
+        const sourceImage = currentImage;
+        const parentId = workingNodeId;
+        const mask = isMasking && hasMask && maskRef.current ? snapshotMask(maskRef.current) : null;
+        const newHistory: ChatMessage[] = [...chatHistory, { type: 'user', text: prompt, ...(mask && { masked: true }) }];
+        updateChatHistory(newHistory);
         setUserInput('');
         setIsGenerating(true);
+        const controller = new AbortController();
+        remixController.current = controller;
 
         try {
-            const result = await remixImage(currentImage, prompt);
+            const result = await getGenerationScheduler().schedule(
+                () => remixImage(sourceImage, prompt, {
+                    signal: controller.signal,
+                    history: context,
+                    ...(mask && { maskDataUrl: maskToModelImage(mask) }),
+                }),
+                { priority: 'interactive', signal: controller.signal },
+            );
+            // The model may still touch pixels outside the mask; put the originals back.
+            const imageUrl = mask && result.imageUrl ? await compositeWithMask(sourceImage, result.imageUrl, mask) : result.imageUrl;
+            if (remixController.current !== controller) return;
             const botMessage: ChatMessage = { type: 'bot' };
-            if (result.imageUrl) {
-                botMessage.imageUrl = result.imageUrl;
-                setCurrentImage(result.imageUrl);
+            if (imageUrl) {
+                const nodeId = createRemixNodeId();
+                Object.assign(botMessage, { imageUrl, nodeId, ...(parentId && { parentId }) });
+                setCurrentImage(imageUrl);
+                setWorkingNodeId(nodeId);
             }
             if (result.text) {
                 botMessage.text = result.text;
             }
              // Only add bot message if it has content
             if (botMessage.imageUrl || botMessage.text) {
-                setChatHistory([...newHistory, botMessage]);
+                updateChatHistory([...newHistory, botMessage]);
             }
         } catch (error) {
+            // Cancelled, closed or superseded; the result no longer belongs here.
+            if (remixController.current !== controller) return;
             console.error(error);
             const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
-            setChatHistory([...newHistory, { type: 'bot', text: `Sorry, I couldn't remix that. ${errorMessage}` }]);
+            updateChatHistory([...newHistory, { type: 'bot', text: `Sorry, I couldn't remix that. ${errorMessage}`, local: true }]);
         } finally {
-            setIsGenerating(false);
+            if (remixController.current === controller) {
+                remixController.current = null;
+                setIsGenerating(false);
+            }
         }
     };
+
+    const handleCancel = () => {
+        cancelRemix();
+        updateChatHistory([...chatHistory, { type: 'bot', text: 'Remix cancelled.', local: true }]);
+    };
     
+    /**
+     * Makes an image from the transcript the working image. The next instruction
+     * starts a new branch from it, with the branch's own history as context.
+     */
+    const handleSelectNode = (nodeId: string | null) => {
+        if (isGenerating) return;
+        setWorkingNodeId(nodeId);
+        setCurrentImage(nodeId ? nodes.get(nodeId)?.imageUrl ?? initialImageUrl : initialImageUrl);
+    };
+
+    /**
+     * Makes an earlier image the one being remixed and forgets the conversation before it.
+     */
+    const handleStartFresh = (index: number) => {
+        const { imageUrl } = chatHistory[index];
+        if (!imageUrl || isGenerating) return;
+        const nodeId = createRemixNodeId();
+        setCurrentImage(imageUrl);
+        setWorkingNodeId(nodeId);
+        updateChatHistory([...chatHistory, { type: 'bot', text: 'Starting fresh from this image.', imageUrl, nodeId, startsFresh: true }]);
+    };
+
+    const handleClearMask = () => {
+        const canvas = maskRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        setHasMask(false);
+    };
+
+    const handleContextSizeChange = (size: number) => {
+        saveRemixContextSize(size);
+        setContextSize(size);
+    };
+
     const handleSave = () => {
-        if (currentImage) {
-            onSave(scene, currentImage);
+        const imageUrl = saveChoice ? nodes.get(saveChoice)?.imageUrl : initialImageUrl;
+        if (imageUrl) {
+            onSave(imageUrl, instructionsTo(nodes, saveChoice ?? null));
         }
     }
 
@@ -106,7 +224,7 @@ const RemixModal: React.FC<RemixModalProps> = ({ isOpen, onClose, onSave, scene,
                         <div className="flex-shrink-0 flex items-center justify-between p-4 border-b border-white/10">
                             <h2 className="font-playfair text-2xl text-amber-400">Remix: {scene}</h2>
                             <div className="flex items-center gap-4">
-                                <button onClick={handleSave} className="font-lato text-lg text-amber-900 bg-amber-400 py-2 px-6 rounded-sm hover:bg-amber-300 transition-colors">
+                                <button onClick={() => setSaveChoice(workingNodeId)} disabled={isGenerating} className="font-lato text-lg text-amber-900 bg-amber-400 py-2 px-6 rounded-sm hover:bg-amber-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
                                     Save & Close
                                 </button>
                                 <button onClick={onClose} className="text-neutral-400 hover:text-white transition-colors">
@@ -116,14 +234,124 @@ const RemixModal: React.FC<RemixModalProps> = ({ isOpen, onClose, onSave, scene,
                         </div>
 
                         {/* Body */}
-                        <div className="flex-grow flex flex-col md:flex-row min-h-0">
+                        <div className="relative flex-grow flex flex-col md:flex-row min-h-0">
+                            {saveChoice !== undefined && (
+                                <div className="absolute inset-0 z-10 bg-[#1c1c1c] flex flex-col">
+                                    <div className="flex-grow overflow-y-auto p-4 space-y-2">
+                                        <p className="text-neutral-300">Which version should the card keep?</p>
+                                        {[null, ...nodeList.map(node => node.id)].map(nodeId => {
+                                            const node = nodeId ? nodes.get(nodeId) : undefined;
+                                            return (
+                                                <label
+                                                    key={nodeId ?? 'original'}
+                                                    className="flex items-center gap-3 p-2 rounded-md hover:bg-white/5 cursor-pointer"
+                                                    style={{ paddingLeft: `${0.5 + (node ? node.depth + 1 : 0) * 1.5}rem` }}
+                                                >
+                                                    <input type="radio" name="remix-save-choice" checked={saveChoice === nodeId} onChange={() => setSaveChoice(nodeId)} />
+                                                    <img src={node?.imageUrl ?? initialImageUrl} alt="" className="h-16 w-16 object-cover rounded-sm" />
+                                                    <span className="text-sm text-neutral-300">
+                                                        {node ? (node.startsFresh ? 'Fresh start' : node.instruction) : 'Original (no changes)'}
+                                                        {nodeId === workingNodeId && <span className="text-amber-400"> · working image</span>}
+                                                    </span>
+                                                </label>
+                                            );
+                                        })}
+                                    </div>
+                                    <div className="flex-shrink-0 flex justify-end gap-4 p-4 border-t border-white/10">
+                                        <button onClick={() => setSaveChoice(undefined)} className="text-neutral-400 hover:text-white">Back</button>
+                                        <button onClick={handleSave} className="font-lato text-amber-900 bg-amber-400 py-2 px-6 rounded-sm hover:bg-amber-300 transition-colors">
+                                            Keep this one
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
                             {/* Image Panel */}
-                            <div className="w-full md:w-1/2 p-4 flex items-center justify-center bg-black">
+                            <div className="w-full md:w-1/2 p-4 flex flex-col items-center justify-center gap-3 bg-black">
+                                {isComparing && currentImage && (
+                                    <BeforeAfterSlider beforeUrl={initialImageUrl} afterUrl={currentImage} beforeLabel="Original" afterLabel="Working" />
+                                )}
                                 {currentImage ? (
-                                    <img src={currentImage} alt={`Remixed image for ${scene}`} className="max-w-full max-h-full object-contain rounded-md" />
+                                    <div className={`relative max-w-full ${isComparing ? 'hidden' : ''}`}>
+                                        <img
+                                            src={currentImage}
+                                            alt={`Remixed image for ${scene}`}
+                                            onLoad={(e) => {
+                                                const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+                                                setImageSize(prev => prev?.width === width && prev.height === height ? prev : { width, height });
+                                            }}
+                                            className="block max-w-full max-h-[60vh] object-contain rounded-md"
+                                        />
+                                        {imageSize && (
+                                            <MaskCanvas
+                                                width={imageSize.width}
+                                                height={imageSize.height}
+                                                tool={maskTool}
+                                                brushSize={brushSize}
+                                                canvasRef={maskRef}
+                                                onChange={setHasMask}
+                                                className={isMasking ? undefined : 'hidden'}
+                                            />
+                                        )}
+                                    </div>
                                 ) : (
                                     <div className="text-neutral-500">Loading Image...</div>
                                 )}
+                                <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-neutral-300">
+                                    <button
+                                        onClick={() => setIsComparing(!isComparing)}
+                                        aria-pressed={isComparing}
+                                        disabled={!isComparing && currentImage === initialImageUrl}
+                                        className={`py-1 px-3 rounded-sm disabled:opacity-50 ${isComparing ? 'bg-amber-400 text-black' : 'bg-neutral-800 hover:bg-neutral-700'}`}
+                                    >
+                                        Compare with original
+                                    </button>
+                                    {workingNodeId !== null && (
+                                        <button onClick={() => handleSelectNode(null)} disabled={isGenerating} className="py-1 px-3 rounded-sm bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50">
+                                            Back to original
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => setIsMasking(!isMasking)}
+                                        disabled={isComparing}
+                                        aria-pressed={isMasking}
+                                        className={`py-1 px-3 rounded-sm disabled:opacity-50 ${isMasking ? 'bg-amber-400 text-black' : 'bg-neutral-800 hover:bg-neutral-700'}`}
+                                    >
+                                        {isMasking ? 'Editing a region' : 'Edit a region'}
+                                    </button>
+                                    {isMasking && !isComparing && (
+                                        <>
+                                            {(['brush', 'eraser'] as const).map(tool => (
+                                                <button
+                                                    key={tool}
+                                                    onClick={() => setMaskTool(tool)}
+                                                    aria-pressed={maskTool === tool}
+                                                    className={`py-1 px-3 rounded-sm capitalize ${maskTool === tool ? 'bg-white text-black' : 'bg-neutral-800 hover:bg-neutral-700'}`}
+                                                >
+                                                    {tool}
+                                                </button>
+                                            ))}
+                                            <input
+                                                type="range"
+                                                min={0.01}
+                                                max={0.2}
+                                                step={0.01}
+                                                value={brushSize}
+                                                onChange={(e) => setBrushSize(Number(e.target.value))}
+                                                aria-label="Brush size"
+                                            />
+                                            <button onClick={handleClearMask} disabled={!hasMask} className="underline hover:text-white disabled:opacity-50">
+                                                Clear
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+                                {isMasking && !isComparing && (
+                                    <p className="text-xs text-neutral-500 text-center">
+                                        {hasMask
+                                            ? 'Only the painted area will change; everything else stays exactly as it is.'
+                                            : 'Paint over the area you want to change.'}
+                                    </p>
+                                )}
                             </div>
 
                             {/* Chat Panel */}
@@ -133,20 +361,57 @@ const RemixModal: React.FC<RemixModalProps> = ({ isOpen, onClose, onSave, scene,
                                         <div key={index} className={`flex ${msg.type === 'user' ? 'justify-end' : 'justify-start'}`}>
                                             <div className={`max-w-xs lg:max-w-sm rounded-lg p-3 ${msg.type === 'user' ? 'bg-amber-400 text-black font-medium' : 'bg-neutral-700 text-white'}`}>
                                                 {msg.text && <p className="text-sm">{msg.text}</p>}
-                                                {msg.imageUrl && <img src={msg.imageUrl} alt="AI generated image" className="rounded-md mt-2" />}
+                                                {msg.masked && <p className="text-xs opacity-70 mt-1">Painted region only</p>}
+                                                {msg.imageUrl && msg.nodeId ? (
+                                                    <button
+                                                        onClick={() => handleSelectNode(msg.nodeId!)}
+                                                        disabled={isGenerating}
+                                                        className={`block rounded-md mt-2 overflow-hidden ${msg.nodeId === workingNodeId ? 'ring-2 ring-amber-400' : 'opacity-80 hover:opacity-100'}`}
+                                                        aria-label="Continue from this image"
+                                                        aria-pressed={msg.nodeId === workingNodeId}
+                                                    >
+                                                        <img src={msg.imageUrl} alt="AI generated image" />
+                                                    </button>
+                                                ) : msg.imageUrl && <img src={msg.imageUrl} alt="AI generated image" className="rounded-md mt-2" />}
+                                                {msg.nodeId && msg.parentId && msg.parentId !== previousNodeId(index) && (
+                                                    <p className="text-xs text-neutral-400 mt-1">New branch from an earlier image</p>
+                                                )}
+                                                {msg.imageUrl && msg.type === 'bot' && !msg.startsFresh && (
+                                                    <button
+                                                        onClick={() => handleStartFresh(index)}
+                                                        disabled={isGenerating}
+                                                        className="text-xs text-neutral-300 underline hover:text-white mt-2 disabled:opacity-50"
+                                                    >
+                                                        Start fresh from this image
+                                                    </button>
+                                                )}
                                             </div>
                                         </div>
                                     ))}
                                     {isGenerating && (
                                         <div className="flex justify-start">
-                                            <div className="max-w-xs lg:max-w-sm rounded-lg p-3 bg-neutral-700">
+                                            <div className="max-w-xs lg:max-w-sm rounded-lg p-3 bg-neutral-700 flex items-center gap-3">
                                                 <LoadingSpinner />
+                                                <button onClick={handleCancel} className="text-xs text-neutral-300 underline hover:text-white">
+                                                    Cancel
+                                                </button>
                                             </div>
                                         </div>
                                     )}
                                     <div ref={chatEndRef} />
                                 </div>
-                                <div className="flex-shrink-0 p-4 border-t border-white/10">
+                                <div className="flex-shrink-0 p-4 border-t border-white/10 space-y-2">
+                                    <label className="flex items-center gap-2 text-xs text-neutral-400">
+                                        Remember the last
+                                        <select
+                                            value={contextSize}
+                                            onChange={(e) => handleContextSizeChange(Number(e.target.value))}
+                                            className="bg-neutral-800 text-white rounded-sm px-1 py-0.5"
+                                        >
+                                            {REMIX_CONTEXT_OPTIONS.map(size => <option key={size} value={size}>{size}</option>)}
+                                        </select>
+                                        changes
+                                    </label>
                                     <form onSubmit={(e) => { e.preventDefault(); handleSend(); }} className="flex items-center gap-2 bg-neutral-800 rounded-md p-2">
                                         <input
                                             type="text"
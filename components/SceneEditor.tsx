@@ -0,0 +1,324 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { scatterPosition } from '../lib/scenePacks';
+import type { ScenePack, SceneDefinition } from '../lib/scenePacks';
+import { composeScenePrompt, composeFallbackLadder } from '../lib/scenePrompts';
+
+interface SceneDraft {
+    id: string;
+    caption: string;
+    setting: string;
+    outfit: string;
+    mood: string;
+    /** Hand-edited fallback prompts, or null to derive them like the primary prompt. */
+    ladder: string[] | null;
+    /** The pack scene this draft was created from, if any. */
+    source?: SceneDefinition;
+}
+
+interface SceneEditorProps {
+    isOpen: boolean;
+    pack: ScenePack;
+    /** True if the pack can be overwritten; built-in packs are saved as a copy. */
+    isEditable: boolean;
+    onClose: () => void;
+    onSave: (pack: ScenePack) => void;
+}
+
+const MAX_CAPTION_LENGTH = 60;
+const MAX_SCENES = 24;
+
+const inputClasses = "w-full bg-neutral-800 text-white placeholder-neutral-500 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-amber-400";
+const iconButtonClasses = "p-1 text-neutral-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed";
+
+let draftCounter = 0;
+const newSceneId = () => `scene-${Date.now().toString(36)}-${draftCounter++}`;
+
+function toDraft(scene: SceneDefinition): SceneDraft {
+    const parts = { setting: scene.setting ?? scene.caption, outfit: scene.outfit ?? '', mood: scene.mood ?? '' };
+    // A ladder that matches (or starts) the derived one is treated as derived, so it keeps following edits.
+    const derived = scene.setting !== undefined ? composeFallbackLadder(parts) : scene.fallbackPrompts;
+    const isDerived = scene.fallbackPrompts.length > 0
+        ? scene.fallbackPrompts.every((rung, index) => rung === derived[index])
+        : derived.length === 0;
+    return {
+        id: scene.id,
+        caption: scene.caption,
+        ...parts,
+        ladder: isDerived ? null : [...scene.fallbackPrompts],
+        source: scene,
+    };
+}
+
+/**
+ * Scenes from packs with hand-written prompts keep them until the user changes
+ * the setting, outfit or mood.
+ */
+function keepsHandWrittenPrompts(draft: SceneDraft): draft is SceneDraft & { source: SceneDefinition } {
+    const { source } = draft;
+    return !!source && source.setting === undefined
+        && draft.setting === source.caption && !draft.outfit.trim() && !draft.mood.trim();
+}
+
+/**
+ * Returns the prompts a draft will generate with.
+ */
+function promptsForDraft(draft: SceneDraft): Pick<SceneDefinition, 'prompt' | 'fallbackPrompts'> {
+    if (keepsHandWrittenPrompts(draft)) {
+        return { prompt: draft.source.prompt, fallbackPrompts: draft.ladder ?? draft.source.fallbackPrompts };
+    }
+    const parts = { setting: draft.setting, outfit: draft.outfit, mood: draft.mood };
+    return { prompt: composeScenePrompt(parts), fallbackPrompts: draft.ladder ?? composeFallbackLadder(parts) };
+}
+
+function draftIssues(draft: SceneDraft): string[] {
+    const issues: string[] = [];
+    if (!draft.caption.trim()) issues.push('A caption is required.');
+    if (draft.caption.length > MAX_CAPTION_LENGTH) issues.push(`Captions can be at most ${MAX_CAPTION_LENGTH} characters.`);
+    if (!draft.setting.trim()) issues.push('Describe the setting for this scene.');
+    if (draft.ladder?.some(rung => !rung.trim())) issues.push("Fallback prompts can't be empty; remove the ones you don't need.");
+    return issues;
+}
+
+const SceneEditor: React.FC<SceneEditorProps> = ({ isOpen, pack, isEditable, onClose, onSave }) => {
+    const [packName, setPackName] = useState('');
+    const [drafts, setDrafts] = useState<SceneDraft[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const initialDrafts = pack.scenes.map(toDraft);
+        setPackName(isEditable ? pack.name : `My ${pack.name}`);
+        setDrafts(initialDrafts);
+        setSelectedId(initialDrafts[0]?.id ?? null);
+    }, [isOpen, pack, isEditable]);
+
+    const selectedIndex = drafts.findIndex(draft => draft.id === selectedId);
+    const selected = selectedIndex >= 0 ? drafts[selectedIndex] : null;
+    const hasIssues = drafts.length === 0 || !packName.trim() || drafts.some(draft => draftIssues(draft).length > 0);
+
+    const updateSelected = (changes: Partial<SceneDraft>) => {
+        setDrafts(prev => prev.map(draft => draft.id === selectedId ? { ...draft, ...changes } : draft));
+    };
+
+    const updateLadder = (update: (ladder: string[]) => string[]) => {
+        if (selected?.ladder) updateSelected({ ladder: update(selected.ladder) });
+    };
+
+    const handleMoveRung = (index: number, offset: -1 | 1) => updateLadder(ladder => {
+        const target = index + offset;
+        if (target < 0 || target >= ladder.length) return ladder;
+        const reordered = [...ladder];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        return reordered;
+    });
+
+    const handleAdd = () => {
+        const draft: SceneDraft = { id: newSceneId(), caption: 'A New Scene', setting: '', outfit: '', mood: '', ladder: null };
+        setDrafts(prev => [...prev, draft]);
+        setSelectedId(draft.id);
+    };
+
+    const handleDelete = (id: string) => {
+        const index = drafts.findIndex(draft => draft.id === id);
+        const remaining = drafts.filter(draft => draft.id !== id);
+        setDrafts(remaining);
+        if (id === selectedId) {
+            setSelectedId(remaining[Math.min(index, remaining.length - 1)]?.id ?? null);
+        }
+    };
+
+    const handleMove = (index: number, offset: -1 | 1) => {
+        const target = index + offset;
+        if (target < 0 || target >= drafts.length) return;
+        setDrafts(prev => {
+            const reordered = [...prev];
+            [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+            return reordered;
+        });
+    };
+
+    const handleSave = () => {
+        if (hasIssues) return;
+        const scenes: SceneDefinition[] = drafts.map((draft, index) => {
+            const placement = draft.source
+                ? { position: draft.source.position, rotation: draft.source.rotation }
+                : scatterPosition(index, drafts.length);
+            const { prompt, fallbackPrompts } = promptsForDraft(draft);
+            return {
+                id: draft.id,
+                caption: draft.caption.trim(),
+                prompt,
+                fallbackPrompts: fallbackPrompts.map(rung => rung.trim()),
+                ...placement,
+                ...(!keepsHandWrittenPrompts(draft) && {
+                    setting: draft.setting.trim(),
+                    ...(draft.outfit.trim() && { outfit: draft.outfit.trim() }),
+                    ...(draft.mood.trim() && { mood: draft.mood.trim() }),
+                }),
+            };
+        });
+        onSave({
+            id: isEditable ? pack.id : `custom-${Date.now().toString(36)}`,
+            name: packName.trim(),
+            description: isEditable ? pack.description : `Customized from ${pack.name}.`,
+            version: 1,
+            scenes,
+        });
+    };
+
+    const preview = selected ? promptsForDraft(selected) : null;
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+                    onClick={onClose}
+                >
+                    <motion.div
+                        initial={{ scale: 0.9, y: 20 }}
+                        animate={{ scale: 1, y: 0 }}
+                        exit={{ scale: 0.9, y: 20 }}
+                        className="bg-[#1c1c1c] border border-white/10 rounded-lg w-full max-w-5xl h-[90vh] flex flex-col overflow-hidden shadow-2xl"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        {/* Header */}
+                        <div className="flex-shrink-0 flex items-center justify-between gap-4 p-4 border-b border-white/10">
+                            <input
+                                type="text"
+                                value={packName}
+                                onChange={(e) => setPackName(e.target.value)}
+                                aria-label="Scene set name"
+                                className="font-playfair text-2xl text-amber-400 bg-transparent focus:outline-none border-b border-transparent focus:border-amber-400 min-w-0 flex-grow"
+                            />
+                            <div className="flex items-center gap-4">
+                                <button onClick={handleSave} disabled={hasIssues} className="font-lato text-lg text-amber-900 bg-amber-400 py-2 px-6 rounded-sm hover:bg-amber-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                                    Save Scenes
+                                </button>
+                                <button onClick={onClose} className="text-neutral-400 hover:text-white transition-colors" aria-label="Close scene editor">
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* Body */}
+                        <div className="flex-grow flex flex-col md:flex-row min-h-0">
+                            {/* Scene List */}
+                            <div className="w-full md:w-1/3 flex flex-col bg-[#111] border-r border-white/10">
+                                <ol className="flex-grow overflow-y-auto p-2 space-y-1">
+                                    {drafts.map((draft, index) => (
+                                        <li
+                                            key={draft.id}
+                                            className={cn(
+                                                "flex items-center gap-1 rounded-md px-2 py-1 cursor-pointer",
+                                                draft.id === selectedId ? 'bg-neutral-700' : 'hover:bg-neutral-800',
+                                            )}
+                                            onClick={() => setSelectedId(draft.id)}
+                                        >
+                                            <span className={cn("flex-grow font-caveat text-xl truncate", draftIssues(draft).length > 0 ? 'text-red-400' : 'text-white')}>
+                                                {index + 1}. {draft.caption || 'Untitled'}
+                                            </span>
+                                            <button onClick={(e) => { e.stopPropagation(); handleMove(index, -1); }} disabled={index === 0} className={iconButtonClasses} aria-label={`Move ${draft.caption} up`}>↑</button>
+                                            <button onClick={(e) => { e.stopPropagation(); handleMove(index, 1); }} disabled={index === drafts.length - 1} className={iconButtonClasses} aria-label={`Move ${draft.caption} down`}>↓</button>
+                                            <button onClick={(e) => { e.stopPropagation(); handleDelete(draft.id); }} disabled={drafts.length === 1} className={iconButtonClasses} aria-label={`Delete ${draft.caption}`}>✕</button>
+                                        </li>
+                                    ))}
+                                </ol>
+                                <div className="flex-shrink-0 p-2 border-t border-white/10">
+                                    <button onClick={handleAdd} disabled={drafts.length >= MAX_SCENES} className="w-full font-lato text-white bg-white/10 border border-white/40 py-2 rounded-sm hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed">
+                                        + Add Scene
+                                    </button>
+                                </div>
+                            </div>
+
+                            {/* Scene Form */}
+                            <div className="w-full md:w-2/3 p-4 overflow-y-auto space-y-4 text-neutral-300">
+                                {selected && preview ? (
+                                    <>
+                                        <label className="block space-y-1">
+                                            <span className="text-sm">Caption</span>
+                                            <input type="text" value={selected.caption} maxLength={MAX_CAPTION_LENGTH} onChange={(e) => updateSelected({ caption: e.target.value })} className={inputClasses} />
+                                        </label>
+                                        <label className="block space-y-1">
+                                            <span className="text-sm">Setting</span>
+                                            <textarea value={selected.setting} rows={3} placeholder="e.g., on the pier where we first met, at sunset" onChange={(e) => updateSelected({ setting: e.target.value })} className={inputClasses} />
+                                        </label>
+                                        <div className="flex flex-col sm:flex-row gap-4">
+                                            <label className="block space-y-1 flex-1">
+                                                <span className="text-sm">Outfit <span className="text-neutral-500">(optional)</span></span>
+                                                <input type="text" value={selected.outfit} placeholder="e.g., a navy wool coat" onChange={(e) => updateSelected({ outfit: e.target.value })} className={inputClasses} />
+                                            </label>
+                                            <label className="block space-y-1 flex-1">
+                                                <span className="text-sm">Mood <span className="text-neutral-500">(optional)</span></span>
+                                                <input type="text" value={selected.mood} placeholder="e.g., wistful and hopeful" onChange={(e) => updateSelected({ mood: e.target.value })} className={inputClasses} />
+                                            </label>
+                                        </div>
+                                        {draftIssues(selected).map(issue => (
+                                            <p key={issue} className="text-sm text-red-400" role="alert">{issue}</p>
+                                        ))}
+                                        <div className="space-y-1">
+                                            <span className="text-sm">Prompt preview</span>
+                                            <p className="bg-black/40 border border-white/10 rounded-md p-3 text-sm text-neutral-200 whitespace-pre-wrap">{preview.prompt}</p>
+                                        </div>
+                                        <div className="space-y-2">
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span className="text-sm">If the prompt is blocked, try these softer prompts in order</span>
+                                                {selected.ladder ? (
+                                                    <button onClick={() => updateSelected({ ladder: null })} className="text-xs text-neutral-400 underline hover:text-white">Reset to automatic</button>
+                                                ) : (
+                                                    <button onClick={() => updateSelected({ ladder: [...preview.fallbackPrompts] })} className="text-xs text-neutral-400 underline hover:text-white">Customize</button>
+                                                )}
+                                            </div>
+                                            {selected.ladder ? (
+                                                <>
+                                                    {selected.ladder.map((rung, index) => (
+                                                        <div key={index} className="flex items-start gap-2">
+                                                            <span className="text-sm text-neutral-500 pt-2">{index + 1}.</span>
+                                                            <textarea
+                                                                value={rung}
+                                                                rows={3}
+                                                                aria-label={`Fallback prompt ${index + 1}`}
+                                                                onChange={(e) => updateLadder(ladder => ladder.map((other, i) => i === index ? e.target.value : other))}
+                                                                className={inputClasses}
+                                                            />
+                                                            <div className="flex flex-col">
+                                                                <button onClick={() => handleMoveRung(index, -1)} disabled={index === 0} className={iconButtonClasses} aria-label={`Move fallback prompt ${index + 1} up`}>↑</button>
+                                                                <button onClick={() => handleMoveRung(index, 1)} disabled={index === selected.ladder!.length - 1} className={iconButtonClasses} aria-label={`Move fallback prompt ${index + 1} down`}>↓</button>
+                                                                <button onClick={() => updateLadder(ladder => ladder.filter((_, i) => i !== index))} className={iconButtonClasses} aria-label={`Remove fallback prompt ${index + 1}`}>✕</button>
+                                                            </div>
+                                                        </div>
+                                                    ))}
+                                                    <button onClick={() => updateLadder(ladder => [...ladder, ''])} className="text-sm text-neutral-400 underline hover:text-white">
+                                                        + Add fallback prompt
+                                                    </button>
+                                                </>
+                                            ) : preview.fallbackPrompts.map((rung, index) => (
+                                                <p key={index} className="bg-black/40 border border-white/10 rounded-md p-3 text-sm text-neutral-400 whitespace-pre-wrap">{index + 1}. {rung}</p>
+                                            ))}
+                                            {preview.fallbackPrompts.length === 0 && (
+                                                <p className="text-sm text-neutral-500">No fallbacks: a blocked prompt fails right away.</p>
+                                            )}
+                                        </div>
+                                    </>
+                                ) : (
+                                    <p className="text-neutral-500">Add a scene to get started.</p>
+                                )}
+                            </div>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default SceneEditor;
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, ChangeEvent } from 'react';
+import { parseScenePack, serializeScenePack, ScenePackValidationError } from '../lib/scenePacks';
+import type { ScenePack } from '../lib/scenePacks';
+
+interface ScenePackPickerProps {
+    packs: ScenePack[];
+    selectedPack: ScenePack;
+    onSelect: (pack: ScenePack) => void;
+    onImport: (pack: ScenePack) => string | void;
+    onEdit: () => void;
+}
+
+const smallButtonClasses = "font-lato text-sm text-white bg-white/10 backdrop-blur-sm border border-white/60 py-1.5 px-3 rounded-sm hover:bg-white hover:text-amber-800 transition-colors duration-200 cursor-pointer";
+
+const ScenePackPicker: React.FC<ScenePackPickerProps> = ({ packs, selectedPack, onSelect, onImport, onEdit }) => {
+    const [importError, setImportError] = useState<string | null>(null);
+
+    const handleImport = (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-importing the same file after fixing it
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onloadend = () => {
+            try {
+                const pack = parseScenePack(reader.result as string);
+                const rejection = onImport(pack);
+                setImportError(rejection || null);
+            } catch (error) {
+                setImportError(error instanceof ScenePackValidationError
+                    ? error.issues.join(' ')
+                    : "Sorry, that file couldn't be read.");
+            }
+        };
+        reader.readAsText(file);
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([serializeScenePack(selectedPack)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${selectedPack.id}.scene-pack.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        // Revoked later, as the browser may not have read the file yet when click() returns.
+        setTimeout(() => URL.revokeObjectURL(url), 60000);
+    };
+
+    return (
+        <div className="flex flex-col items-center gap-2 max-w-md">
+            <div className="flex flex-wrap items-center justify-center gap-2">
+                <label htmlFor="scene-pack-select" className="font-lato text-neutral-800">Scenes:</label>
+                <select
+                    id="scene-pack-select"
+                    value={selectedPack.id}
+                    onChange={(e) => {
+                        const pack = packs.find(p => p.id === e.target.value);
+                        if (pack) onSelect(pack);
+                    }}
+                    className="font-lato bg-white/70 border border-white/80 rounded-sm py-1.5 px-2 text-neutral-800 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                >
+                    {packs.map(pack => (
+                        <option key={pack.id} value={pack.id}>{pack.name} ({pack.scenes.length})</option>
+                    ))}
+                </select>
+                <button onClick={onEdit} className={smallButtonClasses}>Customize</button>
+                <label htmlFor="scene-pack-import" className={smallButtonClasses}>Import</label>
+                <input id="scene-pack-import" type="file" className="hidden" accept="application/json,.json" onChange={handleImport} />
+                <button onClick={handleExport} className={smallButtonClasses}>Export</button>
+            </div>
+            {selectedPack.description && (
+                <p className="text-neutral-700 text-sm text-center">{selectedPack.description}</p>
+            )}
+            {importError && (
+                <p className="text-red-700 text-sm text-center" role="alert">{importError}</p>
+            )}
+        </div>
+    );
+};
+
+export default ScenePackPicker;
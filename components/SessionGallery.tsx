@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { listSessions, duplicateSession, deleteSession } from '../lib/sessionStore';
+import type { SessionSummary } from '../lib/sessionStore';
+
+interface SessionGalleryProps {
+    /** The session currently open in the app, which cannot be deleted from here. */
+    currentSessionId: string | null;
+    onOpen: (id: string) => void;
+    /** Renames a saved session; the app does it so the open session keeps the new name. */
+    onRename: (id: string, name: string) => Promise<void>;
+    onBack: () => void;
+}
+
+const smallButtonClasses = "font-lato text-sm text-white bg-white/10 backdrop-blur-sm border border-white/60 py-1 px-3 rounded-sm hover:bg-white hover:text-amber-800 transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed";
+
+const formatBytes = (bytes: number) => bytes > 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const SessionGallery: React.FC<SessionGalleryProps> = ({ currentSessionId, onOpen, onRename, onBack }) => {
+    const [sessions, setSessions] = useState<SessionSummary[] | null>(null);
+    const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setSessions(await listSessions());
+            const estimate = await navigator.storage?.estimate?.();
+            if (estimate?.usage !== undefined && estimate.quota) {
+                setStorage({ usage: estimate.usage, quota: estimate.quota });
+            }
+        } catch (err) {
+            console.error('Failed to load sessions:', err);
+            setError('Your past sessions could not be loaded.');
+            setSessions([]);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            console.error(failureMessage, err);
+            setError(err instanceof Error && err.name === 'StorageQuotaError' ? err.message : failureMessage);
+        }
+        await refresh();
+    };
+
+    const handleRenameSubmit = (id: string) => {
+        const name = renameValue.trim();
+        setRenamingId(null);
+        if (name) {
+            runAction(() => onRename(id, name), 'Sorry, the session could not be renamed.');
+        }
+    };
+
+    const handleDelete = (session: SessionSummary) => {
+        if (confirm(`Delete "${session.name}"? This can't be undone.`)) {
+            runAction(() => deleteSession(session.id), 'Sorry, the session could not be deleted.');
+        }
+    };
+
+    return (
+        <div className="w-full max-w-5xl flex-1 min-h-0 flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="font-playfair text-3xl text-neutral-900">Past Sessions</h2>
+                <button onClick={onBack} className={smallButtonClasses}>Back</button>
+            </div>
+            {storage && (
+                <p className="text-sm text-neutral-700 mb-4">
+                    Using {formatBytes(storage.usage)} of {formatBytes(storage.quota)} available. The oldest sessions are removed automatically when space runs low.
+                </p>
+            )}
+            {error && <p className="text-red-700 mb-4" role="alert">{error}</p>}
+
+            {sessions === null ? (
+                <p className="text-neutral-700">Loading...</p>
+            ) : sessions.length === 0 ? (
+                <p className="text-neutral-700 text-lg">No saved sessions yet. Your sessions are saved automatically as you generate.</p>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 overflow-y-auto pb-4">
+                    {sessions.map((session, index) => (
+                        <motion.div
+                            key={session.id}
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ delay: index * 0.05 }}
+                            className="bg-neutral-100 rounded-md shadow-lg p-3 flex flex-col gap-2"
+                        >
+                            <button onClick={() => onOpen(session.id)} className="aspect-square bg-neutral-900 overflow-hidden rounded-sm" aria-label={`Open ${session.name}`}>
+                                {session.thumbnailUrl && <img src={session.thumbnailUrl} alt="" className="w-full h-full object-cover" />}
+                            </button>
+                            {renamingId === session.id ? (
+                                <form onSubmit={(e) => { e.preventDefault(); handleRenameSubmit(session.id); }}>
+                                    <input
+                                        autoFocus
+                                        value={renameValue}
+                                        onChange={(e) => setRenameValue(e.target.value)}
+                                        onBlur={() => handleRenameSubmit(session.id)}
+                                        className="w-full font-caveat text-2xl bg-white border border-neutral-300 rounded-sm px-1"
+                                    />
+                                </form>
+                            ) : (
+                                <p className="font-caveat text-2xl text-neutral-900 truncate" title={session.name}>{session.name}</p>
+                            )}
+                            <p className="text-xs text-neutral-600">
+                                {new Date(session.updatedAt).toLocaleString()} · {session.doneCount}/{session.sceneCount} scenes · {formatBytes(session.sizeBytes)}
+                            </p>
+                            <div className="flex flex-wrap gap-2 [&>button]:text-neutral-800 [&>button]:border-neutral-400">
+                                <button onClick={() => onOpen(session.id)} className={smallButtonClasses}>Open</button>
+                                <button onClick={() => { setRenamingId(session.id); setRenameValue(session.name); }} className={smallButtonClasses}>Rename</button>
+                                <button onClick={() => runAction(() => duplicateSession(session.id), 'Sorry, the session could not be duplicated.')} className={smallButtonClasses}>Duplicate</button>
+                                <button
+                                    onClick={() => handleDelete(session)}
+                                    disabled={session.id === currentSessionId}
+                                    title={session.id === currentSessionId ? 'This session is currently open.' : undefined}
+                                    className={smallButtonClasses}
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        </motion.div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SessionGallery;
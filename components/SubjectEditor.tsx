@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, ChangeEvent } from 'react';
+import { countPhotos, createSubject, MAX_PHOTOS_PER_SUBJECT, MAX_SUBJECTS, MAX_TOTAL_PHOTOS } from '../lib/subjects';
+import { loadMaxUploadSize, preprocessUploads, saveMaxUploadSize, UPLOAD_SIZE_OPTIONS } from '../lib/uploadPreprocessing';
+import PhotoCropper from './PhotoCropper';
+import type { Subject } from '../types';
+
+interface SubjectEditorProps {
+    subjects: Subject[];
+    onChange: (subjects: Subject[]) => void;
+}
+
+const smallButtonClasses = "font-lato text-sm text-white bg-white/10 backdrop-blur-sm border border-white/60 py-1.5 px-3 rounded-sm hover:bg-white hover:text-amber-800 transition-colors duration-200 cursor-pointer";
+
+/**
+ * Shows the uploaded photos grouped by person, so each subject can be named, given more
+ * photos for a better likeness, or joined by others for group scenes. Photos can be
+ * cropped here before generating.
+ */
+const SubjectEditor: React.FC<SubjectEditorProps> = ({ subjects, onChange }) => {
+    const [rejections, setRejections] = useState<string[]>([]);
+    const [maxUploadSize, setMaxUploadSize] = useState(loadMaxUploadSize);
+    const [cropping, setCropping] = useState<{ subjectId: string; photoIndex: number } | null>(null);
+    const photoRoom = MAX_TOTAL_PHOTOS - countPhotos(subjects);
+
+    const readPhotos = async (e: ChangeEvent<HTMLInputElement>, limit: number): Promise<string[]> => {
+        const files = Array.from<File>(e.target.files ?? []).slice(0, Math.min(limit, photoRoom));
+        e.target.value = ''; // Allow choosing the same file again
+        const { photos, rejections } = await preprocessUploads(files, maxUploadSize);
+        setRejections(rejections);
+        return photos;
+    };
+
+    const handleMaxUploadSizeChange = (size: number) => {
+        saveMaxUploadSize(size);
+        setMaxUploadSize(loadMaxUploadSize());
+    };
+
+    const updateSubject = (id: string, update: (subject: Subject) => Subject) => {
+        onChange(subjects.map(subject => subject.id === id ? update(subject) : subject));
+    };
+
+    const handleAddPhotos = async (subject: Subject, e: ChangeEvent<HTMLInputElement>) => {
+        const photos = await readPhotos(e, MAX_PHOTOS_PER_SUBJECT - subject.photos.length);
+        if (photos.length > 0) updateSubject(subject.id, current => ({ ...current, photos: [...current.photos, ...photos] }));
+    };
+
+    const handleAddSubject = async (e: ChangeEvent<HTMLInputElement>) => {
+        const photos = await readPhotos(e, MAX_PHOTOS_PER_SUBJECT);
+        if (photos.length > 0) onChange([...subjects, createSubject(photos, subjects.length)]);
+    };
+
+    const handleRemovePhoto = (subject: Subject, photoIndex: number) => {
+        if (subject.photos.length === 1) {
+            onChange(subjects.filter(other => other.id !== subject.id));
+            return;
+        }
+        updateSubject(subject.id, current => ({ ...current, photos: current.photos.filter((_, index) => index !== photoIndex) }));
+    };
+
+    const handleApplyCrop = (croppedUrl: string) => {
+        if (!cropping) return;
+        const { subjectId, photoIndex } = cropping;
+        updateSubject(subjectId, current => ({ ...current, photos: current.photos.map((photo, index) => index === photoIndex ? croppedUrl : photo) }));
+        setCropping(null);
+    };
+
+    const canRemovePhotos = countPhotos(subjects) > 1;
+    const croppingPhoto = cropping && subjects.find(subject => subject.id === cropping.subjectId)?.photos[cropping.photoIndex];
+
+    return (
+        <div className="flex flex-col items-center gap-4 w-full max-w-2xl">
+            {subjects.map((subject, subjectIndex) => (
+                <div key={subject.id} className="w-full flex flex-col sm:flex-row items-center gap-3 bg-white/60 rounded-sm p-3 shadow">
+                    <label className="font-lato text-neutral-800 flex flex-col gap-1 sm:w-40 flex-shrink-0">
+                        <span className="text-xs uppercase tracking-wide text-neutral-600">
+                            {subjects.length > 1 ? `Person ${subjectIndex + 1}` : 'Name'}
+                        </span>
+                        <input
+                            type="text"
+                            value={subject.label}
+                            onChange={(e) => updateSubject(subject.id, current => ({ ...current, label: e.target.value }))}
+                            maxLength={40}
+                            className="bg-white/80 rounded-sm px-2 py-1 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                        />
+                    </label>
+                    <div className="flex flex-wrap items-center gap-2 flex-grow">
+                        {subject.photos.map((photo, photoIndex) => (
+                            <div key={photoIndex} className="relative bg-neutral-100 p-1 pb-4 shadow">
+                                <img src={photo} alt={`${subject.label}, photo ${photoIndex + 1}`} className="w-20 h-20 object-cover" />
+                                <button
+                                    onClick={() => setCropping({ subjectId: subject.id, photoIndex })}
+                                    className="absolute bottom-0 inset-x-0 font-lato text-[10px] text-neutral-600 hover:text-amber-800"
+                                    aria-label={`Crop photo ${photoIndex + 1} of ${subject.label}`}
+                                >
+                                    Crop
+                                </button>
+                                {canRemovePhotos && (
+                                    <button
+                                        onClick={() => handleRemovePhoto(subject, photoIndex)}
+                                        className="absolute -top-2 -right-2 h-6 w-6 rounded-full bg-black/70 text-white text-xs hover:bg-black"
+                                        aria-label={`Remove photo ${photoIndex + 1} of ${subject.label}`}
+                                    >
+                                        ✕
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                        {subject.photos.length < MAX_PHOTOS_PER_SUBJECT && photoRoom > 0 && (
+                            <label className="w-20 h-20 flex items-center justify-center text-center text-xs font-lato text-neutral-700 border-2 border-dashed border-neutral-500/60 rounded-sm cursor-pointer hover:bg-white/60">
+                                Add a photo of {subject.label.trim() || 'them'}
+                                <input type="file" className="hidden" accept="image/*,.heic,.heif" multiple onChange={(e) => handleAddPhotos(subject, e)} />
+                            </label>
+                        )}
+                    </div>
+                </div>
+            ))}
+            {subjects.length < MAX_SUBJECTS && photoRoom > 0 && (
+                <label className={smallButtonClasses}>
+                    Add another person for group scenes
+                    <input type="file" className="hidden" accept="image/*,.heic,.heif" multiple onChange={handleAddSubject} />
+                </label>
+            )}
+            <label className="font-lato text-sm text-neutral-700 flex items-center gap-2">
+                Scale new photos down to
+                <select
+                    value={maxUploadSize}
+                    onChange={(e) => handleMaxUploadSizeChange(Number(e.target.value))}
+                    className="bg-white/70 rounded-sm px-2 py-1"
+                >
+                    {UPLOAD_SIZE_OPTIONS.map(size => (
+                        <option key={size} value={size}>{size}</option>
+                    ))}
+                </select>
+                pixels at most
+            </label>
+            {rejections.map((rejection, index) => (
+                <p key={index} className="text-red-700 text-sm text-center" role="alert">{rejection}</p>
+            ))}
+            <PhotoCropper
+                photoUrl={croppingPhoto || null}
+                onApply={handleApplyCrop}
+                onClose={() => setCropping(null)}
+            />
+        </div>
+    );
+};
+
+export default SubjectEditor;
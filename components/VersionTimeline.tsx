@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '../lib/utils';
+import type { GeneratedImage, ImageVersion, VersionOrigin } from '../types';
+
+interface VersionTimelineProps {
+    isOpen: boolean;
+    caption: string;
+    image?: GeneratedImage;
+    onRestore: (versionId: string) => void;
+    onClose: () => void;
+}
+
+const ORIGIN_LABELS: Record<VersionOrigin, string> = {
+    initial: 'Generated',
+    regenerate: 'Regenerated',
+    remix: 'Remixed',
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Browses a scene's history. Selecting one version shows it with its details; selecting
+ * a second compares the two side by side. Any version can be put back on the card.
+ */
+const VersionTimeline: React.FC<VersionTimelineProps> = ({ isOpen, caption, image, onRestore, onClose }) => {
+    const versions = image?.versions ?? [];
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+    // Start on the version the card is showing.
+    useEffect(() => {
+        if (isOpen) setSelectedIds(image?.currentVersionId ? [image.currentVersionId] : []);
+    }, [isOpen]);
+
+    const handleSelect = (id: string, compare: boolean) => {
+        setSelectedIds(prev => {
+            if (!compare) return [id];
+            if (prev.includes(id)) return prev.length > 1 ? prev.filter(selected => selected !== id) : prev;
+            // Comparing shows two at once; adding a third replaces the older pick.
+            return [...prev, id].slice(-2);
+        });
+    };
+
+    const selected = selectedIds
+        .map(id => versions.find(version => version.id === id))
+        .filter((version): version is ImageVersion => !!version);
+
+    const renderVersion = (version: ImageVersion) => {
+        const isCurrent = version.id === image?.currentVersionId;
+        return (
+            <div key={version.id} className="flex-1 min-w-0 flex flex-col gap-3">
+                <img src={version.url} alt={`${caption}, ${ORIGIN_LABELS[version.origin].toLowerCase()} ${formatTime(version.createdAt)}`} className="w-full max-h-[45vh] object-contain bg-black/40 rounded-md" />
+                <div className="flex items-center justify-between gap-2">
+                    <div>
+                        <p className="text-white">{ORIGIN_LABELS[version.origin]}</p>
+                        <p className="text-xs text-neutral-400">{formatTime(version.createdAt)}</p>
+                    </div>
+                    <button
+                        onClick={() => onRestore(version.id)}
+                        disabled={isCurrent || image?.status === 'pending'}
+                        className="font-lato text-amber-900 bg-amber-400 py-1.5 px-4 rounded-sm hover:bg-amber-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isCurrent ? 'Showing' : 'Restore'}
+                    </button>
+                </div>
+                <p className="bg-black/40 border border-white/10 rounded-md p-3 text-sm text-neutral-400 whitespace-pre-wrap max-h-32 overflow-y-auto">{version.prompt}</p>
+            </div>
+        );
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+                    onClick={onClose}
+                >
+                    <motion.div
+                        initial={{ scale: 0.9, y: 20 }}
+                        animate={{ scale: 1, y: 0 }}
+                        exit={{ scale: 0.9, y: 20 }}
+                        className="bg-[#1c1c1c] border border-white/10 rounded-lg w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden shadow-2xl"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div className="flex-shrink-0 flex items-center justify-between gap-4 p-4 border-b border-white/10">
+                            <div>
+                                <h2 className="font-playfair text-2xl text-amber-400">{caption}: History</h2>
+                                <p className="text-sm text-neutral-400">Click a version to view it. Shift-click (or tick Compare) a second one to compare them side by side.</p>
+                            </div>
+                            <button onClick={onClose} className="text-neutral-400 hover:text-white transition-colors" aria-label="Close history">
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                            </button>
+                        </div>
+
+                        <div className="flex-grow overflow-y-auto p-4 flex flex-col md:flex-row gap-4">
+                            {selected.length > 0
+                                ? selected.map(renderVersion)
+                                : <p className="text-neutral-400">Select a version below.</p>}
+                        </div>
+
+                        {/* Timeline, oldest first */}
+                        <ol className="flex-shrink-0 flex gap-3 overflow-x-auto p-4 border-t border-white/10">
+                            {versions.map((version, index) => (
+                                <li key={version.id} className="flex-shrink-0 w-24 flex flex-col items-center gap-1">
+                                    <button
+                                        onClick={(e) => handleSelect(version.id, e.shiftKey)}
+                                        className={cn(
+                                            "block w-24 h-32 rounded-sm overflow-hidden border-2",
+                                            selectedIds.includes(version.id) ? "border-amber-400" : "border-transparent opacity-70 hover:opacity-100",
+                                        )}
+                                        aria-label={`Version ${index + 1}: ${ORIGIN_LABELS[version.origin]}`}
+                                        aria-pressed={selectedIds.includes(version.id)}
+                                    >
+                                        <img src={version.url} alt="" className="w-full h-full object-cover" />
+                                    </button>
+                                    <span className={cn("text-xs", version.id === image?.currentVersionId ? "text-amber-400" : "text-neutral-400")}>
+                                        {index + 1}. {ORIGIN_LABELS[version.origin]}
+                                    </span>
+                                    <label className="text-xs text-neutral-500 flex items-center gap-1">
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedIds.includes(version.id) && selectedIds.length > 1}
+                                            onChange={() => handleSelect(version.id, true)}
+                                        />
+                                        Compare
+                                    </label>
+                                </li>
+                            ))}
+                        </ol>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default VersionTimeline;
@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { cn } from "../../lib/utils";
-import React, { useRef } from "react";
+import React, { useEffect, useRef } from "react";
 import {
   motion,
   useMotionValue,
@@ -21,15 +21,27 @@ export const DraggableCardBody = ({
   dragConstraintsRef,
   onDrag,
   onDragStart,
+  position,
+  rotation,
+  onDragSettle,
 }: {
   className?: string;
   children?: React.ReactNode;
   dragConstraintsRef?: React.RefObject<HTMLElement>;
   onDrag?: (event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => void;
   onDragStart?: (event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => void;
+  /** Where the card sits, in pixels from where it is laid out; it glides there when this changes. */
+  position?: { x: number; y: number };
+  /** In degrees. */
+  rotation?: number;
+  /** Called with the card's position once it has stopped moving after a drag, momentum included. */
+  onDragSettle?: (position: { x: number; y: number }) => void;
 }) => {
   const mouseX = useMotionValue(0);
   const mouseY = useMotionValue(0);
+  const x = useMotionValue(position?.x ?? 0);
+  const y = useMotionValue(position?.y ?? 0);
+  const rotate = useMotionValue(rotation ?? 0);
   const cardRef = useRef<HTMLDivElement>(null);
   const controls = useAnimationControls();
  
@@ -61,6 +73,29 @@ export const DraggableCardBody = ({
     springConfig,
   );
  
+  // Follow position changes made elsewhere, such as tidying the board. After a drag the
+  // new position is where the card already is, so nothing moves. The first position
+  // is only known once the board has been measured; the card starts out there.
+  const hasPosition = useRef(!!position);
+  useEffect(() => {
+    if (!position) return;
+    if (!hasPosition.current) {
+      hasPosition.current = true;
+      x.set(position.x);
+      y.set(position.y);
+      return;
+    }
+    const glide = { type: "spring" as const, stiffness: 120, damping: 20 };
+    const animations = [animate(x, position.x, glide), animate(y, position.y, glide)];
+    return () => animations.forEach(animation => animation.stop());
+  }, [position?.x, position?.y]);
+
+  useEffect(() => {
+    if (rotation === undefined) return;
+    const animation = animate(rotate, rotation, { type: "spring", stiffness: 120, damping: 20 });
+    return () => animation.stop();
+  }, [rotation]);
+
   const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
     // Don't apply hover effect while dragging
     if (cardRef.current && cardRef.current.style.transform.includes('translate3d')) return;
@@ -136,7 +171,11 @@ export const DraggableCardBody = ({
           mass: 0.8,
         });
       }}
+      onDragTransitionEnd={() => onDragSettle?.({ x: x.get(), y: y.get() })}
       style={{
+        x,
+        y,
+        rotate,
         rotateX,
         rotateY,
         opacity,
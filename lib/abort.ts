@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Returns true for the error thrown when an AbortSignal cancels an operation.
+ */
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError'
+        || error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Creates the same error `fetch` throws when it is aborted.
+ */
+export function createAbortError(): DOMException {
+    return new DOMException('The operation was cancelled.', 'AbortError');
+}
+
+/**
+ * Throws an AbortError if `signal` has already been aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw createAbortError();
+    }
+}
+
+/**
+ * Waits for `ms` milliseconds, rejecting with an AbortError as soon as `signal` is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Settles like `promise`, but rejects with an AbortError as soon as `signal` is aborted.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => reject(createAbortError());
+        signal?.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal?.removeEventListener('abort', onAbort));
+    });
+}
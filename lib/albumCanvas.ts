@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * What album drawing needs from wherever it runs. The page's DOM, a worker's
+ * OffscreenCanvas and a headless script's canvas library each provide these, so the
+ * same drawing code makes the same album in all of them.
+ */
+
+// Helper function to load an image and return it as an HTMLImageElement
+export function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        // Setting crossOrigin is good practice for canvas operations, even with data URLs
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = (err) => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
+        img.src = src;
+    });
+}
+
+export type AlbumContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * A canvas albums can be drawn on. HTMLCanvasElement and OffscreenCanvas both are.
+ */
+export interface AlbumCanvas {
+    width: number;
+    height: number;
+    getContext(contextId: '2d'): AlbumContext | null;
+}
+
+/** A decoded photo. Its width and height are its natural size. */
+export type AlbumImage = HTMLImageElement | ImageBitmap;
+
+export interface AlbumCanvasEnvironment {
+    createCanvas(width: number, height: number): AlbumCanvas;
+    loadImage(src: string): Promise<AlbumImage>;
+    encodeJpeg(canvas: AlbumCanvas, quality: number): Promise<Blob>;
+    /**
+     * Makes the fonts, given as CSS font shorthands, ready to draw with. Rejects if
+     * they can't be loaded; drawing then falls back to other fonts.
+     */
+    loadFonts(fonts: readonly string[]): Promise<void>;
+}
+
+/**
+ * Draws on the page's own canvases. Works anywhere there is a document, at the cost
+ * of doing all the work on the main thread.
+ */
+export const domEnvironment: AlbumCanvasEnvironment = {
+    createCanvas(width, height) {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        return canvas;
+    },
+    loadImage,
+    encodeJpeg(canvas, quality) {
+        return new Promise((resolve, reject) => {
+            (canvas as HTMLCanvasElement).toBlob(blob => {
+                if (blob) resolve(blob);
+                else reject(new Error('Could not encode the album page'));
+            }, 'image/jpeg', quality);
+        });
+    },
+    async loadFonts(fonts) {
+        await Promise.all(fonts.map(font => document.fonts.load(font)));
+    },
+};
+
+/**
+ * Whether this browser can draw albums in a worker: OffscreenCanvas with a 2D context,
+ * and createImageBitmap to decode photos there.
+ */
+export function supportsOffscreenRendering(): boolean {
+    if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+        return false;
+    }
+    try {
+        return new OffscreenCanvas(1, 1).getContext('2d') !== null;
+    } catch {
+        return false;
+    }
+}
+
+interface FontFaceRule {
+    family: string;
+    source: string;
+    descriptors: FontFaceDescriptors;
+}
+
+// Reads the @font-face rules out of a stylesheet such as Google Fonts serves.
+function parseFontFaces(css: string): FontFaceRule[] {
+    const rules: FontFaceRule[] = [];
+    for (const [, body] of css.matchAll(/@font-face\s*{([^}]*)}/g)) {
+        const declaration = (name: string) => body.match(new RegExp(`${name}\\s*:\\s*([^;]+);`))?.[1].trim();
+        const family = declaration('font-family')?.replace(/^['"]|['"]$/g, '');
+        const source = declaration('src');
+        if (!family || !source) continue;
+        rules.push({
+            family,
+            source,
+            descriptors: {
+                style: declaration('font-style'),
+                weight: declaration('font-weight'),
+                unicodeRange: declaration('unicode-range'),
+            },
+        });
+    }
+    return rules;
+}
+
+/**
+ * Draws on OffscreenCanvases, for use inside a worker. Workers don't share the page's
+ * fonts, so they are loaded again from the page's font stylesheets.
+ * @param fontStylesheets URLs of stylesheets with the @font-face rules for the album fonts.
+ */
+export function createOffscreenEnvironment(fontStylesheets: readonly string[]): AlbumCanvasEnvironment {
+    return {
+        createCanvas: (width, height) => new OffscreenCanvas(width, height),
+        async loadImage(src) {
+            const response = await fetch(src);
+            if (!response.ok) {
+                throw new Error(`Failed to load image: ${src.substring(0, 50)}...`);
+            }
+            return createImageBitmap(await response.blob());
+        },
+        encodeJpeg: (canvas, quality) => (canvas as OffscreenCanvas).convertToBlob({ type: 'image/jpeg', quality }),
+        async loadFonts(fonts) {
+            // Workers have their own FontFaceSet, which the DOM typings don't know about.
+            const fontSet = (globalThis as unknown as { fonts?: FontFaceSet }).fonts;
+            if (!fontSet) {
+                throw new Error('Fonts cannot be loaded in this worker');
+            }
+            const stylesheets = await Promise.all(fontStylesheets.map(async url => {
+                const response = await fetch(url);
+                if (!response.ok) {
+                    throw new Error(`Failed to load font stylesheet: ${url}`);
+                }
+                return response.text();
+            }));
+            for (const { family, source, descriptors } of stylesheets.flatMap(parseFontFaces)) {
+                fontSet.add(new FontFace(family, source, descriptors));
+            }
+            await Promise.all(fonts.map(font => fontSet.load(font)));
+        },
+    };
+}
+
+/**
+ * Reads a blob, such as an encoded page, into a data URL. Uses only what pages, workers
+ * and Node all have, unlike FileReader.
+ */
+export async function blobToDataUrl(blob: Blob): Promise<string> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    // In chunks, as spreading a whole page into one call overflows the argument limit.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+}
+
+/**
+ * Frees the memory held by decoded photos; ImageBitmaps otherwise keep it until they
+ * are garbage collected.
+ */
+export function releaseImages(images: (AlbumImage | null)[]) {
+    for (const img of images) {
+        if (img && 'close' in img) img.close();
+    }
+}
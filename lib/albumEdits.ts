@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * Changes made in the album editor, kept apart from the template so the template's
+ * layout stays the starting point. Everything is in page pixels, like AlbumSlot, so
+ * the editor and every export draw the same thing.
+ */
+
+export type AlbumDecorationKind = 'stamp' | 'ribbon' | 'wax-seal';
+
+export const ALBUM_DECORATIONS: readonly { kind: AlbumDecorationKind; name: string }[] = [
+    { kind: 'stamp', name: 'Stamp' },
+    { kind: 'ribbon', name: 'Ribbon' },
+    { kind: 'wax-seal', name: 'Wax seal' },
+];
+
+/**
+ * Where an item sits on its page. `scale` multiplies the item's natural size: the
+ * template's slot for a polaroid, the built-in size for anything else.
+ */
+export interface AlbumPlacement {
+    centerX: number;
+    centerY: number;
+    /** Radians, clockwise. */
+    rotation: number;
+    scale: number;
+}
+
+interface AlbumElementBase extends AlbumPlacement {
+    id: string;
+    /** 1-based; elements on pages the album no longer has aren't drawn. */
+    page: number;
+}
+
+export type AlbumElement =
+    | (AlbumElementBase & { kind: 'text'; text: string })
+    | (AlbumElementBase & { kind: AlbumDecorationKind });
+
+export interface AlbumEdits {
+    /** Polaroids the user has moved, rotated or resized, by scene id. */
+    placements: Record<string, AlbumPlacement>;
+    /** Replacement captions, by scene id. */
+    captions: Record<string, string>;
+    /** Text blocks and decorations, in the order they were added. */
+    elements: AlbumElement[];
+    /** Stacking position by item key, for items the user has brought forward or sent back. */
+    layers: Record<string, number>;
+}
+
+export const EMPTY_ALBUM_EDITS: AlbumEdits = { placements: {}, captions: {}, elements: [], layers: {} };
+
+/** Keys items across polaroids and elements, for selection and layering. */
+export const polaroidKey = (sceneId: string) => `scene:${sceneId}`;
+
+/** Added elements stack above the template's polaroids until re-layered. */
+export const ELEMENT_LAYER_BASE = 1000;
+
+export function createElementId(): string {
+    return `element-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * What the editor needs to know about an item that is already on the page.
+ */
+export interface AlbumItemRef extends AlbumPlacement {
+    key: string;
+    /** Set for polaroids. */
+    sceneId?: string;
+    layer: number;
+}
+
+export function placeItem(edits: AlbumEdits, item: AlbumItemRef, changes: Partial<AlbumPlacement>): AlbumEdits {
+    const { centerX, centerY, rotation, scale } = item;
+    if (item.sceneId) {
+        return { ...edits, placements: { ...edits.placements, [item.sceneId]: { centerX, centerY, rotation, scale, ...changes } } };
+    }
+    return { ...edits, elements: edits.elements.map(element => element.id === item.key ? { ...element, ...changes } : element) };
+}
+
+/**
+ * Moves an item above, or below, everything else on its page.
+ */
+export function restackItem(edits: AlbumEdits, pageItems: AlbumItemRef[], key: string, toFront: boolean): AlbumEdits {
+    const layers = pageItems.map(item => item.layer);
+    const layer = toFront ? Math.max(...layers) + 1 : Math.min(...layers) - 1;
+    return { ...edits, layers: { ...edits.layers, [key]: layer } };
+}
+
+export function addElement(edits: AlbumEdits, element: AlbumElement): AlbumEdits {
+    return { ...edits, elements: [...edits.elements, element] };
+}
+
+export function removeElement(edits: AlbumEdits, id: string): AlbumEdits {
+    const { [id]: _removed, ...layers } = edits.layers;
+    return { ...edits, elements: edits.elements.filter(element => element.id !== id), layers };
+}
+
+export function setElementText(edits: AlbumEdits, id: string, text: string): AlbumEdits {
+    return { ...edits, elements: edits.elements.map(element => element.id === id && element.kind === 'text' ? { ...element, text } : element) };
+}
+
+export function setCaption(edits: AlbumEdits, sceneId: string, caption: string): AlbumEdits {
+    return { ...edits, captions: { ...edits.captions, [sceneId]: caption } };
+}
+
+/**
+ * Drops the polaroid placements and stacking, which only make sense for the template
+ * they were made on. Captions and added elements are kept.
+ */
+export function resetLayout(edits: AlbumEdits): AlbumEdits {
+    return { ...edits, placements: {}, layers: {} };
+}
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * Album pages are laid out here as plain geometry, separately from drawing, so every
+ * renderer places the polaroids in exactly the same spots.
+ */
+import type { PdfPaperSize } from './pdfWriter';
+import { DEFAULT_PRINT_SETTINGS } from './printLayout';
+import type { PrintSettings } from './printLayout';
+import { EMPTY_ALBUM_EDITS } from './albumEdits';
+import type { AlbumEdits } from './albumEdits';
+
+export type AlbumTemplateId = 'grid' | 'scrapbook' | 'hero' | 'landscape';
+
+export interface AlbumTemplate {
+    id: AlbumTemplateId;
+    name: string;
+    description: string;
+    /** How many scenes fit on one page. */
+    perPage: number;
+}
+
+export const ALBUM_TEMPLATES: readonly AlbumTemplate[] = [
+    { id: 'grid', name: 'Grid', description: 'Six polaroids in neat rows.', perPage: 6 },
+    { id: 'scrapbook', name: 'Scrapbook', description: 'Overlapping polaroids, scattered by hand.', perPage: 5 },
+    { id: 'hero', name: 'Hero', description: 'One large polaroid above a row of small ones.', perPage: 5 },
+    { id: 'landscape', name: 'Landscape spread', description: 'Two facing pages on a wide sheet.', perPage: 8 },
+];
+
+/** What to do with scenes that have no finished image. */
+export type MissingSceneHandling = 'placeholder' | 'skip';
+
+/** A JPEG per page, one PDF with a cover, or a PDF made for a print shop. */
+export type AlbumFormat = 'jpeg' | 'pdf' | 'print';
+
+export interface AlbumSettings {
+    template: AlbumTemplateId;
+    title: string;
+    subtitle: string;
+    missingScenes: MissingSceneHandling;
+    format: AlbumFormat;
+    /** Only used for PDFs, including print. */
+    paperSize: PdfPaperSize;
+    print: PrintSettings;
+    /** Written into the PDF's metadata and onto its cover; may be empty. */
+    author: string;
+    /** What the user changed in the album editor. */
+    edits: AlbumEdits;
+}
+
+export const DEFAULT_ALBUM_SETTINGS: AlbumSettings = {
+    template: 'grid',
+    title: 'My Violet Evergarden Album',
+    subtitle: 'Created with Google AI Studio',
+    missingScenes: 'placeholder',
+    format: 'jpeg',
+    paperSize: 'a4',
+    print: DEFAULT_PRINT_SETTINGS,
+    author: '',
+    edits: EMPTY_ALBUM_EDITS,
+};
+
+/** Polaroids are taller than they are wide by this factor. */
+export const POLAROID_ASPECT_RATIO = 1.2;
+
+/**
+ * Where one polaroid goes on a page. Coordinates are page pixels; the polaroid is
+ * centred on (centerX, centerY) and rotated about that point.
+ */
+export interface AlbumSlot {
+    /** Index into the album's entries. */
+    entryIndex: number;
+    centerX: number;
+    centerY: number;
+    width: number;
+    height: number;
+    /** Radians, clockwise. */
+    rotation: number;
+}
+
+export interface AlbumPageLayout {
+    width: number;
+    height: number;
+    /** 1-based. */
+    pageNumber: number;
+    pageCount: number;
+    /** The height of the band at the top holding the title (first page) or running title. */
+    headerHeight: number;
+    /** For spreads: draw a fold down the middle. */
+    fold: boolean;
+    /** In drawing order; later slots overlap earlier ones. */
+    slots: AlbumSlot[];
+}
+
+const PORTRAIT = { width: 2480, height: 3508 };
+const LANDSCAPE = { width: 3508, height: 2480 };
+
+interface Area {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * A small tilt that looks hand-placed but is the same every time the album is drawn.
+ * @returns Radians, roughly within ±0.05.
+ */
+export function slotTilt(entryIndex: number): number {
+    const noise = Math.sin((entryIndex + 1) * 12.9898) * 43758.5453;
+    return (noise - Math.floor(noise) - 0.5) * 0.1;
+}
+
+/** The largest polaroid that fits in a box, keeping its shape. */
+function fitPolaroid(maxWidth: number, maxHeight: number): { width: number; height: number } {
+    const width = Math.min(maxWidth, maxHeight / POLAROID_ASPECT_RATIO);
+    return { width, height: width * POLAROID_ASPECT_RATIO };
+}
+
+function gridSlots(area: Area, cols: number, rows: number, padding: number, entryIndexes: number[]): AlbumSlot[] {
+    const cellWidth = (area.width - padding * (cols + 1)) / cols;
+    const cellHeight = (area.height - padding * (rows + 1)) / rows;
+    const size = fitPolaroid(cellWidth * 0.9, cellHeight * 0.9);
+    return entryIndexes.map((entryIndex, position) => {
+        const row = Math.floor(position / cols);
+        const col = position % cols;
+        return {
+            entryIndex,
+            centerX: area.x + padding * (col + 1) + cellWidth * col + cellWidth / 2,
+            centerY: area.y + padding * (row + 1) + cellHeight * row + cellHeight / 2,
+            ...size,
+            rotation: slotTilt(entryIndex),
+        };
+    });
+}
+
+// Centres for the scrapbook template, as fractions of the content area, with their base tilts.
+const SCRAPBOOK_SPOTS = [
+    { x: 0.3, y: 0.17, tilt: -0.12 },
+    { x: 0.71, y: 0.3, tilt: 0.1 },
+    { x: 0.33, y: 0.5, tilt: 0.07 },
+    { x: 0.69, y: 0.68, tilt: -0.09 },
+    { x: 0.34, y: 0.84, tilt: 0.13 },
+];
+
+function scrapbookSlots(area: Area, entryIndexes: number[]): AlbumSlot[] {
+    const size = fitPolaroid(area.width * 0.46, area.height * 0.34);
+    return entryIndexes.map((entryIndex, position) => {
+        const spot = SCRAPBOOK_SPOTS[position];
+        return {
+            entryIndex,
+            centerX: area.x + area.width * spot.x,
+            centerY: area.y + area.height * spot.y,
+            ...size,
+            rotation: spot.tilt + slotTilt(entryIndex),
+        };
+    });
+}
+
+function heroSlots(area: Area, entryIndexes: number[]): AlbumSlot[] {
+    const [heroIndex, ...thumbIndexes] = entryIndexes;
+    const padding = 80;
+    const thumbCols = 4;
+    const thumb = fitPolaroid((area.width - padding * (thumbCols + 1)) / thumbCols, area.height * 0.22);
+    const hero = fitPolaroid(area.width * 0.62, area.height - thumb.height - padding * 3);
+    const totalHeight = hero.height + (thumbIndexes.length > 0 ? padding + thumb.height : 0);
+    const top = area.y + (area.height - totalHeight) / 2;
+    const thumbRowWidth = thumbIndexes.length * thumb.width + (thumbIndexes.length - 1) * padding;
+    return [
+        { entryIndex: heroIndex, centerX: area.x + area.width / 2, centerY: top + hero.height / 2, ...hero, rotation: slotTilt(heroIndex) / 2 },
+        ...thumbIndexes.map((entryIndex, position) => ({
+            entryIndex,
+            centerX: area.x + (area.width - thumbRowWidth) / 2 + position * (thumb.width + padding) + thumb.width / 2,
+            centerY: top + hero.height + padding + thumb.height / 2,
+            ...thumb,
+            rotation: slotTilt(entryIndex),
+        })),
+    ];
+}
+
+/**
+ * Splits an album's entries into pages and places each one.
+ * @param entryCount How many polaroids the album has.
+ */
+export function layoutAlbum(entryCount: number, templateId: AlbumTemplateId): AlbumPageLayout[] {
+    const template = ALBUM_TEMPLATES.find(candidate => candidate.id === templateId) ?? ALBUM_TEMPLATES[0];
+    const page = template.id === 'landscape' ? LANDSCAPE : PORTRAIT;
+    const pageCount = Math.max(1, Math.ceil(entryCount / template.perPage));
+
+    return Array.from({ length: pageCount }, (_, pageIndex) => {
+        // The first page carries the full title; later ones a smaller running title.
+        const headerHeight = pageIndex === 0 ? (template.id === 'landscape' ? 260 : 320) : 180;
+        const footerHeight = pageCount > 1 ? 100 : 0;
+        const area = { x: 0, y: headerHeight, width: page.width, height: page.height - headerHeight - footerHeight };
+        const first = pageIndex * template.perPage;
+        const entryIndexes = Array.from({ length: Math.min(template.perPage, entryCount - first) }, (_, i) => first + i);
+
+        let slots: AlbumSlot[];
+        switch (template.id) {
+            case 'scrapbook':
+                slots = scrapbookSlots(area, entryIndexes);
+                break;
+            case 'hero':
+                slots = entryIndexes.length > 0 ? heroSlots(area, entryIndexes) : [];
+                break;
+            case 'landscape': {
+                const half = page.width / 2;
+                slots = [
+                    ...gridSlots({ ...area, width: half }, 2, 2, 80, entryIndexes.slice(0, 4)),
+                    ...gridSlots({ ...area, x: half, width: half }, 2, 2, 80, entryIndexes.slice(4)),
+                ];
+                break;
+            }
+            default:
+                // Bottom rows are drawn first so the rows above overlap them, as when stacked by hand.
+                slots = gridSlots(area, 2, 3, 100, entryIndexes).reverse();
+        }
+        return { ...page, pageNumber: pageIndex + 1, pageCount, headerHeight, fold: template.id === 'landscape', slots };
+    });
+}
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AlbumSettings } from './albumLayouts';
+import { renderAlbum } from './albumUtils';
+import type { AlbumEntry, AlbumOutput, AlbumRenderProgress } from './albumUtils';
+import { supportsOffscreenRendering } from './albumCanvas';
+
+/*
+ * Albums are drawn in a worker so decoding full-size photos and filling print-size
+ * canvases doesn't stall the page's animations. Browsers that can't draw in a worker
+ * get the same renderer on the main thread instead.
+ */
+
+export interface AlbumWorkerRequest {
+    entries: AlbumEntry[];
+    settings: AlbumSettings;
+    /** When the album was made, in milliseconds since the epoch. */
+    date: number;
+    /** Stylesheets with the album fonts, which the worker loads for itself. */
+    fontStylesheets: string[];
+}
+
+export type AlbumWorkerMessage =
+    | { type: 'progress'; progress: AlbumRenderProgress }
+    | { type: 'done'; output: AlbumOutput }
+    /** `unsupported` is set when the worker can't draw at all, rather than failing on this album. */
+    | { type: 'error'; message: string; unsupported: boolean };
+
+/**
+ * Thrown when the album worker can't be used, so the album is drawn on the main thread.
+ */
+export class AlbumWorkerUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AlbumWorkerUnavailableError';
+    }
+}
+
+/**
+ * How long the worker may go without reporting back before it is given up on. Every
+ * photo and page reports progress, so a working worker never goes this long.
+ */
+const WORKER_STALL_MS = 60000;
+
+const FONT_STYLESHEET_ORIGIN = 'https://fonts.googleapis.com/';
+
+function fontStylesheets(): string[] {
+    return Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]'), link => link.href)
+        .filter(href => href.startsWith(FONT_STYLESHEET_ORIGIN));
+}
+
+function renderInWorker(request: AlbumWorkerRequest, onProgress?: (progress: AlbumRenderProgress) => void): Promise<AlbumOutput> {
+    return new Promise((resolve, reject) => {
+        let worker: Worker;
+        try {
+            worker = new Worker(new URL('./albumWorker.ts', import.meta.url), { type: 'module' });
+        } catch (error) {
+            reject(new AlbumWorkerUnavailableError(`Could not start the album worker: ${error}`));
+            return;
+        }
+        let stallTimer: ReturnType<typeof setTimeout> | undefined;
+        const stop = () => {
+            clearTimeout(stallTimer);
+            worker.terminate();
+        };
+        const watchForStall = () => {
+            clearTimeout(stallTimer);
+            stallTimer = setTimeout(() => {
+                stop();
+                reject(new AlbumWorkerUnavailableError(`The album worker stopped responding for ${WORKER_STALL_MS / 1000} seconds`));
+            }, WORKER_STALL_MS);
+        };
+        worker.onmessage = (event: MessageEvent<AlbumWorkerMessage>) => {
+            const message = event.data;
+            if (message.type === 'progress') {
+                watchForStall();
+                onProgress?.(message.progress);
+                return;
+            }
+            stop();
+            if (message.type === 'done') resolve(message.output);
+            else reject(message.unsupported ? new AlbumWorkerUnavailableError(message.message) : new Error(message.message));
+        };
+        // Only raised when the worker's script fails to load or run; rendering errors come back as messages.
+        worker.onerror = (event: ErrorEvent) => {
+            event.preventDefault();
+            stop();
+            reject(new AlbumWorkerUnavailableError(`The album worker failed: ${event.message}`));
+        };
+        worker.postMessage(request);
+        watchForStall();
+    });
+}
+
+/**
+ * Draws an album in the format its settings ask for, off the main thread where the
+ * browser allows it.
+ * @param entries The scenes to include, in order, already filtered with albumEntriesFor.
+ */
+export async function renderAlbumInBackground(entries: AlbumEntry[], settings: AlbumSettings, onProgress?: (progress: AlbumRenderProgress) => void): Promise<AlbumOutput> {
+    const date = new Date();
+    if (supportsOffscreenRendering()) {
+        try {
+            return await renderInWorker({ entries, settings, date: date.getTime(), fontStylesheets: fontStylesheets() }, onProgress);
+        } catch (error) {
+            if (!(error instanceof AlbumWorkerUnavailableError)) throw error;
+            console.warn("Drawing the album on the main thread instead:", error);
+        }
+    }
+    return renderAlbum(entries, settings, date, { onProgress });
+}
+
+/**
+ * The label for a button while an album is being made.
+ */
+export function albumProgressLabel(progress: AlbumRenderProgress | null): string {
+    if (!progress || progress.total === 0) return 'Creating Album...';
+    return `Creating Album... ${Math.round(progress.completed / progress.total * 100)}%`;
+}
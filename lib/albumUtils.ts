@@ -2,154 +2,718 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-// Helper function to load an image and return it as an HTMLImageElement
-function loadImage(src: string): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        // Setting crossOrigin is good practice for canvas operations, even with data URLs
-        img.crossOrigin = 'anonymous';
-        img.onload = () => resolve(img);
-        img.onerror = (err) => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
-        img.src = src;
-    });
+import { layoutAlbum, POLAROID_ASPECT_RATIO, slotTilt } from './albumLayouts';
+import type { AlbumPageLayout, AlbumSettings, AlbumSlot } from './albumLayouts';
+import { PDF_PAPER_SIZES, writeImagePdf, writePdf } from './pdfWriter';
+import type { PdfImagePage, PdfPage } from './pdfWriter';
+import { albumPrintGeometry, layoutPolaroidSheets, MIN_PRINT_PPI, mmToPoints, pointsToPixels, printedPhotoWidths } from './printLayout';
+import type { PolaroidSheetLayout } from './printLayout';
+import { ELEMENT_LAYER_BASE, polaroidKey } from './albumEdits';
+import type { AlbumDecorationKind, AlbumItemRef } from './albumEdits';
+import { blobToDataUrl, domEnvironment, loadImage, releaseImages } from './albumCanvas';
+import type { AlbumCanvas, AlbumCanvasEnvironment, AlbumContext, AlbumImage } from './albumCanvas';
+
+/**
+ * One polaroid in an album. Scenes without a finished image have no `imageUrl`.
+ */
+export interface AlbumEntry {
+    /** The scene's id, which the editor's changes are keyed by. */
+    id: string;
+    caption: string;
+    imageUrl?: string;
 }
 
 /**
- * Creates a single "photo album" page image from a collection of scene images.
- * @param imageData A record mapping scene strings to their image data URLs.
- * @returns A promise that resolves to a data URL of the generated album page (JPEG format).
+ * The entries that go into the album: all of them with placeholders for the missing
+ * images, or only the finished ones.
  */
-export async function createAlbumPage(imageData: Record<string, string>): Promise<string> {
-    const canvas = document.createElement('canvas');
-    // High-resolution canvas for good quality (A4-like ratio)
-    const canvasWidth = 2480;
-    const canvasHeight = 3508;
-    canvas.width = canvasWidth;
-    canvas.height = canvasHeight;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-        throw new Error('Could not get 2D canvas context');
+export function albumEntriesFor(entries: AlbumEntry[], settings: Pick<AlbumSettings, 'missingScenes'>): AlbumEntry[] {
+    return settings.missingScenes === 'skip' ? entries.filter(entry => entry.imageUrl) : entries;
+}
+
+/**
+ * Loads what drawing an album needs: the photos, and the web fonts, which the browser
+ * otherwise only fetches once the page itself uses them.
+ * @param onLoaded Called as each photo finishes loading.
+ * @returns The photos by entry index; null where an entry has none.
+ */
+export async function loadAlbumImages(entries: AlbumEntry[], environment: AlbumCanvasEnvironment = domEnvironment, onLoaded?: () => void): Promise<(AlbumImage | null)[]> {
+    await environment.loadFonts(ALBUM_FONTS).catch(error => {
+        console.warn('Could not load the album fonts:', error);
+    });
+    const images = await Promise.allSettled(entries.map(async entry => {
+        if (!entry.imageUrl) return null;
+        const img = await environment.loadImage(entry.imageUrl);
+        onLoaded?.();
+        return img;
+    }));
+    const failed = images.find(result => result.status === 'rejected');
+    if (failed) {
+        // Don't leave the photos that did load holding on to their memory.
+        releaseImages(images.map(result => result.status === 'fulfilled' ? result.value : null));
+        throw failed.reason;
     }
+    return images.map(result => (result as PromiseFulfilledResult<AlbumImage | null>).value);
+}
+
+/** How far an album has got, in photos loaded plus pages drawn. */
+export interface AlbumRenderProgress {
+    completed: number;
+    total: number;
+}
+
+export interface AlbumRenderOptions {
+    /** Where to draw; the page's DOM unless given. */
+    environment?: AlbumCanvasEnvironment;
+    onProgress?: (progress: AlbumRenderProgress) => void;
+}
+
+/**
+ * Counts out an album's work: one step for each photo, then one for each page.
+ * @returns A function to call as each step finishes.
+ */
+function trackProgress(entries: AlbumEntry[], pageCount: number, onProgress?: (progress: AlbumRenderProgress) => void): () => void {
+    const total = entries.filter(entry => entry.imageUrl).length + pageCount;
+    let completed = 0;
+    onProgress?.({ completed, total });
+    return () => onProgress?.({ completed: ++completed, total });
+}
 
-    // 1. Draw the album page background
-    ctx.fillStyle = '#fdf5e6'; // A warm, parchment-like color
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+const ALBUM_FONTS = [`60px 'Great Vibes'`, `60px 'Caveat'`, `60px 'Lato'`];
 
-    // 2. Draw the title
+// The original single-page grid drew 697px-wide polaroids; other sizes scale from it.
+const REFERENCE_POLAROID_WIDTH = 697;
+
+function drawHeader(ctx: AlbumContext, page: AlbumPageLayout, settings: AlbumSettings) {
     ctx.fillStyle = '#333';
     ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    if (page.pageNumber === 1) {
+        ctx.font = `150px 'Great Vibes', cursive`;
+        ctx.fillText(settings.title, page.width / 2, page.headerHeight * 0.56);
+        if (settings.subtitle) {
+            ctx.font = `50px 'Lato', sans-serif`;
+            ctx.fillStyle = '#555';
+            ctx.fillText(settings.subtitle, page.width / 2, page.headerHeight * 0.78);
+        }
+    } else {
+        ctx.font = `90px 'Great Vibes', cursive`;
+        ctx.fillText(settings.title, page.width / 2, page.headerHeight * 0.65);
+    }
+}
 
-    ctx.font = `150px 'Great Vibes', cursive`;
-    ctx.fillText('My Violet Evergarden Album', canvasWidth / 2, 180);
+/**
+ * Sets a drop shadow given in the current drawing units. Canvas shadows ignore the
+ * transform, so without this they would change size with the resolution drawn at.
+ */
+function castShadow(ctx: AlbumContext, color: string, blur: number, offsetX: number, offsetY: number) {
+    const transform = ctx.getTransform();
+    const deviceScale = Math.hypot(transform.a, transform.b);
+    ctx.shadowColor = color;
+    ctx.shadowBlur = blur * deviceScale;
+    ctx.shadowOffsetX = offsetX * deviceScale;
+    ctx.shadowOffsetY = offsetY * deviceScale;
+}
 
-    ctx.font = `50px 'Lato', sans-serif`;
-    ctx.fillStyle = '#555';
-    ctx.fillText('Created with Google AI Studio', canvasWidth / 2, 250);
+/**
+ * @param shadow Off for polaroids that are going to be cut out.
+ */
+function drawPolaroid(ctx: AlbumContext, slot: AlbumSlot, caption: string, img: AlbumImage | null, shadow = true) {
+    const { width: polaroidWidth, height: polaroidHeight } = slot;
+    const scale = polaroidWidth / REFERENCE_POLAROID_WIDTH;
+    const imageContainerWidth = polaroidWidth * 0.9;
+    const imageContainerHeight = imageContainerWidth; // Classic square-ish photo area
 
-    // 3. Load all the polaroid images concurrently
-    const scenes = Object.keys(imageData);
-    const loadedImages = await Promise.all(
-        Object.values(imageData).map(url => loadImage(url))
-    );
+    ctx.save();
+    ctx.translate(slot.centerX, slot.centerY);
+    ctx.rotate(slot.rotation);
 
-    const imagesWithScenes = scenes.map((scene, index) => ({
-        scene,
-        img: loadedImages[index],
-    }));
+    // Draw a soft shadow under the white frame
+    if (shadow) {
+        castShadow(ctx, 'rgba(0, 0, 0, 0.3)', 35 * scale, 5 * scale, 10 * scale);
+    }
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(-polaroidWidth / 2, -polaroidHeight / 2, polaroidWidth, polaroidHeight);
+    ctx.shadowColor = 'transparent';
+
+    const imageAreaTopMargin = (polaroidWidth - imageContainerWidth) / 2;
+    const imageContainerY = -polaroidHeight / 2 + imageAreaTopMargin;
+
+    if (img) {
+        // Fit the image inside its area, keeping its aspect ratio
+        const aspectRatio = img.width / img.height;
+        let drawWidth = imageContainerWidth;
+        let drawHeight = drawWidth / aspectRatio;
+        if (drawHeight > imageContainerHeight) {
+            drawHeight = imageContainerHeight;
+            drawWidth = drawHeight * aspectRatio;
+        }
+        ctx.drawImage(img, -drawWidth / 2, imageContainerY + (imageContainerHeight - drawHeight) / 2, drawWidth, drawHeight);
+    } else {
+        // A blank, undeveloped photo stands in for a scene that didn't finish.
+        ctx.fillStyle = '#e7e2da';
+        ctx.fillRect(-imageContainerWidth / 2, imageContainerY, imageContainerWidth, imageContainerHeight);
+        ctx.fillStyle = '#8a8177';
+        ctx.font = `${Math.round(36 * scale)}px 'Lato', sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('Not developed', 0, imageContainerY + imageContainerHeight / 2);
+    }
 
-    // 4. Define grid layout and draw each polaroid
-    const grid = { cols: 2, rows: 3, padding: 100 };
-    const contentTopMargin = 320; // Space for the header
-    const contentHeight = canvasHeight - contentTopMargin;
-    const cellWidth = (canvasWidth - grid.padding * (grid.cols + 1)) / grid.cols;
-    const cellHeight = (contentHeight - grid.padding * (grid.rows + 1)) / grid.rows;
+    // Draw the handwritten caption
+    ctx.fillStyle = '#222';
+    ctx.font = `${Math.round(60 * scale)}px 'Caveat', cursive`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const captionAreaTop = imageContainerY + imageContainerHeight;
+    const captionAreaBottom = polaroidHeight / 2;
+    ctx.fillText(caption, 0, captionAreaTop + (captionAreaBottom - captionAreaTop) / 2);
+
+    ctx.restore();
+}
 
-    // Calculate polaroid dimensions to fit inside the grid cell with a margin
-    const polaroidAspectRatio = 1.2; // height is 1.2 times width
-    const maxPolaroidWidth = cellWidth * 0.9;
-    const maxPolaroidHeight = cellHeight * 0.9;
+// Natural sizes of the decorations, in page pixels at scale 1.
+const DECORATION_SIZES: Record<AlbumDecorationKind, { width: number; height: number }> = {
+    stamp: { width: 260, height: 310 },
+    ribbon: { width: 720, height: 110 },
+    'wax-seal': { width: 230, height: 230 },
+};
+
+const TEXT_BLOCK_FONT_SIZE = 90;
+const TEXT_BLOCK_LINE_HEIGHT = 1.2;
+
+function drawStamp(ctx: AlbumContext, width: number, height: number) {
+    // Perforations are bitten out of the edge, so whatever is underneath shows through them.
+    const hole = width / 26;
+    const perforate = (from: number, to: number, fixed: number, horizontal: boolean, startAngle: number) => {
+        const count = Math.round(Math.abs(to - from) / (hole * 3));
+        const step = (to - from) / count;
+        for (let i = 0; i < count; i++) {
+            const along = from + step * (i + 0.5);
+            ctx.arc(horizontal ? along : fixed, horizontal ? fixed : along, hole, startAngle, startAngle + Math.PI, true);
+        }
+    };
+    ctx.beginPath();
+    ctx.moveTo(-width / 2, -height / 2);
+    perforate(-width / 2, width / 2, -height / 2, true, Math.PI);
+    ctx.lineTo(width / 2, -height / 2);
+    perforate(-height / 2, height / 2, width / 2, false, Math.PI * 1.5);
+    ctx.lineTo(width / 2, height / 2);
+    perforate(width / 2, -width / 2, height / 2, true, 0);
+    ctx.lineTo(-width / 2, height / 2);
+    perforate(height / 2, -height / 2, -width / 2, false, Math.PI / 2);
+    ctx.closePath();
+    castShadow(ctx, 'rgba(0, 0, 0, 0.25)', 12, 0, 0);
+    ctx.fillStyle = '#fbfaf7';
+    ctx.fill();
+    ctx.shadowColor = 'transparent';
+
+    const inset = width * 0.12;
+    const inner = ctx.createLinearGradient(0, -height / 2, 0, height / 2);
+    inner.addColorStop(0, '#6d83b3');
+    inner.addColorStop(1, '#8a6aa8');
+    ctx.fillStyle = inner;
+    ctx.fillRect(-width / 2 + inset, -height / 2 + inset, width - inset * 2, height - inset * 2);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.beginPath();
+    ctx.arc(0, -height * 0.06, width * 0.18, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.font = `bold ${Math.round(width * 0.11)}px 'Lato', sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillText('POST', 0, height / 2 - inset - width * 0.06);
+}
 
-    let polaroidWidth = maxPolaroidWidth;
-    let polaroidHeight = polaroidWidth * polaroidAspectRatio;
+function drawRibbon(ctx: AlbumContext, width: number, height: number) {
+    const notch = height * 0.45;
+    ctx.beginPath();
+    ctx.moveTo(-width / 2, -height / 2);
+    ctx.lineTo(width / 2, -height / 2);
+    ctx.lineTo(width / 2 - notch, 0);
+    ctx.lineTo(width / 2, height / 2);
+    ctx.lineTo(-width / 2, height / 2);
+    ctx.lineTo(-width / 2 + notch, 0);
+    ctx.closePath();
+    const satin = ctx.createLinearGradient(0, -height / 2, 0, height / 2);
+    satin.addColorStop(0, '#6a3d8f');
+    satin.addColorStop(0.45, '#a77cc7');
+    satin.addColorStop(1, '#5b3380');
+    castShadow(ctx, 'rgba(0, 0, 0, 0.25)', 10, 0, 4);
+    ctx.fillStyle = satin;
+    ctx.fill();
+    ctx.shadowColor = 'transparent';
+    // Stitching along both edges
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.45)';
+    ctx.lineWidth = 3;
+    ctx.setLineDash([14, 10]);
+    for (const y of [-height / 2 + 12, height / 2 - 12]) {
+        ctx.beginPath();
+        ctx.moveTo(-width / 2 + notch + 8, y);
+        ctx.lineTo(width / 2 - notch - 8, y);
+        ctx.stroke();
+    }
+    ctx.setLineDash([]);
+}
 
-    if (polaroidHeight > maxPolaroidHeight) {
-        polaroidHeight = maxPolaroidHeight;
-        polaroidWidth = polaroidHeight / polaroidAspectRatio;
+function drawWaxSeal(ctx: AlbumContext, width: number, height: number, emblem: string) {
+    const radius = Math.min(width, height) / 2;
+    // A wobbly rim, like wax pressed out from under the seal; the same every time it is drawn.
+    ctx.beginPath();
+    for (let i = 0; i <= 72; i++) {
+        const angle = (i / 72) * Math.PI * 2;
+        const r = radius * (0.93 + 0.04 * Math.sin(angle * 5) + 0.03 * Math.sin(angle * 11 + 1));
+        ctx.lineTo(Math.cos(angle) * r, Math.sin(angle) * r);
     }
+    ctx.closePath();
+    const wax = ctx.createRadialGradient(-radius * 0.3, -radius * 0.3, radius * 0.1, 0, 0, radius);
+    wax.addColorStop(0, '#c8333d');
+    wax.addColorStop(1, '#6e0f16');
+    castShadow(ctx, 'rgba(0, 0, 0, 0.35)', 10, 0, 4);
+    ctx.fillStyle = wax;
+    ctx.fill();
+    ctx.shadowColor = 'transparent';
 
-    const imageContainerWidth = polaroidWidth * 0.9;
-    const imageContainerHeight = imageContainerWidth; // Classic square-ish photo area
+    ctx.lineWidth = radius * 0.05;
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.3)';
+    ctx.beginPath();
+    ctx.arc(0, 0, radius * 0.7, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.beginPath();
+    ctx.arc(radius * 0.02, radius * 0.02, radius * 0.66, 0, Math.PI * 2);
+    ctx.stroke();
+
+    ctx.font = `${Math.round(radius * 1.05)}px 'Great Vibes', cursive`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+    ctx.fillText(emblem, radius * 0.03, radius * 0.1);
+    ctx.fillStyle = 'rgba(255, 214, 214, 0.45)';
+    ctx.fillText(emblem, 0, radius * 0.07);
+}
+
+/**
+ * A polaroid, text block or decoration, placed on its page with the editor's changes
+ * applied. Both drawing and the editor's hit-testing work from these.
+ */
+export type AlbumItem = AlbumItemRef & {
+    /** The item's size on the page, scale included. */
+    width: number;
+    height: number;
+} & (
+    | { kind: 'polaroid'; entryIndex: number; caption: string }
+    | { kind: 'text'; text: string }
+    | { kind: AlbumDecorationKind }
+);
 
-    // Reverse the drawing order: draw bottom rows first so top rows are rendered on top
-    const reversedImages = [...imagesWithScenes].reverse();
-    reversedImages.forEach(({ scene, img }, reversedIndex) => {
-        // Calculate the original index to determine grid position
-        const index = imagesWithScenes.length - 1 - reversedIndex;
+let domMeasuringContext: AlbumContext | null = null;
 
-        const row = Math.floor(index / grid.cols);
-        const col = index % grid.cols;
+function textBlockLines(text: string): string[] {
+    return text.split('\n');
+}
 
-        // Calculate top-left corner of the polaroid within its grid cell
-        const x = grid.padding * (col + 1) + cellWidth * col + (cellWidth - polaroidWidth) / 2;
-        const y = contentTopMargin + grid.padding * (row + 1) + cellHeight * row + (cellHeight - polaroidHeight) / 2;
-        
+function measureTextBlock(text: string, ctx: AlbumContext | null): { width: number; height: number } {
+    const lines = textBlockLines(text);
+    let width = TEXT_BLOCK_FONT_SIZE;
+    if (ctx) {
         ctx.save();
-        
-        // Translate context to the center of the polaroid for rotation
-        ctx.translate(x + polaroidWidth / 2, y + polaroidHeight / 2);
-        
-        // Apply a slight, random rotation for a hand-placed look
-        const rotation = (Math.random() - 0.5) * 0.1; // Radians (approx. +/- 2.8 degrees)
-        ctx.rotate(rotation);
-        
-        // Draw a soft shadow
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
-        ctx.shadowBlur = 35;
-        ctx.shadowOffsetX = 5;
-        ctx.shadowOffsetY = 10;
-        
-        // Draw the white polaroid frame (centered at the new origin)
-        ctx.fillStyle = '#fff';
-        ctx.fillRect(-polaroidWidth / 2, -polaroidHeight / 2, polaroidWidth, polaroidHeight);
-        
-        // Remove shadow for subsequent drawing
-        ctx.shadowColor = 'transparent';
-        
-        // Calculate image dimensions to fit while maintaining aspect ratio
-        const aspectRatio = img.naturalWidth / img.naturalHeight;
-        let drawWidth = imageContainerWidth;
-        let drawHeight = drawWidth / aspectRatio;
+        ctx.font = `${TEXT_BLOCK_FONT_SIZE}px 'Caveat', cursive`;
+        width = Math.max(width, ...lines.map(line => ctx.measureText(line).width));
+        ctx.restore();
+    }
+    return { width, height: lines.length * TEXT_BLOCK_FONT_SIZE * TEXT_BLOCK_LINE_HEIGHT };
+}
 
-        if (drawHeight > imageContainerHeight) {
-            drawHeight = imageContainerHeight;
-            drawWidth = drawHeight * aspectRatio;
+/**
+ * Everything drawn on one page besides its header, bottom to top.
+ * @param measuringContext Measures text blocks; a canvas of the page's DOM unless given.
+ */
+export function resolvePageItems(page: AlbumPageLayout, entries: AlbumEntry[], settings: AlbumSettings, measuringContext?: AlbumContext): AlbumItem[] {
+    const { edits } = settings;
+    const items: AlbumItem[] = page.slots.map((slot, position) => {
+        const entry = entries[slot.entryIndex];
+        const key = polaroidKey(entry.id);
+        const placement = edits.placements[entry.id] ?? { centerX: slot.centerX, centerY: slot.centerY, rotation: slot.rotation, scale: 1 };
+        return {
+            ...placement,
+            key,
+            sceneId: entry.id,
+            layer: edits.layers[key] ?? position,
+            width: slot.width * placement.scale,
+            height: slot.height * placement.scale,
+            kind: 'polaroid' as const,
+            entryIndex: slot.entryIndex,
+            caption: edits.captions[entry.id] ?? entry.caption,
+        };
+    });
+    edits.elements.forEach((element, index) => {
+        if (element.page !== page.pageNumber) return;
+        const { id, page: _page, ...placement } = element;
+        if (element.kind === 'text' && !measuringContext) {
+            domMeasuringContext ??= domEnvironment.createCanvas(1, 1).getContext('2d');
         }
+        const size = element.kind === 'text' ? measureTextBlock(element.text, measuringContext ?? domMeasuringContext) : DECORATION_SIZES[element.kind];
+        items.push({
+            ...placement,
+            key: id,
+            layer: edits.layers[id] ?? ELEMENT_LAYER_BASE + index,
+            width: size.width * element.scale,
+            height: size.height * element.scale,
+        });
+    });
+    // Array sort is stable, so items without a layer of their own keep the template's order.
+    return items.sort((a, b) => a.layer - b.layer);
+}
 
-        // Calculate position to center the image within its container area
-        const imageAreaTopMargin = (polaroidWidth - imageContainerWidth) / 2;
-        const imageContainerY = -polaroidHeight / 2 + imageAreaTopMargin;
-        
-        const imgX = -drawWidth / 2; // Horizontally centered due to context translation
-        const imgY = imageContainerY + (imageContainerHeight - drawHeight) / 2;
-        
-        ctx.drawImage(img, imgX, imgY, drawWidth, drawHeight);
-        
-        // Draw the handwritten caption
-        ctx.fillStyle = '#222';
-        ctx.font = `60px 'Caveat', cursive`;
+/**
+ * The topmost item under a point on the page, if any.
+ */
+export function itemAt(items: AlbumItem[], x: number, y: number): AlbumItem | null {
+    for (let i = items.length - 1; i >= 0; i--) {
+        const item = items[i];
+        const dx = x - item.centerX;
+        const dy = y - item.centerY;
+        // Turn the point into the item's own unrotated frame.
+        const localX = dx * Math.cos(item.rotation) + dy * Math.sin(item.rotation);
+        const localY = -dx * Math.sin(item.rotation) + dy * Math.cos(item.rotation);
+        if (Math.abs(localX) <= item.width / 2 && Math.abs(localY) <= item.height / 2) return item;
+    }
+    return null;
+}
+
+function drawItem(ctx: AlbumContext, item: AlbumItem, images: (AlbumImage | null)[], settings: AlbumSettings) {
+    if (item.kind === 'polaroid') {
+        drawPolaroid(ctx, item, item.caption, images[item.entryIndex]);
+        return;
+    }
+    ctx.save();
+    ctx.translate(item.centerX, item.centerY);
+    ctx.rotate(item.rotation);
+    if (item.kind === 'text') {
+        ctx.scale(item.scale, item.scale);
+        const lines = textBlockLines(item.text);
+        const lineHeight = TEXT_BLOCK_FONT_SIZE * TEXT_BLOCK_LINE_HEIGHT;
+        ctx.fillStyle = '#333';
+        ctx.font = `${TEXT_BLOCK_FONT_SIZE}px 'Caveat', cursive`;
         ctx.textAlign = 'center';
         ctx.textBaseline = 'middle';
+        lines.forEach((line, index) => ctx.fillText(line, 0, (index - (lines.length - 1) / 2) * lineHeight));
+    } else {
+        const { width, height } = DECORATION_SIZES[item.kind];
+        ctx.scale(item.scale, item.scale);
+        if (item.kind === 'stamp') drawStamp(ctx, width, height);
+        else if (item.kind === 'ribbon') drawRibbon(ctx, width, height);
+        else drawWaxSeal(ctx, width, height, (settings.title.trim()[0] ?? 'V').toUpperCase());
+    }
+    ctx.restore();
+}
 
-        const captionAreaTop = imageContainerY + imageContainerHeight;
-        const captionAreaBottom = polaroidHeight / 2;
-        const captionY = captionAreaTop + (captionAreaBottom - captionAreaTop) / 2;
+const PAPER_COLOR = '#fdf5e6'; // A warm, parchment-like color
+const PAPER_RGB: [number, number, number] = [0xfd, 0xf5, 0xe6];
 
-        ctx.fillText(scene, 0, captionY);
-        
-        ctx.restore(); // Restore context to pre-transformation state
+/**
+ * The canvas a page is drawn onto when that isn't the page's own size, such as for
+ * print: the page is scaled to fit `width` × `height` pixels and centred, inside a
+ * `bleed` of paper colour on every side.
+ */
+interface PaperTarget {
+    width: number;
+    height: number;
+    bleed: number;
+}
+
+/**
+ * Sizes `canvas` for the target and paints it paper-coloured, set up for drawing a page
+ * of `width` × `height`.
+ */
+function createPaper(canvas: AlbumCanvas, width: number, height: number, target?: PaperTarget): { canvas: AlbumCanvas; ctx: AlbumContext } {
+    const { width: targetWidth, height: targetHeight, bleed } = target ?? { width, height, bleed: 0 };
+    canvas.width = targetWidth + bleed * 2;
+    canvas.height = targetHeight + bleed * 2;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    ctx.fillStyle = PAPER_COLOR;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    const scale = Math.min(targetWidth / width, targetHeight / height);
+    ctx.translate(bleed + (targetWidth - width * scale) / 2, bleed + (targetHeight - height * scale) / 2);
+    ctx.scale(scale, scale);
+    return { canvas, ctx };
+}
+
+/**
+ * Draws an album page, scaled to fit `canvas` at the canvas's current size. The album
+ * editor draws its preview with this, so what it shows is what gets exported.
+ */
+export function drawPageOnto(canvas: AlbumCanvas, page: AlbumPageLayout, entries: AlbumEntry[], images: (AlbumImage | null)[], settings: AlbumSettings) {
+    const { ctx } = createPaper(canvas, page.width, page.height, { width: canvas.width, height: canvas.height, bleed: 0 });
+    paintPage(ctx, page, entries, images, settings, true);
+}
+
+/**
+ * @param pageNumbers Whether to print "n / N" at the foot of the page; the PDF export
+ * numbers its pages itself.
+ */
+function drawPage(environment: AlbumCanvasEnvironment, page: AlbumPageLayout, entries: AlbumEntry[], images: (AlbumImage | null)[], settings: AlbumSettings, pageNumbers = true, target?: PaperTarget): AlbumCanvas {
+    const { canvas, ctx } = createPaper(environment.createCanvas(1, 1), page.width, page.height, target);
+    paintPage(ctx, page, entries, images, settings, pageNumbers);
+    return canvas;
+}
+
+function paintPage(ctx: AlbumContext, page: AlbumPageLayout, entries: AlbumEntry[], images: (AlbumImage | null)[], settings: AlbumSettings, pageNumbers: boolean) {
+    if (page.fold) {
+        const fold = ctx.createLinearGradient(page.width / 2 - 40, 0, page.width / 2 + 40, 0);
+        fold.addColorStop(0, 'rgba(0, 0, 0, 0)');
+        fold.addColorStop(0.5, 'rgba(0, 0, 0, 0.12)');
+        fold.addColorStop(1, 'rgba(0, 0, 0, 0)');
+        ctx.fillStyle = fold;
+        ctx.fillRect(page.width / 2 - 40, 0, 80, page.height);
+    }
+
+    drawHeader(ctx, page, settings);
+
+    for (const item of resolvePageItems(page, entries, settings, ctx)) {
+        drawItem(ctx, item, images, settings);
+    }
+
+    if (pageNumbers && page.pageCount > 1) {
+        ctx.fillStyle = '#777';
+        ctx.font = `40px 'Lato', sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(`${page.pageNumber} / ${page.pageCount}`, page.width / 2, page.height - 60);
+    }
+}
+
+/**
+ * Draws a photo album from a set of scenes, over as many pages as the template needs.
+ * @param entries The scenes to include, in order, already filtered with albumEntriesFor.
+ * @returns A promise that resolves to a data URL (JPEG format) for each page.
+ */
+export async function renderAlbumPages(entries: AlbumEntry[], settings: AlbumSettings, { environment = domEnvironment, onProgress }: AlbumRenderOptions = {}): Promise<string[]> {
+    const layout = layoutAlbum(entries.length, settings.template);
+    const step = trackProgress(entries, layout.length, onProgress);
+    const images = await loadAlbumImages(entries, environment, step);
+    try {
+        const pages: string[] = [];
+        for (const page of layout) {
+            pages.push(await blobToDataUrl(await environment.encodeJpeg(drawPage(environment, page, entries, images, settings), 0.9)));
+            step();
+        }
+        return pages;
+    } finally {
+        releaseImages(images);
+    }
+}
+
+// Covers are laid out at this resolution and scaled from there.
+const COVER_DPI = 300;
+const PRINT_JPEG_QUALITY = 0.95;
+
+/**
+ * Draws the cover of a PDF album: its title, the first finished scene as a large
+ * polaroid, and who made it and when.
+ */
+function drawCover(environment: AlbumCanvasEnvironment, width: number, height: number, entries: AlbumEntry[], images: (AlbumImage | null)[], settings: AlbumSettings, date: Date, target?: PaperTarget): AlbumCanvas {
+    const { canvas, ctx } = createPaper(environment.createCanvas(1, 1), width, height, target);
+
+    ctx.fillStyle = '#333';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    ctx.font = `180px 'Great Vibes', cursive`;
+    ctx.fillText(settings.title, width / 2, height * 0.18);
+    if (settings.subtitle) {
+        ctx.font = `56px 'Lato', sans-serif`;
+        ctx.fillStyle = '#555';
+        ctx.fillText(settings.subtitle, width / 2, height * 0.235);
+    }
+
+    const coverIndex = images.findIndex(img => img !== null);
+    if (coverIndex !== -1) {
+        const polaroidWidth = width * 0.56;
+        drawPolaroid(ctx, {
+            entryIndex: coverIndex,
+            centerX: width / 2,
+            centerY: height * 0.56,
+            width: polaroidWidth,
+            height: polaroidWidth * POLAROID_ASPECT_RATIO,
+            rotation: slotTilt(coverIndex) / 2,
+        }, settings.edits.captions[entries[coverIndex].id] ?? entries[coverIndex].caption, images[coverIndex]);
+    }
+
+    const dateText = date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+    ctx.fillStyle = '#555';
+    ctx.font = `48px 'Lato', sans-serif`;
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillText(settings.author ? `${settings.author} · ${dateText}` : dateText, width / 2, height * 0.93);
+    return canvas;
+}
+
+async function canvasToJpeg(environment: AlbumCanvasEnvironment, canvas: AlbumCanvas, quality = 0.92): Promise<PdfImagePage> {
+    const blob = await environment.encodeJpeg(canvas, quality);
+    return { jpeg: new Uint8Array(await blob.arrayBuffer()), pixelWidth: canvas.width, pixelHeight: canvas.height };
+}
+
+/**
+ * Draws an album as a single PDF: a cover, then every album page at full resolution
+ * with a page number beneath it.
+ * @param entries The scenes to include, in order, already filtered with albumEntriesFor.
+ */
+export async function renderAlbumPdf(entries: AlbumEntry[], settings: AlbumSettings, date = new Date(), { environment = domEnvironment, onProgress }: AlbumRenderOptions = {}): Promise<Blob> {
+    const layout = layoutAlbum(entries.length, settings.template);
+    const step = trackProgress(entries, layout.length + 1, onProgress);
+    const images = await loadAlbumImages(entries, environment, step);
+    const paper = PDF_PAPER_SIZES[settings.paperSize];
+    const pages: PdfImagePage[] = [];
+    try {
+        const cover = await canvasToJpeg(environment, drawCover(environment, pointsToPixels(paper.width, COVER_DPI), pointsToPixels(paper.height, COVER_DPI), entries, images, settings, date));
+        pages.push({ ...cover, background: PAPER_RGB });
+        step();
+
+        // Pages are encoded one at a time so only one full-size canvas is alive at once.
+        for (const page of layout) {
+            const encoded = await canvasToJpeg(environment, drawPage(environment, page, entries, images, settings, false));
+            pages.push({ ...encoded, background: PAPER_RGB, footer: `${page.pageNumber} / ${page.pageCount}` });
+            step();
+        }
+    } finally {
+        releaseImages(images);
+    }
+
+    return writeImagePdf(pages, settings.paperSize, {
+        title: settings.title,
+        author: settings.author.trim() || undefined,
+        creationDate: date,
+    });
+}
+
+/**
+ * Draws one sheet of single polaroids, unrotated and without shadows so they cut cleanly.
+ */
+function drawPolaroidSheet(environment: AlbumCanvasEnvironment, layout: PolaroidSheetLayout, sheet: PolaroidSheetLayout['sheets'][number], entries: AlbumEntry[], images: (AlbumImage | null)[], settings: AlbumSettings): AlbumCanvas {
+    const { print: { dpi }, edits } = settings;
+    const { canvas, ctx } = createPaper(environment.createCanvas(1, 1), layout.width, layout.height, {
+        width: pointsToPixels(layout.width, dpi),
+        height: pointsToPixels(layout.height, dpi),
+        bleed: 0,
     });
+    for (const { entryIndex, box } of sheet) {
+        drawPolaroid(ctx, {
+            entryIndex,
+            centerX: box.x + box.width / 2,
+            // Sheet layouts measure from the bottom of the page, like PDF.
+            centerY: layout.height - box.y - box.height / 2,
+            width: box.width,
+            height: box.height,
+            rotation: 0,
+        }, edits.captions[entries[entryIndex].id] ?? entries[entryIndex].caption, images[entryIndex], false);
+    }
+    return canvas;
+}
+
+/**
+ * Draws an album as a PDF for a print shop, at the chosen paper size and resolution:
+ * either the album itself with bleed and crop marks, or sheets of instant-film-sized
+ * polaroids to cut out.
+ * @param entries The scenes to include, in order, already filtered with albumEntriesFor.
+ */
+export async function renderPrintPdf(entries: AlbumEntry[], settings: AlbumSettings, date = new Date(), { environment = domEnvironment, onProgress }: AlbumRenderOptions = {}): Promise<Blob> {
+    const { print, paperSize } = settings;
+    const sheetLayout = print.sheet === 'polaroids' ? layoutPolaroidSheets(entries.length, paperSize, print) : null;
+    const albumLayout = sheetLayout ? [] : layoutAlbum(entries.length, settings.template);
+    const step = trackProgress(entries, sheetLayout ? sheetLayout.sheets.length : albumLayout.length + 1, onProgress);
+    const images = await loadAlbumImages(entries, environment, step);
+    const pages: PdfPage[] = [];
 
-    // Convert canvas to a high-quality JPEG and return the data URL
-    return canvas.toDataURL('image/jpeg', 0.9);
-}
\ No newline at end of file
+    try {
+        if (sheetLayout) {
+            for (const sheet of sheetLayout.sheets) {
+                const encoded = await canvasToJpeg(environment, drawPolaroidSheet(environment, sheetLayout, sheet, entries, images, settings), PRINT_JPEG_QUALITY);
+                pages.push({
+                    ...encoded,
+                    width: sheetLayout.width,
+                    height: sheetLayout.height,
+                    imageBox: { x: 0, y: 0, width: sheetLayout.width, height: sheetLayout.height },
+                    cutMarks: sheetLayout.cutMarks,
+                });
+                step();
+            }
+        } else {
+            const bleed = pointsToPixels(mmToPoints(print.bleedMm), print.dpi);
+            const place = async (landscape: boolean, draw: (target: PaperTarget) => AlbumCanvas) => {
+                const geometry = albumPrintGeometry(paperSize, landscape, print);
+                const target = {
+                    width: pointsToPixels(geometry.trimBox.width, print.dpi),
+                    height: pointsToPixels(geometry.trimBox.height, print.dpi),
+                    bleed,
+                };
+                const encoded = await canvasToJpeg(environment, draw(target), PRINT_JPEG_QUALITY);
+                pages.push({ ...encoded, ...geometry, imageBox: geometry.bleedBox });
+                step();
+            };
+
+            const paper = PDF_PAPER_SIZES[paperSize];
+            await place(false, target => drawCover(environment, pointsToPixels(paper.width, COVER_DPI), pointsToPixels(paper.height, COVER_DPI), entries, images, settings, date, target));
+            for (const page of albumLayout) {
+                await place(page.width > page.height, target => drawPage(environment, page, entries, images, settings, true, target));
+            }
+        }
+    } finally {
+        releaseImages(images);
+    }
+
+    return writePdf(pages, {
+        title: settings.title,
+        author: settings.author.trim() || undefined,
+        creationDate: date,
+    });
+}
+
+/** A finished album: JPEG pages as data URLs, or a PDF. */
+export type AlbumOutput =
+    | { format: 'jpeg'; pages: string[] }
+    | { format: 'pdf' | 'print'; pdf: Blob };
+
+/**
+ * Draws an album in the format its settings ask for.
+ * @param entries The scenes to include, in order, already filtered with albumEntriesFor.
+ */
+export async function renderAlbum(entries: AlbumEntry[], settings: AlbumSettings, date = new Date(), options: AlbumRenderOptions = {}): Promise<AlbumOutput> {
+    switch (settings.format) {
+        case 'jpeg':
+            return { format: 'jpeg', pages: await renderAlbumPages(entries, settings, options) };
+        case 'pdf':
+            return { format: 'pdf', pdf: await renderAlbumPdf(entries, settings, date, options) };
+        case 'print':
+            return { format: 'print', pdf: await renderPrintPdf(entries, settings, date, options) };
+    }
+}
+
+/**
+ * A photo that will print at fewer than MIN_PRINT_PPI pixels per inch.
+ */
+export interface LowResolutionEntry {
+    caption: string;
+    ppi: number;
+}
+
+/**
+ * Finds the photos too small for the print settings chosen, so the user can be warned
+ * before they pay for a print.
+ * @param entries The scenes to include, in order, already filtered with albumEntriesFor.
+ */
+export async function findLowResolutionEntries(entries: AlbumEntry[], settings: AlbumSettings): Promise<LowResolutionEntry[]> {
+    const widths = printedPhotoWidths(layoutAlbum(entries.length, settings.template), entries.length, settings.paperSize, settings.print);
+    const found: LowResolutionEntry[] = [];
+    for (const [index, entry] of entries.entries()) {
+        if (!entry.imageUrl) continue;
+        const img = await loadImage(entry.imageUrl);
+        // Polaroids enlarged in the editor print bigger; cut-out sheets ignore the editor.
+        const scale = settings.print.sheet === 'album' ? settings.edits.placements[entry.id]?.scale ?? 1 : 1;
+        // Photos are fitted into a square, so their longer side spans its width.
+        const ppi = Math.max(img.naturalWidth, img.naturalHeight) / (widths[index] * scale);
+        if (ppi < MIN_PRINT_PPI) found.push({ caption: entry.caption, ppi: Math.round(ppi) });
+    }
+    return found;
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createOffscreenEnvironment } from './albumCanvas';
+import { renderAlbum } from './albumUtils';
+import type { AlbumWorkerMessage, AlbumWorkerRequest } from './albumRendering';
+
+/*
+ * The worker albumRendering starts for each album: it draws one album and reports
+ * back. The DOM typings describe `self` as a window, but only the parts shared with
+ * a worker's global scope are used.
+ */
+
+const reply = (message: AlbumWorkerMessage) => postMessage(message);
+
+// Fonts in workers came later than OffscreenCanvas; without them the album would be
+// drawn in fallback fonts, so the page draws it instead.
+function missingSupport(): string | null {
+    if (typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+        return 'OffscreenCanvas is not available in workers';
+    }
+    if (!new OffscreenCanvas(1, 1).getContext('2d')) {
+        return 'OffscreenCanvas has no 2D context';
+    }
+    if (!('fonts' in globalThis)) {
+        return 'Fonts cannot be loaded in workers';
+    }
+    return null;
+}
+
+addEventListener('message', async (event: MessageEvent<AlbumWorkerRequest>) => {
+    const unsupported = missingSupport();
+    if (unsupported) {
+        reply({ type: 'error', message: unsupported, unsupported: true });
+        return;
+    }
+    const { entries, settings, date, fontStylesheets } = event.data;
+    try {
+        const output = await renderAlbum(entries, settings, new Date(date), {
+            environment: createOffscreenEnvironment(fontStylesheets),
+            onProgress: progress => reply({ type: 'progress', progress }),
+        });
+        reply({ type: 'done', output });
+    } catch (error) {
+        reply({ type: 'error', message: error instanceof Error ? error.message : String(error), unsupported: false });
+    }
+});
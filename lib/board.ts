@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { SceneDefinition } from './scenePacks';
+
+/*
+ * Where the cards sit on the desktop board. Positions are fractions of the board's
+ * size, so an arrangement survives the window being resized or the session being
+ * reopened on another screen.
+ */
+
+/**
+ * One card on the board, as the user left it.
+ */
+export interface BoardCard {
+    /** The card's left edge, as a fraction of the board's width. */
+    left: number;
+    /** The card's top edge, as a fraction of the board's height. */
+    top: number;
+    /** Degrees, clockwise. */
+    rotation: number;
+    /** Stacking order; higher is on top. */
+    z: number;
+}
+
+/** Cards by scene id. Scenes missing from it sit where their scene pack puts them. */
+export type BoardState = Record<string, BoardCard>;
+
+export interface BoardSize {
+    width: number;
+    height: number;
+}
+
+/** The size of a card on the board in CSS pixels, which the board image is drawn at. */
+export const BOARD_CARD_SIZE = { width: 320, height: 320 * 4 / 3 };
+
+const parsePercent = (value: string) => (Number.parseFloat(value) || 0) / 100;
+
+/**
+ * The card for a scene: as the user left it, or where the scene pack puts it.
+ * @param index The scene's position in the pack, which sets its default stacking.
+ */
+export function boardCardFor(board: BoardState, scene: SceneDefinition, index: number): BoardCard {
+    return board[scene.id] ?? {
+        left: parsePercent(scene.position.left),
+        top: parsePercent(scene.position.top),
+        rotation: scene.rotation,
+        z: index,
+    };
+}
+
+/**
+ * Puts a card above all the others, as picking it up does.
+ */
+export function raiseCard(board: BoardState, scenes: SceneDefinition[], sceneId: string): BoardState {
+    const cards = scenes.map((scene, index) => boardCardFor(board, scene, index));
+    const index = scenes.findIndex(scene => scene.id === sceneId);
+    if (index === -1) return board;
+    const top = Math.max(...cards.map(card => card.z));
+    if (cards[index].z === top && cards.filter(card => card.z === top).length === 1) return board;
+    return { ...board, [sceneId]: { ...cards[index], z: top + 1 } };
+}
+
+/**
+ * Records where a card came to rest after being dragged and thrown.
+ * @param offset The card's position on the board, in pixels.
+ */
+export function moveCard(board: BoardState, scenes: SceneDefinition[], sceneId: string, offset: { x: number; y: number }, size: BoardSize): BoardState {
+    const index = scenes.findIndex(scene => scene.id === sceneId);
+    if (index === -1) return board;
+    const card = boardCardFor(board, scenes[index], index);
+    return { ...board, [sceneId]: { ...card, left: offset.x / size.width, top: offset.y / size.height } };
+}
+
+// Room left free at the board's edges by the tidy and scatter commands, as a fraction of the free space.
+const EDGE_INSET = 0.02;
+
+/**
+ * Lines the cards up straight in evenly spaced rows, in scene order, overlapping them
+ * where the board is too small to fit them side by side.
+ */
+export function tidyBoard(scenes: SceneDefinition[], size: BoardSize): BoardState {
+    const freeWidth = Math.max(0, size.width - BOARD_CARD_SIZE.width);
+    const freeHeight = Math.max(0, size.height - BOARD_CARD_SIZE.height);
+    const cols = Math.min(scenes.length, Math.max(1, Math.floor(size.width / (BOARD_CARD_SIZE.width * 0.8))));
+    const rows = Math.ceil(scenes.length / cols);
+    return Object.fromEntries(scenes.map((scene, index) => {
+        const row = Math.floor(index / cols);
+        const col = index % cols;
+        // The last row may be short; centre it under the others.
+        const rowCount = Math.min(cols, scenes.length - row * cols);
+        const colSlot = col + (cols - rowCount) / 2;
+        const left = cols === 1 ? freeWidth / 2 : freeWidth * (EDGE_INSET + (1 - EDGE_INSET * 2) * colSlot / (cols - 1));
+        const top = rows === 1 ? freeHeight / 2 : freeHeight * (EDGE_INSET + (1 - EDGE_INSET * 2) * row / (rows - 1));
+        return [scene.id, { left: left / size.width, top: top / size.height, rotation: 0, z: index }];
+    }));
+}
+
+/**
+ * Throws the cards down at random, like an untidy pile of photos.
+ */
+export function scatterBoard(scenes: SceneDefinition[], size: BoardSize, random: () => number = Math.random): BoardState {
+    const freeWidth = Math.max(0, size.width - BOARD_CARD_SIZE.width);
+    const freeHeight = Math.max(0, size.height - BOARD_CARD_SIZE.height);
+    // Shuffle the stacking order too, so the last scene isn't always on top.
+    const order = scenes.map((_, index) => index);
+    for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    return Object.fromEntries(scenes.map((scene, index) => [scene.id, {
+        left: freeWidth * (EDGE_INSET + (1 - EDGE_INSET * 2) * random()) / size.width,
+        top: freeHeight * (EDGE_INSET + (1 - EDGE_INSET * 2) * random()) / size.height,
+        rotation: Math.round((random() - 0.5) * 30),
+        z: order[index],
+    }]));
+}
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadAlbumImages } from './albumUtils';
+import type { AlbumImage } from './albumCanvas';
+import { BOARD_CARD_SIZE } from './board';
+import type { BoardCard, BoardSize } from './board';
+
+/*
+ * Draws the desktop board as the user arranged it. Card measurements follow
+ * PolaroidCard's classes (w-80, aspect-[3/4], p-4, pb-16, rounded-md), so the image
+ * lines up with what was on screen.
+ */
+
+export interface BoardImageCard {
+    id: string;
+    caption: string;
+    /** Absent for scenes without a finished image. */
+    imageUrl?: string;
+    card: BoardCard;
+}
+
+/** How many image pixels each CSS pixel of the board becomes. */
+export const BOARD_EXPORT_SCALE = 3;
+
+const CARD_PADDING = 16;
+const CARD_BOTTOM_PADDING = 64;
+const CARD_RADIUS = 6;
+// Matches the animated page background, which is drawn still.
+const BACKGROUND_COLORS = ['#f3e9d2', '#c89f9c', '#a9c3d4', '#c0a26d'];
+
+function drawBoardCard(ctx: CanvasRenderingContext2D, { caption, card }: BoardImageCard, img: AlbumImage | null, size: BoardSize, scale: number) {
+    const { width, height } = BOARD_CARD_SIZE;
+    ctx.save();
+    ctx.translate(card.left * size.width + width / 2, card.top * size.height + height / 2);
+    ctx.rotate(card.rotation * Math.PI / 180);
+    ctx.translate(-width / 2, -height / 2);
+
+    // shadow-2xl; shadows ignore the transform, so they are scaled by hand.
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.25)';
+    ctx.shadowBlur = 38 * scale;
+    ctx.shadowOffsetY = 25 * scale;
+    ctx.fillStyle = '#f5f5f5';
+    ctx.beginPath();
+    ctx.roundRect(0, 0, width, height, CARD_RADIUS);
+    ctx.fill();
+    ctx.shadowColor = 'transparent';
+
+    const photo = {
+        x: CARD_PADDING,
+        y: CARD_PADDING,
+        width: width - CARD_PADDING * 2,
+        height: height - CARD_PADDING - CARD_BOTTOM_PADDING,
+    };
+    ctx.fillStyle = '#171717';
+    ctx.fillRect(photo.x, photo.y, photo.width, photo.height);
+    if (img) {
+        // object-cover: fill the frame and crop whatever overflows.
+        const cover = Math.max(photo.width / img.width, photo.height / img.height);
+        const sourceWidth = photo.width / cover;
+        const sourceHeight = photo.height / cover;
+        ctx.drawImage(
+            img,
+            (img.width - sourceWidth) / 2, (img.height - sourceHeight) / 2, sourceWidth, sourceHeight,
+            photo.x, photo.y, photo.width, photo.height,
+        );
+    }
+
+    // The caption is a single truncated line, as on screen.
+    const captionWidth = width - CARD_PADDING * 2 - 16;
+    ctx.font = `20px 'Caveat', cursive`;
+    ctx.fillStyle = img ? '#000' : '#262626';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    let text = caption;
+    if (ctx.measureText(text).width > captionWidth) {
+        while (text.length > 0 && ctx.measureText(`${text}…`).width > captionWidth) text = text.slice(0, -1);
+        text = `${text}…`;
+    }
+    ctx.fillText(text, width / 2, height - CARD_PADDING - 14);
+    ctx.restore();
+}
+
+/**
+ * Draws the board with every card where the user left it, stacked as they left them.
+ * @param size The board's size on screen, in CSS pixels.
+ * @returns A JPEG data URL `scale` times the board's size.
+ */
+export async function renderBoardImage(cards: BoardImageCard[], size: BoardSize, scale = BOARD_EXPORT_SCALE): Promise<string> {
+    const images = await loadAlbumImages(cards);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(size.width * scale);
+    canvas.height = Math.round(size.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    ctx.scale(scale, scale);
+
+    // linear-gradient(-45deg, ...) runs from the bottom right to the top left.
+    const background = ctx.createLinearGradient(size.width, size.height, 0, 0);
+    BACKGROUND_COLORS.forEach((color, index) => background.addColorStop(index / (BACKGROUND_COLORS.length - 1), color));
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, size.width, size.height);
+
+    const stacked = cards.map((card, index) => ({ card, img: images[index] })).sort((a, b) => a.card.card.z - b.card.card.z);
+    for (const { card, img } of stacked) {
+        drawBoardCard(ctx, card, img, size, scale);
+    }
+    return canvas.toDataURL('image/jpeg', 0.92);
+}
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { CharacterAnchor } from '../types';
+
+const CONSISTENCY_MODE_STORAGE_KEY = 'violet-evergarden.consistency-mode';
+
+/**
+ * Whether scenes are generated with a character anchor alongside the photo. Off by default,
+ * since it waits for the first result to be approved before generating the rest.
+ */
+export function loadConsistencyMode(): boolean {
+    try {
+        return localStorage.getItem(CONSISTENCY_MODE_STORAGE_KEY) === 'true';
+    } catch {
+        return false;
+    }
+}
+
+export function saveConsistencyMode(enabled: boolean): void {
+    try {
+        localStorage.setItem(CONSISTENCY_MODE_STORAGE_KEY, String(enabled));
+    } catch (error) {
+        console.warn('Could not save the consistency mode setting:', error);
+    }
+}
+
+/**
+ * The anchor image to send when generating a scene. The anchor's own scene is drawn from
+ * the photo alone, so regenerating it can produce a genuinely different look.
+ */
+export function anchorUrlFor(anchor: CharacterAnchor | null, sceneId: string): string | undefined {
+    return anchor && anchor.sceneId !== sceneId ? anchor.url : undefined;
+}
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const DB_NAME = 'violet-evergarden';
+const DB_VERSION = 2;
+
+export const SESSIONS_STORE = 'sessions';
+export const SUMMARIES_STORE = 'sessionSummaries';
+export const RUN_JOURNALS_STORE = 'runJournals';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the app's IndexedDB database, creating or upgrading its object stores as needed.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                    db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+                    db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+                }
+                if (!db.objectStoreNames.contains(RUN_JOURNALS_STORE)) {
+                    db.createObjectStore(RUN_JOURNALS_STORE, { keyPath: 'sessionId' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    });
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage } from './albumCanvas';
+
+/*
+ * Remix masks are painted on a transparent canvas the size of the image: opaque pixels
+ * mark the region the user wants changed, transparent ones what must stay as it is.
+ */
+
+/**
+ * Renders a mask the way the model is shown it: white where it may edit, black elsewhere.
+ * @returns A PNG data URL.
+ */
+export function maskToModelImage(mask: HTMLCanvasElement): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = mask.width;
+    canvas.height = mask.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get 2D context from canvas');
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    // Painted strokes may be tinted for display; only their coverage matters here.
+    const white = document.createElement('canvas');
+    white.width = mask.width;
+    white.height = mask.height;
+    const whiteCtx = white.getContext('2d')!;
+    whiteCtx.drawImage(mask, 0, 0);
+    whiteCtx.globalCompositeOperation = 'source-in';
+    whiteCtx.fillStyle = '#fff';
+    whiteCtx.fillRect(0, 0, white.width, white.height);
+    ctx.drawImage(white, 0, 0);
+    return canvas.toDataURL('image/png');
+}
+
+/**
+ * Puts an edited image back over the original inside the mask only. Pixels outside
+ * the mask are copied from the original unchanged, which is why the result is a PNG.
+ * @param originalUrl The image that was remixed; sets the output size.
+ * @param editedUrl The model's result, stretched to the original's size if it differs.
+ * @param mask The painted mask, the same size as the original.
+ * @returns A PNG data URL.
+ */
+export async function compositeWithMask(originalUrl: string, editedUrl: string, mask: HTMLCanvasElement): Promise<string> {
+    const [original, edited] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl)]);
+    const { naturalWidth: width, naturalHeight: height } = original;
+
+    const editedLayer = document.createElement('canvas');
+    editedLayer.width = width;
+    editedLayer.height = height;
+    const layerCtx = editedLayer.getContext('2d');
+    if (!layerCtx) throw new Error('Could not get 2D context from canvas');
+    layerCtx.drawImage(edited, 0, 0, width, height);
+    layerCtx.globalCompositeOperation = 'destination-in';
+    layerCtx.drawImage(mask, 0, 0, width, height);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get 2D context from canvas');
+    ctx.drawImage(original, 0, 0);
+    ctx.drawImage(editedLayer, 0, 0);
+    return canvas.toDataURL('image/png');
+}
+
+/**
+ * Copies a mask so it can't change under a request that is still in flight.
+ */
+export function snapshotMask(mask: HTMLCanvasElement): HTMLCanvasElement {
+    const copy = document.createElement('canvas');
+    copy.width = mask.width;
+    copy.height = mask.height;
+    copy.getContext('2d')?.drawImage(mask, 0, 0);
+    return copy;
+}
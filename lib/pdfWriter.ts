@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * A minimal PDF writer for documents made of full-page JPEG images, so albums can be
+ * exported without a PDF library or a server. JPEGs are embedded as they are (PDF
+ * reads them natively), which keeps every page at the resolution it was drawn at.
+ */
+
+export type PdfPaperSize = 'a4' | 'letter';
+
+/** Paper sizes in PDF points (1/72 inch), portrait. */
+export const PDF_PAPER_SIZES: Record<PdfPaperSize, { name: string; width: number; height: number }> = {
+    a4: { name: 'A4', width: 595.28, height: 841.89 },
+    letter: { name: 'US Letter', width: 612, height: 792 },
+};
+
+/** A rectangle in PDF points, measured from the bottom-left corner of the page. */
+export interface PdfBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Crop marks for a set of cut lines. Each line is marked where it leaves `outside`,
+ * from just beyond that box to the edge of the page, so the marks are never printed
+ * on anything that is kept.
+ */
+export interface PdfCutMarks {
+    /** Vertical cut lines, in points from the left of the page. */
+    xs: number[];
+    /** Horizontal cut lines, in points from the bottom of the page. */
+    ys: number[];
+    outside: PdfBox;
+}
+
+/**
+ * One fully placed page.
+ */
+export interface PdfPage {
+    jpeg: Uint8Array;
+    pixelWidth: number;
+    pixelHeight: number;
+    /** The page size in points. */
+    width: number;
+    height: number;
+    imageBox: PdfBox;
+    /** The colour of the page around the image, as 0–255 RGB. */
+    background?: [number, number, number];
+    /** A short line printed centred at the foot of the page, such as a page number. */
+    footer?: string;
+    /** The finished size of a page printed with bleed; tells print software where to cut. */
+    trimBox?: PdfBox;
+    bleedBox?: PdfBox;
+    cutMarks?: PdfCutMarks;
+}
+
+/**
+ * A page image to be fitted to the paper by writeImagePdf.
+ */
+export interface PdfImagePage {
+    /** A baseline RGB JPEG, as canvases encode them. */
+    jpeg: Uint8Array;
+    pixelWidth: number;
+    pixelHeight: number;
+    /** A short line printed centred below the image, such as a page number. */
+    footer?: string;
+    /** The colour around the image where it doesn't fill the paper, as 0–255 RGB. */
+    background?: [number, number, number];
+}
+
+export interface PdfMetadata {
+    title: string;
+    author?: string;
+    creationDate: Date;
+}
+
+// Height of the band at the bottom of a page that holds its footer, in points.
+const FOOTER_HEIGHT = 36;
+const FOOTER_FONT_SIZE = 10;
+// Crop marks stop this far short of what they mark, in points.
+const CUT_MARK_GAP = 6;
+const CUT_MARK_WIDTH = 0.25;
+
+// Helvetica advance widths, in thousandths of the font size, for the characters footers use.
+const HELVETICA_WIDTHS: Record<string, number> = { ' ': 278, '/': 278, '-': 333, '.': 278 };
+const HELVETICA_DIGIT_WIDTH = 556;
+
+function textWidth(text: string, fontSize: number): number {
+    return [...text].reduce((sum, char) => sum + (HELVETICA_WIDTHS[char] ?? HELVETICA_DIGIT_WIDTH), 0) * fontSize / 1000;
+}
+
+/** A string literal for text drawn with a standard font, which only covers Latin-1. */
+function latinString(text: string): string {
+    const safe = [...text].map(char => char.charCodeAt(0) < 256 ? char : '?').join('');
+    return `(${safe.replace(/[\\()]/g, '\\$&').replace(/[^\x20-\x7e]/g, char => `\\${char.charCodeAt(0).toString(8).padStart(3, '0')}`)})`;
+}
+
+/** A string for document metadata, which may hold any Unicode text. */
+function unicodeString(text: string): string {
+    let hex = '';
+    for (let i = 0; i < text.length; i++) {
+        hex += text.charCodeAt(i).toString(16).padStart(4, '0'); // UTF-16 code units, surrogates included
+    }
+    return `<FEFF${hex}>`;
+}
+
+function pdfDate(date: Date): string {
+    const pad = (value: number) => String(Math.floor(Math.abs(value))).padStart(2, '0');
+    const offset = -date.getTimezoneOffset();
+    const zone = offset === 0 ? 'Z' : `${offset > 0 ? '+' : '-'}${pad(offset / 60)}'${pad(offset % 60)}'`;
+    return `D:${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}${zone}`;
+}
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+const formatBox = (box: PdfBox) => [box.x, box.y, box.x + box.width, box.y + box.height].map(formatNumber).join(' ');
+
+function cutMarkPaths(marks: PdfCutMarks, width: number, height: number): string[] {
+    const { outside } = marks;
+    const line = (x1: number, y1: number, x2: number, y2: number) =>
+        `${formatNumber(x1)} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S`;
+    const paths: string[] = [];
+    const below = outside.y - CUT_MARK_GAP;
+    const above = outside.y + outside.height + CUT_MARK_GAP;
+    const left = outside.x - CUT_MARK_GAP;
+    const right = outside.x + outside.width + CUT_MARK_GAP;
+    for (const x of marks.xs) {
+        if (below > 0) paths.push(line(x, 0, x, below));
+        if (above < height) paths.push(line(x, above, x, height));
+    }
+    for (const y of marks.ys) {
+        if (left > 0) paths.push(line(0, y, left, y));
+        if (right < width) paths.push(line(right, y, width, y));
+    }
+    return paths;
+}
+
+/**
+ * Scales an image to fit the paper, turned to landscape for images wider than they
+ * are tall, leaving room at the foot for its footer.
+ */
+function fitToPaper(page: PdfImagePage, paperSize: PdfPaperSize): PdfPage {
+    const paper = PDF_PAPER_SIZES[paperSize];
+    const [width, height] = page.pixelWidth > page.pixelHeight ? [paper.height, paper.width] : [paper.width, paper.height];
+    const footerHeight = page.footer ? FOOTER_HEIGHT : 0;
+    const scale = Math.min(width / page.pixelWidth, (height - footerHeight) / page.pixelHeight);
+    const imageWidth = page.pixelWidth * scale;
+    const imageHeight = page.pixelHeight * scale;
+    return {
+        ...page,
+        width,
+        height,
+        imageBox: {
+            x: (width - imageWidth) / 2,
+            y: footerHeight + (height - footerHeight - imageHeight) / 2,
+            width: imageWidth,
+            height: imageHeight,
+        },
+    };
+}
+
+/**
+ * Writes a PDF with one image per page. Each image is scaled to fit the paper, which
+ * is turned to landscape for images wider than they are tall.
+ * @returns The document as a Blob of type application/pdf.
+ */
+export function writeImagePdf(pages: PdfImagePage[], paperSize: PdfPaperSize, metadata: PdfMetadata): Blob {
+    return writePdf(pages.map(page => fitToPaper(page, paperSize)), metadata);
+}
+
+/**
+ * Writes a PDF with one image per page, each placed exactly where its page says.
+ * @returns The document as a Blob of type application/pdf.
+ */
+export function writePdf(pages: PdfPage[], metadata: PdfMetadata): Blob {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (data: string | Uint8Array) => {
+        const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    // Objects are numbered from 1 in the order they are written.
+    const writeObject = (body: string, stream?: Uint8Array) => {
+        offsets.push(length);
+        write(`${offsets.length} 0 obj\n${body}\n`);
+        if (stream) {
+            write('stream\n');
+            write(stream);
+            write('\nendstream\n');
+        }
+        write('endobj\n');
+        return offsets.length;
+    };
+
+    // The catalog, page tree and font are written first so pages can refer to them.
+    const catalogId = 1, pagesId = 2, fontId = 3, infoId = 4;
+    const firstPageObject = 5; // Each page writes its image, its content and itself.
+    const pageIds = pages.map((_, index) => firstPageObject + index * 3 + 2);
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    writeObject(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    writeObject(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    writeObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    writeObject(`<< /Title ${unicodeString(metadata.title)}${metadata.author ? ` /Author ${unicodeString(metadata.author)}` : ''} /Producer (Violet Evergarden) /CreationDate (${pdfDate(metadata.creationDate)}) >>`);
+
+    for (const page of pages) {
+        const { width, height, imageBox } = page;
+        const content: string[] = [];
+        if (page.background) {
+            const [r, g, b] = page.background.map(channel => formatNumber(channel / 255));
+            content.push(`${r} ${g} ${b} rg 0 0 ${formatNumber(width)} ${formatNumber(height)} re f`);
+        }
+        content.push(`q ${formatNumber(imageBox.width)} 0 0 ${formatNumber(imageBox.height)} ${formatNumber(imageBox.x)} ${formatNumber(imageBox.y)} cm /Im0 Do Q`);
+        if (page.footer) {
+            const x = (width - textWidth(page.footer, FOOTER_FONT_SIZE)) / 2;
+            content.push(`BT 0.47 g /F0 ${FOOTER_FONT_SIZE} Tf ${formatNumber(x)} ${formatNumber((FOOTER_HEIGHT - FOOTER_FONT_SIZE) / 2)} Td ${latinString(page.footer)} Tj ET`);
+        }
+        if (page.cutMarks) {
+            // Registration black, so the marks appear on every plate.
+            content.push(`q 1 1 1 1 K ${CUT_MARK_WIDTH} w`, ...cutMarkPaths(page.cutMarks, width, height), 'Q');
+        }
+        const contentBytes = encoder.encode(content.join('\n'));
+
+        const imageId = writeObject(
+            `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`,
+            page.jpeg,
+        );
+        const contentId = writeObject(`<< /Length ${contentBytes.length} >>`, contentBytes);
+        const boxes = [
+            page.bleedBox && `/BleedBox [${formatBox(page.bleedBox)}]`,
+            page.trimBox && `/TrimBox [${formatBox(page.trimBox)}]`,
+        ].filter(Boolean).map(box => ` ${box}`).join('');
+        writeObject(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${formatNumber(width)} ${formatNumber(height)}]${boxes} /Resources << /XObject << /Im0 ${imageId} 0 R >> /Font << /F0 ${fontId} 0 R >> >> /Contents ${contentId} 0 R >>`);
+    }
+
+    const xrefOffset = length;
+    write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+    write(offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join(''));
+    write(`trailer\n<< /Size ${offsets.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks, { type: 'application/pdf' });
+}
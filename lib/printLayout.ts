@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AlbumPageLayout } from './albumLayouts';
+import { PDF_PAPER_SIZES } from './pdfWriter';
+import type { PdfBox, PdfCutMarks, PdfPaperSize } from './pdfWriter';
+
+/*
+ * Physical geometry for print-ready exports, in PDF points measured from the
+ * bottom-left of the sheet. Drawing lives in albumUtils, as for on-screen albums.
+ */
+
+/** The album pages themselves, or a sheet of single polaroids to cut out. */
+export type PrintSheet = 'album' | 'polaroids';
+
+export interface PrintSettings {
+    sheet: PrintSheet;
+    /** Dots per inch the pages are drawn at. */
+    dpi: number;
+    /** How far album pages extend past where they are cut, in millimetres. */
+    bleedMm: number;
+    cropMarks: boolean;
+}
+
+export const PRINT_DPI_OPTIONS = [150, 200, 300] as const;
+export const BLEED_OPTIONS_MM = [0, 3, 5] as const;
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+    sheet: 'album',
+    dpi: 300,
+    bleedMm: 3,
+    cropMarks: true,
+};
+
+/**
+ * Below this many image pixels per printed inch a photo starts to look soft.
+ */
+export const MIN_PRINT_PPI = 150;
+
+/** A classic instant-film print, close to the proportions our polaroids are drawn at. */
+export const INSTANT_FILM_MM = { width: 88, height: 107 };
+
+// Room outside the bleed for crop marks to sit in.
+const CROP_MARK_SLUG_MM = 10;
+// Spacing on the polaroid sheet: paper edge to cards, and between cards.
+const SHEET_MARGIN_MM = 12;
+const SHEET_GUTTER_MM = 6;
+
+export const mmToPoints = (mm: number) => mm / 25.4 * 72;
+export const pointsToPixels = (points: number, dpi: number) => Math.round(points / 72 * dpi);
+
+/**
+ * Where things go on one printed sheet. The image covers `bleedBox`, which is `trimBox`
+ * grown by the bleed; crop marks sit outside it.
+ */
+export interface PrintPageGeometry {
+    width: number;
+    height: number;
+    trimBox: PdfBox;
+    bleedBox: PdfBox;
+    cutMarks?: PdfCutMarks;
+}
+
+/**
+ * Places one album page on paper of the chosen size, turned to match the page.
+ */
+export function albumPrintGeometry(paperSize: PdfPaperSize, landscape: boolean, settings: PrintSettings): PrintPageGeometry {
+    const paper = PDF_PAPER_SIZES[paperSize];
+    const [trimWidth, trimHeight] = landscape ? [paper.height, paper.width] : [paper.width, paper.height];
+    const bleed = mmToPoints(settings.bleedMm);
+    const slug = settings.cropMarks ? mmToPoints(CROP_MARK_SLUG_MM) : 0;
+    const trimBox = { x: slug + bleed, y: slug + bleed, width: trimWidth, height: trimHeight };
+    const bleedBox = { x: slug, y: slug, width: trimWidth + bleed * 2, height: trimHeight + bleed * 2 };
+    return {
+        width: trimWidth + (bleed + slug) * 2,
+        height: trimHeight + (bleed + slug) * 2,
+        trimBox,
+        bleedBox,
+        ...(settings.cropMarks && {
+            cutMarks: {
+                xs: [trimBox.x, trimBox.x + trimWidth],
+                ys: [trimBox.y, trimBox.y + trimHeight],
+                outside: bleedBox,
+            },
+        }),
+    };
+}
+
+export interface PolaroidSheetLayout {
+    width: number;
+    height: number;
+    /** Each sheet's cards, in reading order, by index into the album's entries. */
+    sheets: { entryIndex: number; box: PdfBox }[][];
+    cutMarks?: PdfCutMarks;
+}
+
+/**
+ * Lays single instant-film-sized polaroids out in a grid on as many sheets as needed,
+ * with gutters between them so each can be cut out cleanly.
+ */
+export function layoutPolaroidSheets(entryCount: number, paperSize: PdfPaperSize, settings: PrintSettings): PolaroidSheetLayout {
+    const { width, height } = PDF_PAPER_SIZES[paperSize];
+    const card = { width: mmToPoints(INSTANT_FILM_MM.width), height: mmToPoints(INSTANT_FILM_MM.height) };
+    const margin = mmToPoints(SHEET_MARGIN_MM);
+    const gutter = mmToPoints(SHEET_GUTTER_MM);
+    const cols = Math.max(1, Math.floor((width - margin * 2 + gutter) / (card.width + gutter)));
+    const rows = Math.max(1, Math.floor((height - margin * 2 + gutter) / (card.height + gutter)));
+    const gridWidth = cols * card.width + (cols - 1) * gutter;
+    const gridHeight = rows * card.height + (rows - 1) * gutter;
+    const left = (width - gridWidth) / 2;
+    const top = (height + gridHeight) / 2;
+
+    const boxes: PdfBox[] = Array.from({ length: cols * rows }, (_, position) => ({
+        x: left + (position % cols) * (card.width + gutter),
+        y: top - Math.floor(position / cols) * (card.height + gutter) - card.height,
+        ...card,
+    }));
+    const sheetCount = Math.max(1, Math.ceil(entryCount / boxes.length));
+    const sheets = Array.from({ length: sheetCount }, (_, sheetIndex) =>
+        boxes
+            .map((box, position) => ({ entryIndex: sheetIndex * boxes.length + position, box }))
+            .filter(({ entryIndex }) => entryIndex < entryCount));
+
+    return {
+        width,
+        height,
+        sheets,
+        // The cards line up in rows and columns, so one set of marks in the margins serves every cut.
+        ...(settings.cropMarks && {
+            cutMarks: {
+                xs: boxes.slice(0, cols).flatMap(box => [box.x, box.x + box.width]),
+                ys: boxes.filter((_, position) => position % cols === 0).flatMap(box => [box.y, box.y + box.height]),
+                outside: { x: left, y: top - gridHeight, width: gridWidth, height: gridHeight },
+            },
+        }),
+    };
+}
+
+/**
+ * How wide each entry's photo comes out on paper, which with the photo's own width
+ * gives its printed resolution.
+ * @param pages The album's layout, from layoutAlbum.
+ * @returns Inches, by entry index.
+ */
+export function printedPhotoWidths(pages: AlbumPageLayout[], entryCount: number, paperSize: PdfPaperSize, settings: PrintSettings): number[] {
+    // Photos fill 90% of a polaroid's width.
+    const photoShare = 0.9;
+    if (settings.sheet === 'polaroids') {
+        return Array.from({ length: entryCount }, () => INSTANT_FILM_MM.width * photoShare / 25.4);
+    }
+    const widths: number[] = [];
+    for (const page of pages) {
+        const paper = PDF_PAPER_SIZES[paperSize];
+        const [trimWidth, trimHeight] = page.width > page.height ? [paper.height, paper.width] : [paper.width, paper.height];
+        // Pages are scaled to fit the trim, as drawn for print.
+        const inchesPerPixel = Math.min(trimWidth / page.width, trimHeight / page.height) / 72;
+        for (const slot of page.slots) {
+            widths[slot.entryIndex] = slot.width * photoShare * inchesPerPixel;
+        }
+    }
+    return widths;
+}
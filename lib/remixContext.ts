@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { parseImageDataUrl } from '../services/imageProvider';
+import type { ConversationTurn, InlineImage } from '../services/imageProvider';
+import type { ChatMessage } from '../types';
+
+/** The choices offered for how many earlier remix exchanges the model is sent. */
+export const REMIX_CONTEXT_OPTIONS = [0, 2, 4, 8] as const;
+const DEFAULT_REMIX_CONTEXT = 4;
+
+/**
+ * Images dominate the request size; older exchanges are dropped to stay under this,
+ * which leaves room under the server's default conversation limit.
+ */
+export const MAX_CONTEXT_IMAGE_BYTES = 16 * 1024 * 1024;
+
+const REMIX_CONTEXT_STORAGE_KEY = 'violet-evergarden.remix-context';
+
+/**
+ * How many earlier exchanges (an instruction and the model's reply) a remix is sent with.
+ */
+export function loadRemixContextSize(): number {
+    try {
+        const stored = Number(localStorage.getItem(REMIX_CONTEXT_STORAGE_KEY) ?? NaN);
+        return (REMIX_CONTEXT_OPTIONS as readonly number[]).includes(stored) ? stored : DEFAULT_REMIX_CONTEXT;
+    } catch {
+        return DEFAULT_REMIX_CONTEXT;
+    }
+}
+
+export function saveRemixContextSize(size: number): void {
+    try {
+        localStorage.setItem(REMIX_CONTEXT_STORAGE_KEY, String(size));
+    } catch (error) {
+        console.warn('Could not save the remix context setting:', error);
+    }
+}
+
+let nodeCounter = 0;
+export const createRemixNodeId = () => `node-${Date.now().toString(36)}-${nodeCounter++}`;
+
+/**
+ * An image in a remix session that can be worked from: a model reply or a fresh start.
+ * Nodes form a tree; each reply hangs off the node that was the working image when
+ * its instruction was sent.
+ */
+export interface RemixNode {
+    id: string;
+    /** Absent for the first reply of a conversation and for fresh starts. */
+    parentId?: string;
+    imageUrl: string;
+    /** The instruction that produced the image; absent for fresh starts. */
+    instruction?: string;
+    /** Any text the model sent with the image. */
+    reply?: string;
+    startsFresh: boolean;
+    depth: number;
+}
+
+/**
+ * Gives image replies from transcripts saved before remixes could branch a node id,
+ * chaining them in order as they were made.
+ */
+export function withNodeIds(messages: ChatMessage[]): ChatMessage[] {
+    let previous: string | undefined;
+    return messages.map(message => {
+        if (message.type !== 'bot' || !message.imageUrl) return message;
+        if (message.nodeId) {
+            previous = message.nodeId;
+            return message;
+        }
+        const nodeId = createRemixNodeId();
+        const parentId = message.startsFresh ? undefined : previous;
+        previous = nodeId;
+        return { ...message, nodeId, ...(parentId && { parentId }) };
+    });
+}
+
+/**
+ * Collects the nodes of a transcript, in the order they were made.
+ */
+export function remixNodes(messages: ChatMessage[]): Map<string, RemixNode> {
+    const nodes = new Map<string, RemixNode>();
+    messages.forEach((message, index) => {
+        if (message.type !== 'bot' || !message.imageUrl || !message.nodeId) return;
+        const parent = message.parentId ? nodes.get(message.parentId) : undefined;
+        const instruction = messages[index - 1];
+        nodes.set(message.nodeId, {
+            id: message.nodeId,
+            ...(parent && { parentId: parent.id }),
+            imageUrl: message.imageUrl,
+            ...(!message.startsFresh && instruction?.type === 'user' && { instruction: instruction.text }),
+            ...(!message.startsFresh && message.text && { reply: message.text }),
+            startsFresh: !!message.startsFresh,
+            depth: parent ? parent.depth + 1 : 0,
+        });
+    });
+    return nodes;
+}
+
+/**
+ * The nodes leading to the given one, oldest first, back to the start of its
+ * conversation or the last fresh start.
+ */
+export function pathTo(nodes: Map<string, RemixNode>, nodeId: string | null): RemixNode[] {
+    const path: RemixNode[] = [];
+    for (let node = nodeId ? nodes.get(nodeId) : undefined; node; node = node.parentId ? nodes.get(node.parentId) : undefined) {
+        path.unshift(node);
+        if (node.startsFresh) break;
+    }
+    return path;
+}
+
+/**
+ * The instructions that led to a node, e.g. "add a hat → make it red".
+ */
+export function instructionsTo(nodes: Map<string, RemixNode>, nodeId: string | null): string {
+    return pathTo(nodes, nodeId).flatMap(node => node.instruction ? [node.instruction] : []).join(' → ');
+}
+
+const imageBytes = (image: InlineImage | undefined) => image ? Math.ceil(image.data.length * 3 / 4) : 0;
+
+function toTurn(role: ConversationTurn['role'], text: string | undefined, imageUrl: string | undefined): ConversationTurn {
+    const image = imageUrl ? parseImageDataUrl(imageUrl) ?? undefined : undefined;
+    return { role, ...(text && { text }), ...(image && { image }) };
+}
+
+/**
+ * Turns the branch leading to the working image into the conversation history sent with
+ * the next instruction.
+ *
+ * Only the exchanges since the branch's start (or last fresh start) are used, and of those
+ * only the most recent `maxExchanges` that fit in MAX_CONTEXT_IMAGE_BYTES. Instructions that
+ * didn't produce an image (failures, cancellations, refusals) aren't part of any branch.
+ * @param workingNodeId The node being remixed, or null for the image the modal was opened with.
+ * @param startImageUrl The image the conversation began from, if known.
+ */
+export function buildRemixHistory(messages: ChatMessage[], workingNodeId: string | null, startImageUrl: string | undefined, maxExchanges: number): ConversationTurn[] {
+    if (maxExchanges <= 0) return [];
+
+    const nodes = remixNodes(messages);
+    const turns: ConversationTurn[][] = pathTo(nodes, workingNodeId)
+        .filter(node => !node.startsFresh && node.instruction)
+        .slice(-maxExchanges)
+        .map((node, index) => {
+            // The first exchange kept carries the image it started from; later ones follow from the replies.
+            const imageBefore = index > 0 ? undefined : node.parentId ? nodes.get(node.parentId)?.imageUrl : startImageUrl;
+            return [toTurn('user', node.instruction, imageBefore), toTurn('model', node.reply, node.imageUrl)];
+        });
+
+    let totalBytes = turns.flat().reduce((sum, turn) => sum + imageBytes(turn.image), 0);
+    while (turns.length > 0 && totalBytes > MAX_CONTEXT_IMAGE_BYTES) {
+        const [dropped] = turns.splice(0, 1);
+        totalBytes -= dropped.reduce((sum, turn) => sum + imageBytes(turn.image), 0);
+        // The new oldest exchange needs its starting image, which is the dropped reply's.
+        const droppedReply = dropped[1].image;
+        if (turns[0] && droppedReply && !turns[0][0].image) {
+            turns[0][0] = { ...turns[0][0], image: droppedReply };
+            totalBytes += imageBytes(droppedReply);
+        }
+    }
+    return turns.flat();
+}
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ScenePack } from './scenePacks';
+import type { Subject } from '../types';
+import type { GenerationErrorKind } from '../services/generationErrors';
+import { openDatabase, promisify, transactionDone, RUN_JOURNALS_STORE } from './db';
+
+export type JournalSceneState = 'queued' | 'in-flight' | 'done' | 'failed';
+
+export interface JournalEntry {
+    state: JournalSceneState;
+    /** The exact prompts the scene was queued with, reused when the run is resumed. */
+    prompt: string;
+    fallbackPrompts: string[];
+    resultUrl?: string;
+    /** Which fallback rung produced resultUrl. */
+    promptRung?: number;
+    error?: string;
+    errorKind?: GenerationErrorKind;
+    updatedAt: number;
+}
+
+/**
+ * A durable record of a generation run, written as each scene changes state so that a
+ * run cut short by a reload or crash can be resumed without regenerating finished scenes.
+ * There is at most one journal per session.
+ */
+export interface RunJournal {
+    sessionId: string;
+    sessionName: string;
+    sessionCreatedAt: number;
+    startedAt: number;
+    updatedAt: number;
+    scenePack: ScenePack;
+    /** The first photo; all a run had before it could have several subjects. */
+    sourceImage: string;
+    /** Absent for runs journaled before several photos could be uploaded. */
+    subjects?: Subject[];
+    entries: Record<string, JournalEntry>;
+}
+
+/**
+ * Creates a journal with every scene queued and writes it.
+ */
+export async function startRunJournal(
+    session: { id: string; name: string; createdAt: number },
+    scenePack: ScenePack,
+    subjects: Subject[],
+): Promise<RunJournal> {
+    const now = Date.now();
+    const journal: RunJournal = {
+        sessionId: session.id,
+        sessionName: session.name,
+        sessionCreatedAt: session.createdAt,
+        startedAt: now,
+        updatedAt: now,
+        scenePack,
+        sourceImage: subjects[0].photos[0],
+        subjects,
+        entries: Object.fromEntries(scenePack.scenes.map(scene => [scene.id, {
+            state: 'queued' as const,
+            prompt: scene.prompt,
+            fallbackPrompts: scene.fallbackPrompts,
+            updatedAt: now,
+        }])),
+    };
+    await writeRunJournal(journal);
+    return journal;
+}
+
+async function writeRunJournal(journal: RunJournal): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(RUN_JOURNALS_STORE, 'readwrite');
+    tx.objectStore(RUN_JOURNALS_STORE).put(journal);
+    await transactionDone(tx);
+}
+
+/**
+ * Records a scene's new state. The journal object is updated in place and written through,
+ * so callers can keep using the same instance for the rest of the run.
+ */
+export async function updateJournalEntry(
+    journal: RunJournal,
+    sceneId: string,
+    changes: Pick<JournalEntry, 'state'> & Partial<Pick<JournalEntry, 'resultUrl' | 'promptRung' | 'error' | 'errorKind'>>,
+): Promise<void> {
+    const now = Date.now();
+    journal.entries[sceneId] = { ...journal.entries[sceneId], ...changes, updatedAt: now };
+    journal.updatedAt = now;
+    try {
+        await writeRunJournal(journal);
+    } catch (error) {
+        // Losing the journal only costs the ability to resume; don't fail the generation over it.
+        console.warn(`Could not journal state of ${sceneId}:`, error);
+    }
+}
+
+/**
+ * Returns the ids of scenes that were queued or in flight, i.e. never finished.
+ */
+export function unfinishedSceneIds(journal: RunJournal): string[] {
+    return journal.scenePack.scenes
+        .map(scene => scene.id)
+        .filter(id => journal.entries[id]?.state === 'queued' || journal.entries[id]?.state === 'in-flight');
+}
+
+export async function deleteRunJournal(sessionId: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(RUN_JOURNALS_STORE, 'readwrite');
+    tx.objectStore(RUN_JOURNALS_STORE).delete(sessionId);
+    await transactionDone(tx);
+}
+
+/**
+ * Finds runs that stopped with unfinished scenes, most recent first. Journals of completed
+ * runs are left in place when the run ends (so the debounced session autosave can catch up)
+ * and are cleaned up here instead.
+ */
+export async function findInterruptedRuns(): Promise<RunJournal[]> {
+    const db = await openDatabase();
+    const journals = await promisify<RunJournal[]>(db.transaction(RUN_JOURNALS_STORE).objectStore(RUN_JOURNALS_STORE).getAll());
+    const interrupted: RunJournal[] = [];
+    for (const journal of journals) {
+        if (unfinishedSceneIds(journal).length > 0) {
+            interrupted.push(journal);
+        } else {
+            await deleteRunJournal(journal.sessionId);
+        }
+    }
+    return interrupted.sort((a, b) => b.updatedAt - a.updatedAt);
+}
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import violetEvergardenPack from './scene-packs/violet-evergarden.json';
+import winterLettersPack from './scene-packs/winter-letters.json';
+
+export interface ScenePosition {
+    top: string;
+    left: string;
+}
+
+/**
+ * A single scene to generate. See `scene-packs/scene-pack.schema.json` for the JSON format.
+ */
+export interface SceneDefinition {
+    id: string;
+    caption: string;
+    prompt: string;
+    /** Softer prompts tried in order when the primary prompt is blocked. */
+    fallbackPrompts: string[];
+    /** Where the card sits on the desktop board. */
+    position: ScenePosition;
+    /** Rotation of the card on the desktop board, in degrees. */
+    rotation: number;
+    /** Set on scenes authored in the scene editor; their prompts are composed from these fields. */
+    setting?: string;
+    outfit?: string;
+    mood?: string;
+}
+
+export interface ScenePack {
+    id: string;
+    name: string;
+    description?: string;
+    version: 1;
+    scenes: SceneDefinition[];
+}
+
+/**
+ * Thrown when a scene pack does not match the schema. `issues` lists every problem found.
+ */
+export class ScenePackValidationError extends Error {
+    constructor(readonly issues: string[]) {
+        super(`Invalid scene pack:\n- ${issues.join('\n- ')}`);
+        this.name = 'ScenePackValidationError';
+    }
+}
+
+const MAX_SCENES = 24;
+const MAX_CAPTION_LENGTH = 60;
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const PERCENTAGE_PATTERN = /^-?\d+(\.\d+)?%$/;
+const CUSTOM_PACKS_STORAGE_KEY = 'violet-evergarden.custom-scene-packs';
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+function validateScene(scene: unknown, path: string, issues: string[]) {
+    if (!scene || typeof scene !== 'object') {
+        issues.push(`${path} must be an object.`);
+        return;
+    }
+    const { id, caption, prompt, fallbackPrompts, position, rotation, setting, outfit, mood } = scene as Record<string, unknown>;
+
+    if (!isNonEmptyString(id) || !ID_PATTERN.test(id)) {
+        issues.push(`${path}.id must be lowercase letters, digits and dashes.`);
+    }
+    if (!isNonEmptyString(caption) || caption.length > MAX_CAPTION_LENGTH) {
+        issues.push(`${path}.caption must be a non-empty string of at most ${MAX_CAPTION_LENGTH} characters.`);
+    }
+    if (!isNonEmptyString(prompt)) {
+        issues.push(`${path}.prompt must be a non-empty string.`);
+    }
+    if (!Array.isArray(fallbackPrompts) || !fallbackPrompts.every(isNonEmptyString)) {
+        issues.push(`${path}.fallbackPrompts must be an array of non-empty strings.`);
+    }
+    const { top, left } = (position ?? {}) as Record<string, unknown>;
+    if (typeof top !== 'string' || !PERCENTAGE_PATTERN.test(top) || typeof left !== 'string' || !PERCENTAGE_PATTERN.test(left)) {
+        issues.push(`${path}.position must have "top" and "left" percentages (e.g. "10%").`);
+    }
+    if (typeof rotation !== 'number' || !Number.isFinite(rotation) || Math.abs(rotation) > 45) {
+        issues.push(`${path}.rotation must be a number of degrees between -45 and 45.`);
+    }
+    for (const [field, value] of Object.entries({ setting, outfit, mood })) {
+        if (value !== undefined && typeof value !== 'string') {
+            issues.push(`${path}.${field} must be a string when present.`);
+        }
+    }
+}
+
+const SCATTER_ROTATIONS = [-8, 5, 3, 10, -12, -3];
+
+/**
+ * Returns a scattered desktop board placement for the scene at `index`,
+ * used for scenes that were added without an explicit position.
+ */
+export function scatterPosition(index: number, count: number): Pick<SceneDefinition, 'position' | 'rotation'> {
+    const cols = 3;
+    const rows = Math.max(2, Math.ceil(count / cols));
+    const row = Math.floor(index / cols);
+    const col = index % cols;
+    // Stagger alternate columns so cards overlap like a loose pile rather than a grid.
+    const top = (row * 90) / rows + (col % 2 === 0 ? 0 : 5);
+    const left = 5 + col * 30 + (row % 2 === 0 ? 0 : 5);
+    return {
+        position: { top: `${Math.round(top)}%`, left: `${Math.round(left)}%` },
+        rotation: SCATTER_ROTATIONS[index % SCATTER_ROTATIONS.length],
+    };
+}
+
+/**
+ * Checks an untrusted value against the scene pack schema.
+ * @param value Parsed JSON, e.g. from an imported file.
+ * @returns The value typed as a ScenePack.
+ * @throws ScenePackValidationError listing every problem found.
+ */
+export function validateScenePack(value: unknown): ScenePack {
+    const issues: string[] = [];
+    if (!value || typeof value !== 'object') {
+        throw new ScenePackValidationError(['The pack must be a JSON object.']);
+    }
+    const { id, name, version, scenes } = value as Record<string, unknown>;
+
+    if (!isNonEmptyString(id) || !ID_PATTERN.test(id)) {
+        issues.push('id must be lowercase letters, digits and dashes.');
+    }
+    if (!isNonEmptyString(name)) {
+        issues.push('name must be a non-empty string.');
+    }
+    if (version !== 1) {
+        issues.push('version must be 1.');
+    }
+    if (!Array.isArray(scenes) || scenes.length === 0 || scenes.length > MAX_SCENES) {
+        issues.push(`scenes must be an array of 1 to ${MAX_SCENES} scenes.`);
+    } else {
+        scenes.forEach((scene, index) => validateScene(scene, `scenes[${index}]`, issues));
+        const ids = scenes.map(scene => (scene as SceneDefinition)?.id);
+        const duplicates = ids.filter((sceneId, index) => ids.indexOf(sceneId) !== index);
+        if (duplicates.length > 0) {
+            issues.push(`Scene ids must be unique; duplicated: ${[...new Set(duplicates)].join(', ')}.`);
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new ScenePackValidationError(issues);
+    }
+    return value as ScenePack;
+}
+
+/**
+ * Parses and validates a scene pack from its JSON text.
+ */
+export function parseScenePack(json: string): ScenePack {
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch {
+        throw new ScenePackValidationError(['The file is not valid JSON.']);
+    }
+    return validateScenePack(value);
+}
+
+/**
+ * Serializes a scene pack to the JSON format accepted by parseScenePack.
+ */
+export function serializeScenePack(pack: ScenePack): string {
+    return JSON.stringify({ $schema: './scene-pack.schema.json', ...pack }, null, 4);
+}
+
+export const BUILT_IN_SCENE_PACKS: ScenePack[] = [violetEvergardenPack, winterLettersPack].map(validateScenePack);
+
+export const DEFAULT_SCENE_PACK = BUILT_IN_SCENE_PACKS[0];
+
+/**
+ * Loads packs the user has imported. Invalid entries are dropped rather than failing the app.
+ */
+export function loadCustomScenePacks(): ScenePack[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(CUSTOM_PACKS_STORAGE_KEY) ?? '[]');
+        return Array.isArray(stored) ? stored.flatMap(pack => {
+            try {
+                return [validateScenePack(pack)];
+            } catch (error) {
+                console.warn('Dropping invalid stored scene pack:', error);
+                return [];
+            }
+        }) : [];
+    } catch (error) {
+        console.warn('Could not read custom scene packs:', error);
+        return [];
+    }
+}
+
+/**
+ * @returns False if the packs couldn't be stored, e.g. because storage is full or disabled.
+ */
+export function saveCustomScenePacks(packs: ScenePack[]): boolean {
+    try {
+        localStorage.setItem(CUSTOM_PACKS_STORAGE_KEY, JSON.stringify(packs));
+        return true;
+    } catch (error) {
+        console.warn('Could not save custom scene packs:', error);
+        return false;
+    }
+}
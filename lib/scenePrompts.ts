@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * The user-authored description of a scene, from which its prompts are composed.
+ */
+export interface ScenePromptParts {
+    /** Free-form description of the place or moment, e.g. "At a Grand Ball". */
+    setting: string;
+    outfit?: string;
+    mood?: string;
+}
+
+function describeDetails({ outfit, mood }: ScenePromptParts): string {
+    const details: string[] = [];
+    if (outfit?.trim()) {
+        details.push(`The person is wearing ${outfit.trim()}.`);
+    }
+    if (mood?.trim()) {
+        details.push(`The mood of the image is ${mood.trim()}.`);
+    }
+    return details.length > 0 ? ` ${details.join(' ')}` : '';
+}
+
+/**
+ * Builds the primary prompt for a scene. With only a setting, this is the
+ * same wording the built-in packs use.
+ */
+export function composeScenePrompt(parts: ScenePromptParts): string {
+    return `Reimagine the person in this photo in the artistic style of the anime 'Violet Evergarden'. The scene is: "${parts.setting.trim()}".${describeDetails(parts)} Capture the painterly, emotional aesthetic of the anime with detailed clothing and background appropriate for the scene. The output must be a high-quality, artistic image.`;
+}
+
+/**
+ * Builds the first, softer prompt tried when the primary one is blocked.
+ */
+export function composeFallbackPrompt(parts: ScenePromptParts): string {
+    return `Create an artistic image of the person in this photo. The style should be inspired by the anime 'Violet Evergarden', and the setting is "${parts.setting.trim()}".${describeDetails(parts)} The image should have a painterly, emotional feel, with authentic-looking clothing and background. Ensure the final image is high quality and artistic.`;
+}
+
+/**
+ * Builds the last-resort prompt: a gentle portrait that keeps only the setting, dropping
+ * the outfit and mood in case those are what trips the filter.
+ */
+export function composeSafestPrompt(parts: ScenePromptParts): string {
+    return `Create a gentle, painterly portrait of the person in this photo, inspired by the soft watercolor look of the anime 'Violet Evergarden'. The background suggests "${parts.setting.trim()}". Keep the image calm, modest and artistic.`;
+}
+
+/**
+ * Builds the default ladder of fallback prompts, from least to most softened.
+ */
+export function composeFallbackLadder(parts: ScenePromptParts): string[] {
+    return [composeFallbackPrompt(parts), composeSafestPrompt(parts)];
+}
+
+const SOFTENED_PROMPTS_STORAGE_KEY = 'violet-evergarden.use-softened-prompts';
+
+/**
+ * Whether blocked scenes may be retried with their softened fallback prompts (the default),
+ * or should stop at the original prompt.
+ */
+export function loadUseSoftenedPrompts(): boolean {
+    try {
+        return localStorage.getItem(SOFTENED_PROMPTS_STORAGE_KEY) !== 'false';
+    } catch {
+        return true;
+    }
+}
+
+export function saveUseSoftenedPrompts(enabled: boolean): void {
+    try {
+        localStorage.setItem(SOFTENED_PROMPTS_STORAGE_KEY, String(enabled));
+    } catch (error) {
+        console.warn('Could not save the softened prompts setting:', error);
+    }
+}
@@ -0,0 +1,254 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { CharacterAnchor, ChatMessage, GeneratedImage, Subject } from '../types';
+import type { ScenePack } from './scenePacks';
+import type { AlbumSettings } from './albumLayouts';
+import type { BoardState } from './board';
+import { openDatabase, promisify, transactionDone, SESSIONS_STORE, SUMMARIES_STORE, RUN_JOURNALS_STORE } from './db';
+
+/**
+ * Everything needed to reopen a session exactly as it was left.
+ */
+export interface StoredSession {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    /** Snapshot of the scenes used, so sessions survive edits to or removal of their pack. */
+    scenePack: ScenePack;
+    /** The first photo uploaded, shown in the gallery when nothing has been generated. */
+    uploadedImage: string | null;
+    /** Absent for sessions saved before several photos could be uploaded. */
+    subjects?: Subject[];
+    images: Record<string, GeneratedImage>;
+    remixTranscripts: Record<string, ChatMessage[]>;
+    /** Absent for sessions saved before consistency mode existed, or without an anchor. */
+    anchor?: CharacterAnchor;
+    /** Absent for sessions saved before albums could be laid out. */
+    album?: AlbumSettings;
+    /** Where the cards were left on the desktop board. Absent for sessions saved before it was kept. */
+    board?: BoardState;
+}
+
+/**
+ * The lightweight part of a session shown in the gallery.
+ */
+export interface SessionSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    thumbnailUrl?: string;
+    sceneCount: number;
+    doneCount: number;
+    /** Approximate size of the stored session, in bytes. */
+    sizeBytes: number;
+}
+
+/**
+ * Thrown when a session cannot be saved even after evicting older sessions.
+ */
+export class StorageQuotaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StorageQuotaError';
+    }
+}
+
+// Eviction policy: keep at most this many sessions, and stay under this share of the
+// origin's quota. The least recently updated sessions are evicted first.
+const MAX_SESSIONS = 30;
+const QUOTA_HEADROOM = 0.8;
+
+function isQuotaError(error: unknown): boolean {
+    return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+}
+
+/**
+ * Estimates the stored size of a session. Strings dominate (image data URLs), so counting
+ * characters is close enough for eviction decisions.
+ */
+function estimateSize(session: StoredSession): number {
+    return JSON.stringify(session).length;
+}
+
+// Sessions are autosaved often; avoid re-decoding the same image for every save.
+const thumbnailCache = new Map<string, Promise<string | undefined>>();
+
+/**
+ * Scales an image down to a small JPEG for the gallery.
+ */
+function createThumbnail(imageUrl: string): Promise<string | undefined> {
+    let thumbnail = thumbnailCache.get(imageUrl);
+    if (!thumbnail) {
+        if (thumbnailCache.size > 20) thumbnailCache.clear();
+        thumbnail = renderThumbnail(imageUrl);
+        thumbnailCache.set(imageUrl, thumbnail);
+    }
+    return thumbnail;
+}
+
+async function renderThumbnail(imageUrl: string, maxSize = 240): Promise<string | undefined> {
+    try {
+        const img = new Image();
+        img.src = imageUrl;
+        await img.decode();
+        const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.naturalWidth * scale);
+        canvas.height = Math.round(img.naturalHeight * scale);
+        canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL('image/jpeg', 0.7);
+    } catch (error) {
+        console.warn('Could not create session thumbnail:', error);
+        return undefined;
+    }
+}
+
+async function summarize(session: StoredSession): Promise<SessionSummary> {
+    const firstDone = session.scenePack.scenes
+        .map(scene => session.images[scene.id])
+        .find(image => image?.status === 'done' && image.url);
+    const thumbnailSource = firstDone?.url ?? session.uploadedImage;
+    return {
+        id: session.id,
+        name: session.name,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        thumbnailUrl: thumbnailSource ? await createThumbnail(thumbnailSource) : undefined,
+        sceneCount: session.scenePack.scenes.length,
+        doneCount: Object.values(session.images).filter(image => image.status === 'done').length,
+        sizeBytes: estimateSize(session),
+    };
+}
+
+/**
+ * Returns all session summaries, most recently updated first.
+ */
+export async function listSessions(): Promise<SessionSummary[]> {
+    const db = await openDatabase();
+    const summaries = await promisify<SessionSummary[]>(db.transaction(SUMMARIES_STORE).objectStore(SUMMARIES_STORE).getAll());
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadSession(id: string): Promise<StoredSession | undefined> {
+    const db = await openDatabase();
+    return promisify<StoredSession | undefined>(db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).get(id));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, SUMMARIES_STORE, RUN_JOURNALS_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).delete(id);
+    tx.objectStore(SUMMARIES_STORE).delete(id);
+    tx.objectStore(RUN_JOURNALS_STORE).delete(id); // An interrupted run can't be resumed without its session
+    await transactionDone(tx);
+}
+
+/**
+ * Evicts least recently updated sessions until there is room for `bytesNeeded` more bytes
+ * and at most MAX_SESSIONS sessions. The session being saved is never evicted.
+ * @returns The names of evicted sessions.
+ */
+async function makeRoom(bytesNeeded: number, protectedId: string): Promise<string[]> {
+    const summaries = await listSessions();
+    const candidates = summaries.filter(summary => summary.id !== protectedId).reverse(); // Oldest first
+    const evicted: string[] = [];
+
+    // Count the session being saved, whether or not it is already stored.
+    let count = summaries.length + (summaries.some(summary => summary.id === protectedId) ? 0 : 1);
+    let available = Infinity;
+    if (navigator.storage?.estimate) {
+        const { usage = 0, quota = Infinity } = await navigator.storage.estimate();
+        available = quota * QUOTA_HEADROOM - usage;
+    }
+
+    while (candidates.length > 0 && (count > MAX_SESSIONS || available < bytesNeeded)) {
+        const victim = candidates.shift()!;
+        await deleteSession(victim.id);
+        evicted.push(victim.name);
+        available += victim.sizeBytes;
+        count--;
+    }
+    return evicted;
+}
+
+async function writeSession(session: StoredSession, summary: SessionSummary): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).put(session);
+    tx.objectStore(SUMMARIES_STORE).put(summary);
+    await transactionDone(tx);
+}
+
+/**
+ * Saves a session, evicting older sessions first if storage is running low.
+ * @returns The names of any sessions that were evicted to make room.
+ * @throws StorageQuotaError if the session does not fit even after eviction.
+ */
+export async function saveSession(session: StoredSession): Promise<string[]> {
+    const summary = await summarize(session);
+    const existing = (await listSessions()).find(s => s.id === session.id);
+    const evicted = await makeRoom(summary.sizeBytes - (existing?.sizeBytes ?? 0), session.id);
+
+    try {
+        await writeSession(session, summary);
+    } catch (error) {
+        if (!isQuotaError(error)) throw error;
+        // The estimate was optimistic; evict everything else and try once more.
+        evicted.push(...await makeRoom(Infinity, session.id));
+        try {
+            await writeSession(session, summary);
+        } catch (retryError) {
+            if (!isQuotaError(retryError)) throw retryError;
+            throw new StorageQuotaError('There is not enough browser storage to save this session.');
+        }
+    }
+    return evicted;
+}
+
+export async function renameSession(id: string, name: string): Promise<void> {
+    const session = await loadSession(id);
+    if (!session) return;
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite');
+    const summaries = tx.objectStore(SUMMARIES_STORE);
+    const summary = await promisify<SessionSummary | undefined>(summaries.get(id));
+    tx.objectStore(SESSIONS_STORE).put({ ...session, name });
+    if (summary) {
+        summaries.put({ ...summary, name });
+    }
+    await transactionDone(tx);
+}
+
+/**
+ * Copies a session under a new id.
+ * @returns The summary of the copy.
+ */
+export async function duplicateSession(id: string): Promise<SessionSummary | undefined> {
+    const session = await loadSession(id);
+    if (!session) return undefined;
+    const now = Date.now();
+    const copy: StoredSession = { ...session, id: createSessionId(), name: `${session.name} (copy)`, createdAt: now, updatedAt: now };
+    await saveSession(copy);
+    return (await listSessions()).find(summary => summary.id === copy.id);
+}
+
+export function createSessionId(): string {
+    return crypto.randomUUID();
+}
+
+/**
+ * Asks the browser not to clear our storage under pressure. Best effort; browsers may ignore it.
+ */
+export async function requestPersistentStorage(): Promise<void> {
+    try {
+        if (navigator.storage?.persist && !(await navigator.storage.persisted())) {
+            await navigator.storage.persist();
+        }
+    } catch (error) {
+        console.warn('Could not request persistent storage:', error);
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Subject } from '../types';
+
+export const MAX_SUBJECTS = 4;
+export const MAX_PHOTOS_PER_SUBJECT = 3;
+/** The main photo plus the server's default number of extra ones. */
+export const MAX_TOTAL_PHOTOS = 8;
+/** The server's default limit on the bytes of all the photos after the main one. */
+export const MAX_EXTRA_PHOTO_BYTES = 20 * 1024 * 1024;
+
+let subjectCounter = 0;
+export const createSubjectId = () => `subject-${Date.now().toString(36)}-${subjectCounter++}`;
+
+const defaultLabel = (index: number) => `Person ${index + 1}`;
+
+export function createSubject(photos: string[], index: number): Subject {
+    return { id: createSubjectId(), label: defaultLabel(index), photos };
+}
+
+/**
+ * Every subject's photos in the order they are sent: subject by subject.
+ */
+export function subjectPhotos(subjects: Subject[]): string[] {
+    return subjects.flatMap(subject => subject.photos);
+}
+
+/**
+ * The photo that stands for the whole upload, e.g. in the gallery.
+ */
+export function primaryPhoto(subjects: Subject[]): string | null {
+    return subjects[0]?.photos[0] ?? null;
+}
+
+export function countPhotos(subjects: Subject[]): number {
+    return subjects.reduce((sum, subject) => sum + subject.photos.length, 0);
+}
+
+function listNames(names: string[]): string {
+    return names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Says which of the photos sent show each subject, e.g. "Anna (photo 1), Ben (photos 2 and 3)".
+ */
+function describePhotoPositions(subjects: Subject[]): string {
+    let position = 0;
+    return subjects.map((subject, index) => {
+        const positions = subject.photos.map(() => ++position);
+        const label = subject.label.trim() || defaultLabel(index);
+        return `${label} (${positions.length === 1 ? 'photo' : 'photos'} ${listNames(positions.map(String))})`;
+    }).join(', ');
+}
+
+/**
+ * Adapts a scene prompt, written for one person in one photo, to the uploaded subjects.
+ * A single photo leaves the prompt as it is. Otherwise the prompt is introduced by which
+ * photo shows whom, and its references to "the person in this photo" are pluralized.
+ */
+export function promptForSubjects(prompt: string, subjects: Subject[]): string {
+    const photoCount = countPhotos(subjects);
+    if (photoCount <= 1) return prompt;
+
+    if (subjects.length === 1) {
+        const adapted = prompt.replace(/\bperson in this photo\b/gi, 'person in these photos');
+        return `All ${photoCount} photos show the same person; use them together to capture their likeness. ${adapted}`;
+    }
+
+    const names = listNames(subjects.map((subject, index) => subject.label.trim() || defaultLabel(index)));
+    const adapted = prompt
+        .replace(/\bthe person in this photo\b/gi, `the people in these photos (${names})`)
+        .replace(/\bThe person is wearing\b/g, 'Each of them is wearing');
+    return `These photos show ${subjects.length} different people: ${describePhotoPositions(subjects)}. `
+        + `All of them must appear together in the image, each keeping their own face and likeness. ${adapted}`;
+}
+
+/**
+ * The subjects of a saved session or run, which may predate subjects and only have its first photo.
+ */
+export function restoreSubjects(subjects: Subject[] | undefined, firstPhoto: string | null): Subject[] {
+    if (subjects && subjects.length > 0) return subjects;
+    return firstPhoto ? [createSubject([firstPhoto], 0)] : [];
+}
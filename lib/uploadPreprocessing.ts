@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage } from './albumCanvas';
+
+/** Formats the image API accepts; anything else the browser can open is re-encoded as JPEG. */
+const MODEL_FORMATS = ['image/png', 'image/jpeg', 'image/webp'];
+
+/** Files larger than this are refused before they are even decoded. */
+export const MAX_UPLOAD_FILE_BYTES = 40 * 1024 * 1024;
+/** Photos smaller than this on their shorter side give the model too little to work with. */
+export const MIN_UPLOAD_DIMENSION = 128;
+// Photos already in a model format, upright, small enough and under this size are sent untouched.
+const MAX_PASSTHROUGH_BYTES = 2 * 1024 * 1024;
+const JPEG_QUALITY = 0.92;
+
+/** The choices offered for the longest side of an uploaded photo, in pixels. */
+export const UPLOAD_SIZE_OPTIONS = [1024, 1536, 2048, 3072] as const;
+const DEFAULT_UPLOAD_SIZE = 2048;
+
+const UPLOAD_SIZE_STORAGE_KEY = 'violet-evergarden.max-upload-size';
+
+/**
+ * The longest side, in pixels, uploaded photos are scaled down to.
+ */
+export function loadMaxUploadSize(): number {
+    try {
+        const stored = Number(localStorage.getItem(UPLOAD_SIZE_STORAGE_KEY) ?? NaN);
+        return (UPLOAD_SIZE_OPTIONS as readonly number[]).includes(stored) ? stored : DEFAULT_UPLOAD_SIZE;
+    } catch {
+        return DEFAULT_UPLOAD_SIZE;
+    }
+}
+
+export function saveMaxUploadSize(size: number): void {
+    try {
+        localStorage.setItem(UPLOAD_SIZE_STORAGE_KEY, String(size));
+    } catch (error) {
+        console.warn('Could not save the upload size setting:', error);
+    }
+}
+
+/**
+ * Thrown when an uploaded file can't be used; the message is meant for the user.
+ */
+export class UploadRejectedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UploadRejectedError';
+    }
+}
+
+const isHeic = (file: File) => /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+/**
+ * Reads the EXIF orientation of a JPEG: 1 for upright, 2–8 for the mirrored and rotated
+ * variants. Returns 1 for anything without one, including non-JPEG data.
+ */
+export function readExifOrientation(buffer: ArrayBuffer): number {
+    const view = new DataView(buffer);
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        // Past the start of the image data there are no more metadata segments.
+        if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1;
+        const segmentLength = view.getUint16(offset + 2);
+        if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966 /* "Exif" */) {
+            const tiff = offset + 10;
+            if (tiff + 8 > view.byteLength) return 1;
+            const littleEndian = view.getUint16(tiff) === 0x4949;
+            const firstIfd = tiff + view.getUint32(tiff + 4, littleEndian);
+            if (firstIfd + 2 > view.byteLength) return 1;
+            const entryCount = view.getUint16(firstIfd, littleEndian);
+            for (let i = 0; i < entryCount; i++) {
+                const entry = firstIfd + 2 + i * 12;
+                if (entry + 10 > view.byteLength) return 1;
+                if (view.getUint16(entry, littleEndian) === 0x0112) {
+                    const orientation = view.getUint16(entry + 8, littleEndian);
+                    return orientation >= 1 && orientation <= 8 ? orientation : 1;
+                }
+            }
+            return 1;
+        }
+        offset += 2 + segmentLength;
+    }
+    return 1;
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error('Could not read the file.'));
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Draws an image, or a region of it, onto a white canvas and encodes it as a JPEG.
+ * Browsers apply EXIF orientation when drawing, so the result is always upright.
+ */
+function renderToJpeg(
+    img: HTMLImageElement,
+    source: { x: number; y: number; width: number; height: number },
+    width: number,
+    height: number,
+): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get 2D context from canvas');
+    // JPEG has no transparency; give transparent PNGs and SVGs a paper-white background.
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, source.x, source.y, source.width, source.height, 0, 0, width, height);
+    return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+}
+
+/**
+ * Turns an uploaded file into a photo the model can use: upright, no larger than
+ * `maxSize` on its longest side, and in a format the image API accepts.
+ * @returns A data URL. Photos that need none of this are returned as they are.
+ * @throws {UploadRejectedError} With a message explaining why the file can't be used.
+ */
+export async function preprocessUpload(file: File, maxSize: number): Promise<string> {
+    const name = file.name || 'That file';
+    if (!file.type.startsWith('image/') && !isHeic(file)) {
+        throw new UploadRejectedError(`"${name}" isn't an image. Please choose a JPEG, PNG or WebP photo.`);
+    }
+    if (file.size > MAX_UPLOAD_FILE_BYTES) {
+        throw new UploadRejectedError(`"${name}" is ${Math.round(file.size / 1024 / 1024)} MB; photos can be at most ${MAX_UPLOAD_FILE_BYTES / 1024 / 1024} MB.`);
+    }
+
+    const objectUrl = URL.createObjectURL(file);
+    try {
+        let img: HTMLImageElement;
+        try {
+            img = await loadImage(objectUrl);
+        } catch {
+            throw new UploadRejectedError(isHeic(file)
+                ? `"${name}" is a HEIC photo, which this browser can't open. Please convert it to JPEG, or set your camera to save "Most Compatible" photos.`
+                : `"${name}" couldn't be opened. It may be damaged, or in a format this browser doesn't support.`);
+        }
+
+        const { naturalWidth: width, naturalHeight: height } = img;
+        if (!width || !height) {
+            throw new UploadRejectedError(`"${name}" has no size, so it can't be used as a photo.`);
+        }
+        if (Math.min(width, height) < MIN_UPLOAD_DIMENSION) {
+            throw new UploadRejectedError(`"${name}" is only ${width}×${height} pixels; please use a photo at least ${MIN_UPLOAD_DIMENSION} pixels on each side.`);
+        }
+
+        const orientation = file.type === 'image/jpeg' ? readExifOrientation(await file.arrayBuffer()) : 1;
+        const scale = Math.min(1, maxSize / Math.max(width, height));
+        if (MODEL_FORMATS.includes(file.type) && orientation === 1 && scale === 1 && file.size <= MAX_PASSTHROUGH_BYTES) {
+            return readAsDataUrl(file);
+        }
+        return renderToJpeg(img, { x: 0, y: 0, width, height }, Math.round(width * scale), Math.round(height * scale));
+    } finally {
+        URL.revokeObjectURL(objectUrl);
+    }
+}
+
+/**
+ * Preprocesses several uploads, keeping the ones that could be used in their original order.
+ * @returns The usable photos, and a message for each file that was rejected.
+ */
+export async function preprocessUploads(files: File[], maxSize: number): Promise<{ photos: string[]; rejections: string[] }> {
+    const results = await Promise.allSettled(files.map(file => preprocessUpload(file, maxSize)));
+    const photos: string[] = [];
+    const rejections: string[] = [];
+    results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+            photos.push(result.value);
+        } else if (result.reason instanceof UploadRejectedError) {
+            rejections.push(result.reason.message);
+        } else {
+            console.error(`Failed to prepare ${files[index].name}:`, result.reason);
+            rejections.push(`"${files[index].name}" couldn't be read.`);
+        }
+    });
+    return { photos, rejections };
+}
+
+/** The size of the file a base64 data URL holds. */
+function dataUrlBytes(dataUrl: string): number {
+    const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+    return Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+}
+
+/**
+ * Shrinks photos, if need be, so that together they come to at most `maxBytes`, as the
+ * image API limits the photos sent alongside the main one. All of them are scaled down
+ * by the same factor, so no one person ends up with a much worse likeness.
+ * @returns The photos, as they were if they already fit.
+ */
+export async function fitPhotosToBudget(photos: string[], maxBytes: number): Promise<string[]> {
+    let fitted = photos;
+    let total = photos.reduce((sum, photo) => sum + dataUrlBytes(photo), 0);
+    if (total <= maxBytes) return photos;
+
+    const images = await Promise.all(photos.map(loadImage));
+    let scale = 1;
+    // JPEG size falls roughly with the pixel count; aim under the limit and retry if that wasn't enough.
+    for (let attempt = 0; attempt < 4 && total > maxBytes; attempt++) {
+        scale *= Math.sqrt(maxBytes / total) * 0.9;
+        fitted = images.map(img => renderToJpeg(
+            img,
+            { x: 0, y: 0, width: img.naturalWidth, height: img.naturalHeight },
+            Math.max(1, Math.round(img.naturalWidth * scale)),
+            Math.max(1, Math.round(img.naturalHeight * scale)),
+        ));
+        total = fitted.reduce((sum, photo) => sum + dataUrlBytes(photo), 0);
+    }
+    return fitted;
+}
+
+/**
+ * A region of an image, in its natural pixels.
+ */
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Cuts a region out of a photo.
+ * @returns A JPEG data URL the size of the region.
+ */
+export async function cropPhoto(photoUrl: string, crop: CropRect): Promise<string> {
+    const img = await loadImage(photoUrl);
+    return renderToJpeg(img, crop, Math.max(1, Math.round(crop.width)), Math.max(1, Math.round(crop.height)));
+}
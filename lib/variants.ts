@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GeneratedImage, ImageVariant } from '../types';
+
+export const MIN_VARIANTS = 1;
+export const MAX_VARIANTS = 4;
+
+let variantCounter = 0;
+export const createVariantId = () => `variant-${Date.now().toString(36)}-${variantCounter++}`;
+
+function clampVariantCount(value: number): number {
+    return Math.min(Math.max(Math.round(value) || MIN_VARIANTS, MIN_VARIANTS), MAX_VARIANTS);
+}
+
+const VARIANT_COUNT_STORAGE_KEY = 'violet-evergarden.variant-count';
+
+/**
+ * How many candidates to generate per scene; 1 (the default) generates a single image.
+ */
+export function loadVariantCount(): number {
+    try {
+        return clampVariantCount(Number(localStorage.getItem(VARIANT_COUNT_STORAGE_KEY)));
+    } catch {
+        return MIN_VARIANTS;
+    }
+}
+
+export function saveVariantCount(count: number): void {
+    try {
+        localStorage.setItem(VARIANT_COUNT_STORAGE_KEY, String(clampVariantCount(count)));
+    } catch (error) {
+        console.warn('Could not save the variant count setting:', error);
+    }
+}
+
+/**
+ * Builds a finished scene from freshly generated candidates. Starred variants of the
+ * previous result are kept ahead of the new ones, and stay chosen if one of them was.
+ * With a single candidate and nothing starred, the result carries no variants at all.
+ */
+export function withNewVariants(previous: GeneratedImage | undefined, candidates: ImageVariant[]): GeneratedImage {
+    const kept = previous?.variants?.filter(variant => variant.starred) ?? [];
+    const variants = [...kept, ...candidates];
+    const chosen = kept.find(variant => variant.id === previous?.chosenVariantId) ?? candidates[0];
+    if (variants.length === 1) {
+        return { status: 'done', url: chosen.url, promptRung: chosen.promptRung, updatedAt: Date.now() };
+    }
+    return { status: 'done', url: chosen.url, promptRung: chosen.promptRung, variants, chosenVariantId: chosen.id, updatedAt: Date.now() };
+}
+
+/**
+ * Makes a variant the scene's image, so it's the one shown, downloaded and put in the album.
+ */
+export function chooseVariant(image: GeneratedImage, variantId: string): GeneratedImage {
+    const variant = image.variants?.find(candidate => candidate.id === variantId);
+    if (!variant) return image;
+    return { ...image, url: variant.url, promptRung: variant.promptRung, chosenVariantId: variant.id, updatedAt: Date.now() };
+}
+
+export function toggleVariantStar(image: GeneratedImage, variantId: string): GeneratedImage {
+    return {
+        ...image,
+        variants: image.variants?.map(variant => variant.id === variantId ? { ...variant, starred: !variant.starred } : variant),
+    };
+}
+
+/**
+ * Drops a variant. Discarding the chosen one chooses the next remaining variant instead;
+ * the last variant can't be discarded.
+ */
+export function discardVariant(image: GeneratedImage, variantId: string): GeneratedImage {
+    const variants = image.variants ?? [];
+    if (variants.length <= 1) return image;
+    const index = variants.findIndex(variant => variant.id === variantId);
+    if (index === -1) return image;
+    const remaining = variants.filter(variant => variant.id !== variantId);
+    const updated = { ...image, variants: remaining };
+    return variantId === image.chosenVariantId
+        ? chooseVariant(updated, remaining[Math.min(index, remaining.length - 1)].id)
+        : updated;
+}
+
+/**
+ * Replaces the chosen image, e.g. with a remix, keeping the variant list in step.
+ */
+export function replaceChosenImage(image: GeneratedImage, url: string): GeneratedImage {
+    return {
+        ...image,
+        status: 'done',
+        url,
+        variants: image.variants?.map(variant => variant.id === image.chosenVariantId ? { ...variant, url } : variant),
+        updatedAt: Date.now(),
+    };
+}
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GeneratedImage, ImageVersion, VersionOrigin } from '../types';
+
+/** Oldest versions beyond this are dropped, so a long session doesn't fill up storage. */
+export const MAX_VERSIONS = 20;
+
+let versionCounter = 0;
+const createVersionId = () => `version-${Date.now().toString(36)}-${versionCounter++}`;
+
+/**
+ * Records the image's current url as a new version and makes it the current one.
+ * @param prompt The prompt (or remix instructions) that produced the image.
+ */
+export function appendVersion(image: GeneratedImage, origin: VersionOrigin, prompt: string): GeneratedImage {
+    if (!image.url) return image;
+    const version: ImageVersion = { id: createVersionId(), url: image.url, origin, prompt, createdAt: Date.now() };
+    return { ...image, versions: [...(image.versions ?? []), version].slice(-MAX_VERSIONS), currentVersionId: version.id };
+}
+
+/**
+ * Puts an earlier version back on the card. The history itself is left as it was.
+ */
+export function restoreVersion(image: GeneratedImage, versionId: string): GeneratedImage {
+    const version = image.versions?.find(candidate => candidate.id === versionId);
+    if (!version) return image;
+    // Variants belong to the latest generation; one is only chosen if it's the restored image.
+    const variant = image.variants?.find(candidate => candidate.url === version.url);
+    return {
+        ...image,
+        status: 'done',
+        url: version.url,
+        error: undefined,
+        errorKind: undefined,
+        block: undefined,
+        chosenVariantId: variant?.id,
+        currentVersionId: version.id,
+        updatedAt: Date.now(),
+    };
+}
+
+/**
+ * Points the current version at the image's url again, after a different variant was chosen.
+ */
+export function syncCurrentVersion(image: GeneratedImage): GeneratedImage {
+    if (!image.url || !image.currentVersionId) return image;
+    return {
+        ...image,
+        versions: image.versions?.map(version => version.id === image.currentVersionId ? { ...version, url: image.url! } : version),
+    };
+}
+
+/**
+ * The history to carry over while a scene is regenerating or after it failed, so a failed
+ * regenerate can still be undone by restoring an earlier version.
+ */
+export function keepHistory(image: GeneratedImage | undefined): Pick<GeneratedImage, 'versions'> {
+    return image?.versions ? { versions: image.versions } : {};
+}
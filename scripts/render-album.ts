@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { readFile, mkdir, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { createCanvas, GlobalFonts, loadImage } from '@napi-rs/canvas';
+import type { Canvas } from '@napi-rs/canvas';
+import type { AlbumCanvas, AlbumCanvasEnvironment, AlbumImage } from '../lib/albumCanvas';
+import { DEFAULT_ALBUM_SETTINGS } from '../lib/albumLayouts';
+import type { AlbumSettings } from '../lib/albumLayouts';
+import { albumEntriesFor, renderAlbum } from '../lib/albumUtils';
+import type { AlbumEntry } from '../lib/albumUtils';
+
+/*
+ * Draws an album without a browser, with the same renderer the app uses, on canvases
+ * from @napi-rs/canvas.
+ *
+ *     npm run render-album -- album.json [output directory]
+ *
+ * album.json holds the scenes, with photos given as paths relative to it, and any
+ * album settings that differ from the app's defaults:
+ *
+ *     { "settings": { "format": "pdf", "title": "Our trip" },
+ *       "entries": [{ "id": "letter", "caption": "The letter", "image": "letter.jpg" }] }
+ */
+
+interface AlbumFile {
+    settings?: Partial<AlbumSettings>;
+    entries: { id: string; caption: string; image?: string }[];
+}
+
+const require = createRequire(import.meta.url);
+
+// The faces index.html loads from Google Fonts, from the @fontsource packages instead.
+const FONT_FILES: { family: string; pkg: string; files: string[] }[] = [
+    { family: 'Great Vibes', pkg: '@fontsource/great-vibes', files: ['great-vibes-latin-400-normal', 'great-vibes-latin-ext-400-normal'] },
+    { family: 'Caveat', pkg: '@fontsource/caveat', files: ['caveat-latin-700-normal', 'caveat-latin-ext-700-normal'] },
+    { family: 'Lato', pkg: '@fontsource/lato', files: ['lato-latin-400-normal', 'lato-latin-ext-400-normal'] },
+];
+
+const nodeEnvironment: AlbumCanvasEnvironment = {
+    // @napi-rs/canvas follows the canvas API closely enough for album drawing, but its
+    // types are its own.
+    createCanvas: (width, height) => createCanvas(width, height) as unknown as AlbumCanvas,
+    loadImage: async src => await loadImage(src) as unknown as AlbumImage,
+    async encodeJpeg(canvas, quality) {
+        const jpeg = await (canvas as unknown as Canvas).encode('jpeg', Math.round(quality * 100));
+        return new Blob([jpeg], { type: 'image/jpeg' });
+    },
+    async loadFonts() {
+        for (const { family, pkg, files } of FONT_FILES) {
+            // The packages only export their stylesheets; the font files sit beside them.
+            const directory = path.join(path.dirname(require.resolve(pkg)), 'files');
+            for (const file of files) {
+                if (!GlobalFonts.registerFromPath(path.join(directory, `${file}.woff2`), family)) {
+                    throw new Error(`Could not register ${file}`);
+                }
+            }
+        }
+    },
+};
+
+async function main([albumPath, outputDir = '.']: string[]) {
+    if (!albumPath) {
+        throw new Error('Usage: npm run render-album -- album.json [output directory]');
+    }
+    const album: AlbumFile = JSON.parse(await readFile(albumPath, 'utf8'));
+    const settings: AlbumSettings = {
+        ...DEFAULT_ALBUM_SETTINGS,
+        ...album.settings,
+        print: { ...DEFAULT_ALBUM_SETTINGS.print, ...album.settings?.print },
+        edits: { ...DEFAULT_ALBUM_SETTINGS.edits, ...album.settings?.edits },
+    };
+    const albumDir = path.dirname(albumPath);
+    const entries: AlbumEntry[] = album.entries.map(({ id, caption, image }) => ({
+        id,
+        caption,
+        imageUrl: image ? path.resolve(albumDir, image) : undefined,
+    }));
+
+    const output = await renderAlbum(albumEntriesFor(entries, settings), settings, new Date(), {
+        environment: nodeEnvironment,
+        onProgress: ({ completed, total }) => process.stdout.write(`\rRendering album: ${completed} / ${total}`),
+    });
+    process.stdout.write('\n');
+
+    await mkdir(outputDir, { recursive: true });
+    const written: string[] = [];
+    if (output.format === 'jpeg') {
+        for (const [index, pageUrl] of output.pages.entries()) {
+            const file = path.join(outputDir, output.pages.length === 1 ? 'violet-evergarden-album.jpg' : `violet-evergarden-album-page-${index + 1}.jpg`);
+            await writeFile(file, Buffer.from(pageUrl.slice(pageUrl.indexOf(',') + 1), 'base64'));
+            written.push(file);
+        }
+    } else {
+        const file = path.join(outputDir, output.format === 'print' ? 'violet-evergarden-album-print.pdf' : 'violet-evergarden-album.pdf');
+        await writeFile(file, new Uint8Array(await output.pdf.arrayBuffer()));
+        written.push(file);
+    }
+    console.log(`Wrote ${written.join(', ')}`);
+}
+
+main(process.argv.slice(2)).catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
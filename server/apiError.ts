@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * An error that maps onto an HTTP response. The body mirrors the Gemini API's
+ * error shape ({ error: { code, message, status } }) so clients can handle
+ * proxied and upstream failures the same way.
+ */
+export class ApiError extends Error {
+    /**
+     * @param retryAfterSeconds For 429s, how long the client should wait; sent as a Retry-After header.
+     */
+    constructor(readonly code: number, readonly status: string, message: string, readonly retryAfterSeconds?: number) {
+        super(message);
+        this.name = 'ApiError';
+    }
+
+    toJSON() {
+        return { error: { code: this.code, message: this.message, status: this.status } };
+    }
+}
+
+/**
+ * Pulls an embedded `{"error":{...}}` body out of an upstream error message, if there is one.
+ */
+function parseUpstreamBody(message: string): ApiError | null {
+    const start = message.indexOf('{');
+    if (start === -1) {
+        return null;
+    }
+    try {
+        const { error } = JSON.parse(message.substring(start));
+        if (typeof error?.code === 'number' && typeof error?.message === 'string') {
+            // Upstream rate limits say how long to back off in a google.rpc.RetryInfo detail, e.g. "17s".
+            const retryDelay = Array.isArray(error.details)
+                ? error.details.find((detail: { retryDelay?: unknown }) => typeof detail?.retryDelay === 'string')?.retryDelay
+                : undefined;
+            const retryAfterSeconds = retryDelay ? Math.ceil(parseFloat(retryDelay)) : undefined;
+            return new ApiError(
+                error.code,
+                typeof error.status === 'string' ? error.status : 'UPSTREAM_ERROR',
+                error.message,
+                Number.isFinite(retryAfterSeconds) ? retryAfterSeconds : undefined,
+            );
+        }
+    } catch {
+        // Not JSON; fall through to the generic mapping.
+    }
+    return null;
+}
+
+/**
+ * Converts anything thrown by a provider into an ApiError, keeping the upstream
+ * status code when the SDK reports one.
+ */
+export function toApiError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+        return error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    const upstreamBody = parseUpstreamBody(message);
+    if (upstreamBody) {
+        return upstreamBody;
+    }
+    const upstreamCode = (error as { status?: unknown })?.status;
+    if (typeof upstreamCode === 'number' && upstreamCode >= 400) {
+        return new ApiError(upstreamCode, upstreamCode === 429 ? 'RESOURCE_EXHAUSTED' : 'UPSTREAM_ERROR', message);
+    }
+    if (message.includes('"code":500') || message.includes('INTERNAL')) {
+        return new ApiError(500, 'INTERNAL', message);
+    }
+    return new ApiError(502, 'UPSTREAM_ERROR', message);
+}
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { BlockStats } from './blockStats';
+
+const block = { stage: 'output' as const, reason: 'IMAGE_SAFETY', categories: ['HARM_CATEGORY_DANGEROUS_CONTENT'] };
+
+describe('BlockStats', () => {
+    it('counts requests and blocks per scene, most blocked first', () => {
+        const stats = new BlockStats();
+        stats.record('letter', undefined);
+        stats.record('war', block, 1000);
+        stats.record('war', { stage: 'prompt', reason: 'SAFETY', categories: [] }, 2000);
+        stats.record('letter', undefined);
+
+        expect(stats.snapshot()).toEqual([
+            {
+                sceneId: 'war', requests: 2, blocked: 2,
+                byStage: { prompt: 1, output: 1 },
+                byReason: { IMAGE_SAFETY: 1, SAFETY: 1 },
+                byCategory: { HARM_CATEGORY_DANGEROUS_CONTENT: 1 },
+                lastBlockedAt: 2000,
+            },
+            { sceneId: 'letter', requests: 2, blocked: 0, byStage: { prompt: 0, output: 0 }, byReason: {}, byCategory: {} },
+        ]);
+    });
+
+    it('drops the scene recorded least recently once it tracks the most it may', () => {
+        const stats = new BlockStats(2);
+        stats.record('a', undefined);
+        stats.record('b', undefined);
+        stats.record('a', undefined);
+        stats.record('c', undefined);
+        expect(stats.snapshot().map(scene => scene.sceneId).sort()).toEqual(['a', 'c']);
+    });
+});
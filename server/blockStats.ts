@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { BlockInfo } from '../services/imageProvider';
+
+export interface SceneBlockStats {
+    sceneId: string;
+    requests: number;
+    blocked: number;
+    /** Blocks by stage: the prompt rejected up front, or the output filtered. */
+    byStage: Record<BlockInfo['stage'], number>;
+    /** Blocks by the API's reason, e.g. { SAFETY: 3, IMAGE_SAFETY: 1 }. */
+    byReason: Record<string, number>;
+    /** Blocks by harm category. */
+    byCategory: Record<string, number>;
+    lastBlockedAt?: number;
+}
+
+const increment = (counts: Record<string, number>, key: string) => {
+    counts[key] = (counts[key] ?? 0) + 1;
+};
+
+/**
+ * Counts requests and blocks per scene, so it's visible which scenes trip the safety
+ * filters most often. Kept in memory; the counts start over when the server restarts.
+ */
+export class BlockStats {
+    private readonly scenes = new Map<string, SceneBlockStats>();
+
+    /**
+     * @param maxScenes Most scenes tracked at once. Scene ids come from clients, so once
+     * this many are tracked the one recorded least recently is dropped for each new one.
+     */
+    constructor(private readonly maxScenes = 500) {}
+
+    record(sceneId: string, block: BlockInfo | undefined, now = Date.now()): void {
+        let stats = this.scenes.get(sceneId);
+        if (stats) {
+            // Maps iterate in insertion order; re-inserting keeps the least recently recorded first.
+            this.scenes.delete(sceneId);
+        } else {
+            stats = { sceneId, requests: 0, blocked: 0, byStage: { prompt: 0, output: 0 }, byReason: {}, byCategory: {} };
+            if (this.scenes.size >= this.maxScenes) {
+                this.scenes.delete(this.scenes.keys().next().value!);
+            }
+        }
+        this.scenes.set(sceneId, stats);
+        stats.requests++;
+        if (!block) {
+            return;
+        }
+        stats.blocked++;
+        stats.byStage[block.stage]++;
+        increment(stats.byReason, block.reason);
+        block.categories.forEach(category => increment(stats.byCategory, category));
+        stats.lastBlockedAt = now;
+    }
+
+    /** Returns every scene seen so far, most often blocked first. */
+    snapshot(): SceneBlockStats[] {
+        return [...this.scenes.values()].sort((a, b) => b.blocked - a.blocked || b.blocked / b.requests - a.blocked / a.requests);
+    }
+}
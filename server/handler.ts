@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ImageProvider } from '../services/imageProvider';
+import { ApiError, toApiError } from './apiError';
+import type { BlockStats } from './blockStats';
+import { isAbortError } from '../lib/abort';
+import type { RateLimiter } from './rateLimiter';
+import { validateImageRequest } from './validation';
+import type { UploadLimits } from './validation';
+
+export interface ApiHandlerOptions {
+    provider: ImageProvider;
+    rateLimiter: RateLimiter;
+    limits: UploadLimits;
+    blockStats: BlockStats;
+    /** Use the first X-Forwarded-For address as the client id (only behind a trusted proxy). */
+    trustProxy?: boolean;
+    /** Bearer token that unlocks /api/block-stats. Without one the route doesn't exist. */
+    blockStatsToken?: string;
+}
+
+const ROUTES: Record<string, keyof Pick<ImageProvider, 'generate' | 'remix'>> = {
+    '/api/generate': 'generate',
+    '/api/remix': 'remix',
+};
+
+/**
+ * Checks a request's `Authorization: Bearer` header against `token`, in constant time.
+ */
+function hasBearerToken(req: IncomingMessage, token: string): boolean {
+    const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+    if (!match) {
+        return false;
+    }
+    // Hashing first gives both sides the same length, which timingSafeEqual requires.
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(match[1]), digest(token));
+}
+
+function clientIdFor(req: IncomingMessage, trustProxy: boolean): string {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (trustProxy && typeof forwarded === 'string' && forwarded) {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+}
+
+/**
+ * Reads a request body, rejecting it as soon as it grows past maxBytes.
+ */
+function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                reject(new ApiError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds ${maxBytes} bytes.`));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Creates the request handler for the image API. The provider holds the API key;
+ * the browser only ever talks to these routes.
+ */
+export function createApiHandler({ provider, rateLimiter, limits, blockStats, trustProxy = false, blockStatsToken }: ApiHandlerOptions) {
+    // base64 inflates payloads by 4/3; leave headroom for the prompts (remix history included) and JSON framing.
+    // A remix can carry a mask as large as its image; a generation, a reference image and extra subject photos.
+    const maxBodyBytes = Math.ceil((limits.maxImageBytes * 2 + limits.maxHistoryImageBytes + limits.maxExtraImageBytes) * 4 / 3)
+        + limits.maxPromptLength * 4 * (limits.maxHistoryTurns + 1) + 1024 * (limits.maxHistoryTurns + limits.maxExtraImages + 1);
+
+    return async (req: IncomingMessage, res: ServerResponse) => {
+        const path = (req.url ?? '').split('?')[0];
+
+        if (path === '/api/health' && req.method === 'GET') {
+            sendJson(res, 200, { ok: true, provider: provider.id });
+            return;
+        }
+
+        const checkRateLimit = () => {
+            const limit = rateLimiter.check(clientIdFor(req, trustProxy));
+            if (!limit.allowed) {
+                throw new ApiError(429, 'RESOURCE_EXHAUSTED', `Too many requests. Try again in ${limit.retryAfterSeconds}s.`, limit.retryAfterSeconds);
+            }
+        };
+
+        const method = ROUTES[path];
+        try {
+            // Block statistics say what the safety filters catch, so only an operator holding the token may read them.
+            if (path === '/api/block-stats' && blockStatsToken) {
+                if (req.method !== 'GET') {
+                    throw new ApiError(405, 'METHOD_NOT_ALLOWED', `${path} only accepts GET.`);
+                }
+                checkRateLimit();
+                if (!hasBearerToken(req, blockStatsToken)) {
+                    throw new ApiError(401, 'UNAUTHENTICATED', 'A valid bearer token is required.');
+                }
+                sendJson(res, 200, { scenes: blockStats.snapshot() });
+                return;
+            }
+
+            if (!method) {
+                throw new ApiError(404, 'NOT_FOUND', `No route for ${path}.`);
+            }
+            if (req.method !== 'POST') {
+                throw new ApiError(405, 'METHOD_NOT_ALLOWED', `${path} only accepts POST.`);
+            }
+            if (!req.headers['content-type']?.startsWith('application/json')) {
+                throw new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Requests must be sent as application/json.');
+            }
+
+            checkRateLimit();
+
+            let body: unknown;
+            try {
+                body = JSON.parse(await readBody(req, maxBodyBytes));
+            } catch (error) {
+                throw error instanceof ApiError ? error : new ApiError(400, 'INVALID_ARGUMENT', 'Request body is not valid JSON.');
+            }
+
+            // Cancel the upstream call if the browser goes away before we answer.
+            const controller = new AbortController();
+            res.on('close', () => {
+                if (!res.writableEnded) controller.abort();
+            });
+
+            const request = validateImageRequest(body, limits);
+            const result = await provider[method]({ ...request, signal: controller.signal });
+            if (request.sceneId) {
+                blockStats.record(request.sceneId, result.block);
+            }
+            if (result.block) {
+                const { stage, reason, categories } = result.block;
+                console.warn(`${path}: ${stage} blocked for scene "${request.sceneId ?? 'unknown'}" (${reason}${categories.length ? `: ${categories.join(', ')}` : ''}).`);
+            }
+            sendJson(res, 200, result);
+        } catch (error) {
+            if (isAbortError(error)) {
+                return; // The client disconnected; there is no one to answer.
+            }
+            const apiError = toApiError(error);
+            if (apiError.code >= 500) {
+                console.error(`${req.method} ${path} failed:`, error);
+            }
+            if (!res.headersSent) {
+                const headers: Record<string, string> = apiError.retryAfterSeconds !== undefined
+                    ? { 'Retry-After': String(apiError.retryAfterSeconds) }
+                    : {};
+                sendJson(res, apiError.code, apiError, headers);
+            }
+        }
+    };
+}
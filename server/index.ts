@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createServer } from 'node:http';
+import type { ImageProvider } from '../services/imageProvider';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { createStubProvider } from '../services/providers/stubProvider';
+import { BlockStats } from './blockStats';
+import { createApiHandler } from './handler';
+import { renderPngPlaceholder } from './placeholderPng';
+import { RateLimiter } from './rateLimiter';
+import { DEFAULT_UPLOAD_LIMITS } from './validation';
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function createServerProvider(): ImageProvider {
+    const requested = process.env.IMAGE_PROVIDER ?? 'gemini';
+    if (requested === 'stub') {
+        return createStubProvider({ renderPlaceholder: renderPngPlaceholder });
+    }
+    if (requested !== 'gemini') {
+        throw new Error(`Unknown IMAGE_PROVIDER "${requested}". Expected "gemini" or "stub".`);
+    }
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+        throw new Error("GEMINI_API_KEY environment variable is not set. Set IMAGE_PROVIDER=stub to run without it.");
+    }
+    return createGeminiProvider({ apiKey, model: process.env.GEMINI_IMAGE_MODEL });
+}
+
+const port = numberFromEnv('PORT', 8787);
+const provider = createServerProvider();
+const rateLimiter = new RateLimiter(
+    numberFromEnv('RATE_LIMIT_MAX_REQUESTS', 30),
+    numberFromEnv('RATE_LIMIT_WINDOW_SECONDS', 60) * 1000,
+);
+setInterval(() => rateLimiter.prune(), 60_000).unref();
+
+const handler = createApiHandler({
+    provider,
+    rateLimiter,
+    limits: {
+        ...DEFAULT_UPLOAD_LIMITS,
+        maxImageBytes: numberFromEnv('MAX_IMAGE_BYTES', DEFAULT_UPLOAD_LIMITS.maxImageBytes),
+        maxHistoryTurns: numberFromEnv('MAX_HISTORY_TURNS', DEFAULT_UPLOAD_LIMITS.maxHistoryTurns),
+        maxHistoryImageBytes: numberFromEnv('MAX_HISTORY_IMAGE_BYTES', DEFAULT_UPLOAD_LIMITS.maxHistoryImageBytes),
+        maxExtraImages: numberFromEnv('MAX_EXTRA_IMAGES', DEFAULT_UPLOAD_LIMITS.maxExtraImages),
+        maxExtraImageBytes: numberFromEnv('MAX_EXTRA_IMAGE_BYTES', DEFAULT_UPLOAD_LIMITS.maxExtraImageBytes),
+    },
+    trustProxy: process.env.TRUST_PROXY === '1',
+    blockStatsToken: process.env.BLOCK_STATS_TOKEN || undefined,
+    blockStats: new BlockStats(numberFromEnv('MAX_TRACKED_SCENES', 500)),
+});
+
+createServer(handler).listen(port, () => {
+    console.log(`Image API listening on http://localhost:${port} using the "${provider.id}" provider.`);
+});
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { deflateSync } from 'node:zlib';
+import type { PlaceholderRenderer } from '../services/providers/stubProvider';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+function crc32(bytes: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(typeAndData));
+    return Buffer.concat([length, typeAndData, crc]);
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+    const a = s * Math.min(l, 1 - l);
+    const f = (n: number) => {
+        const k = (n + h / 30) % 12;
+        return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+    };
+    return [f(0), f(8), f(4)];
+}
+
+/**
+ * Renders a diagonal gradient PNG without a canvas, for the server's stub mode.
+ * There is no text rendering in Node, so the label is carried in a tEXt chunk instead.
+ */
+export const renderPngPlaceholder: PlaceholderRenderer = async (label, hue) => {
+    const size = 256;
+    const from = hslToRgb(hue, 0.45, 0.7);
+    const to = hslToRgb((hue + 60) % 360, 0.45, 0.4);
+
+    // Each scanline starts with a filter-type byte (0 = none), followed by RGB triples.
+    const raw = Buffer.alloc(size * (size * 3 + 1));
+    for (let y = 0; y < size; y++) {
+        const row = y * (size * 3 + 1);
+        for (let x = 0; x < size; x++) {
+            const t = (x + y) / (2 * (size - 1));
+            for (let c = 0; c < 3; c++) {
+                raw[row + 1 + x * 3 + c] = Math.round(from[c] + (to[c] - from[c]) * t);
+            }
+        }
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(size, 0);
+    header.writeUInt32BE(size, 4);
+    header[8] = 8; // bit depth
+    header[9] = 2; // colour type: truecolour
+
+    const png = Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        chunk('IHDR', header),
+        chunk('tEXt', Buffer.from(`Title\0${label}`, 'latin1')),
+        chunk('IDAT', deflateSync(raw)),
+        chunk('IEND', Buffer.alloc(0)),
+    ]);
+    return `data:image/png;base64,${png.toString('base64')}`;
+};
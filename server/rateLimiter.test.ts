@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from './rateLimiter';
+
+describe('RateLimiter', () => {
+    it('allows up to the limit in a window, then says how long to wait', () => {
+        const limiter = new RateLimiter(2, 60000);
+        expect(limiter.check('a', 0)).toEqual({ allowed: true });
+        expect(limiter.check('a', 1000)).toEqual({ allowed: true });
+        expect(limiter.check('a', 1500)).toEqual({ allowed: false, retryAfterSeconds: 59 });
+        expect(limiter.check('a', 59999)).toEqual({ allowed: false, retryAfterSeconds: 1 });
+    });
+
+    it('starts a new window once the old one has passed', () => {
+        const limiter = new RateLimiter(1, 60000);
+        limiter.check('a', 0);
+        expect(limiter.check('a', 30000).allowed).toBe(false);
+        expect(limiter.check('a', 60000).allowed).toBe(true);
+        expect(limiter.check('a', 60001).allowed).toBe(false);
+    });
+
+    it('counts each client on its own', () => {
+        const limiter = new RateLimiter(1, 60000);
+        expect(limiter.check('a', 0).allowed).toBe(true);
+        expect(limiter.check('b', 0).allowed).toBe(true);
+        expect(limiter.check('a', 0).allowed).toBe(false);
+    });
+
+    it('keeps windows that are still running when pruning', () => {
+        const limiter = new RateLimiter(1, 60000);
+        limiter.check('old', 0);
+        limiter.check('recent', 30000);
+        limiter.prune(70000);
+        expect(limiter.check('recent', 70000).allowed).toBe(false);
+        expect(limiter.check('old', 70000).allowed).toBe(true);
+    });
+});
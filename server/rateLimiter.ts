@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RateLimitResult {
+    allowed: boolean;
+    /** Seconds until the client may try again; only set when the request is not allowed. */
+    retryAfterSeconds?: number;
+}
+
+/**
+ * A fixed-window rate limiter keyed by client id (usually the remote address).
+ */
+export class RateLimiter {
+    private readonly windows = new Map<string, { startedAt: number; count: number }>();
+
+    constructor(private readonly maxRequests: number, private readonly windowMs: number) {}
+
+    check(clientId: string, now = Date.now()): RateLimitResult {
+        let window = this.windows.get(clientId);
+        if (!window || now - window.startedAt >= this.windowMs) {
+            window = { startedAt: now, count: 0 };
+            this.windows.set(clientId, window);
+        }
+
+        if (window.count >= this.maxRequests) {
+            return { allowed: false, retryAfterSeconds: Math.ceil((window.startedAt + this.windowMs - now) / 1000) };
+        }
+        window.count++;
+        return { allowed: true };
+    }
+
+    /** Drops windows that have expired so idle clients don't accumulate. */
+    prune(now = Date.now()): void {
+        for (const [clientId, window] of this.windows) {
+            if (now - window.startedAt >= this.windowMs) {
+                this.windows.delete(clientId);
+            }
+        }
+    }
+}
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { ApiError } from './apiError';
+import { DEFAULT_UPLOAD_LIMITS, validateImageRequest } from './validation';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// A payload that passes the signature check, padded out to `bytes`.
+const png = (bytes = 16) => ({ mimeType: 'image/png', data: Buffer.concat([PNG_SIGNATURE, Buffer.alloc(bytes - PNG_SIGNATURE.length)]).toString('base64') });
+
+function rejection(body: unknown, limits = DEFAULT_UPLOAD_LIMITS): ApiError {
+    try {
+        validateImageRequest(body, limits);
+    } catch (error) {
+        expect(error).toBeInstanceOf(ApiError);
+        return error as ApiError;
+    }
+    throw new Error('Expected the request to be rejected');
+}
+
+describe('validateImageRequest', () => {
+    it('returns a valid request, leaving out empty optional lists', () => {
+        const image = png();
+        expect(validateImageRequest({ image, prompt: 'A letter', sceneId: 'letter-1', extraImages: [], history: [] }, DEFAULT_UPLOAD_LIMITS))
+            .toEqual({ image, prompt: 'A letter', sceneId: 'letter-1' });
+    });
+
+    it('keeps extra images, a mask and a reference', () => {
+        const request = validateImageRequest({ image: png(), prompt: 'A letter', extraImages: [png(), png()], mask: png(), reference: png() }, DEFAULT_UPLOAD_LIMITS);
+        expect(request.extraImages).toHaveLength(2);
+        expect(request.mask).toEqual(png());
+        expect(request.reference).toEqual(png());
+    });
+
+    it.each([
+        ['a body that is not an object', 'nope'],
+        ['a blank prompt', { image: png(), prompt: '   ' }],
+        ['a prompt over the length limit', { image: png(), prompt: 'x'.repeat(DEFAULT_UPLOAD_LIMITS.maxPromptLength + 1) }],
+        ['a scene id with other characters', { image: png(), prompt: 'A letter', sceneId: '../letter' }],
+        ['a missing image', { prompt: 'A letter' }],
+        ['data that is not base64', { image: { mimeType: 'image/png', data: 'not base64!' }, prompt: 'A letter' }],
+        ['data that does not match its type', { image: { mimeType: 'image/jpeg', data: png().data }, prompt: 'A letter' }],
+        ['extra images that are not a list', { image: png(), prompt: 'A letter', extraImages: png() }],
+        ['too many extra images', { image: png(), prompt: 'A letter', extraImages: Array.from({ length: DEFAULT_UPLOAD_LIMITS.maxExtraImages + 1 }, () => png()) }],
+    ])('rejects %s with a 400', (_, body) => {
+        const error = rejection(body);
+        expect(error.code).toBe(400);
+        expect(error.status).toBe('INVALID_ARGUMENT');
+    });
+
+    it('rejects an unsupported image type with a 415', () => {
+        const error = rejection({ image: { mimeType: 'image/gif', data: 'R0lGODlh' }, prompt: 'A letter' });
+        expect(error.code).toBe(415);
+        expect(error.status).toBe('UNSUPPORTED_MEDIA_TYPE');
+    });
+
+    it('rejects an image over the size limit with a 413', () => {
+        const error = rejection({ image: png(64), prompt: 'A letter' }, { ...DEFAULT_UPLOAD_LIMITS, maxImageBytes: 32 });
+        expect(error.code).toBe(413);
+        expect(error.message).toBe('Image is 64 bytes; the limit is 32.');
+    });
+
+    it('rejects extra images that are each allowed but too large together with a 413', () => {
+        const limits = { ...DEFAULT_UPLOAD_LIMITS, maxImageBytes: 64, maxExtraImageBytes: 100 };
+        expect(validateImageRequest({ image: png(), prompt: 'A letter', extraImages: [png(50), png(50)] }, limits).extraImages).toHaveLength(2);
+        const error = rejection({ image: png(), prompt: 'A letter', extraImages: [png(50), png(51)] }, limits);
+        expect(error.code).toBe(413);
+        expect(error.status).toBe('PAYLOAD_TOO_LARGE');
+    });
+
+    it('rejects a remix history over its image budget with a 413', () => {
+        const history = [{ role: 'user', text: 'Add snow', image: png(40) }, { role: 'model', image: png(40) }];
+        const error = rejection({ image: png(), prompt: 'More snow', history }, { ...DEFAULT_UPLOAD_LIMITS, maxHistoryImageBytes: 64 });
+        expect(error.code).toBe(413);
+    });
+});
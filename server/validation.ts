@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ConversationTurn, ImageRequest, InlineImage } from '../services/imageProvider';
+import { ApiError } from './apiError';
+
+export interface UploadLimits {
+    maxImageBytes: number;
+    maxPromptLength: number;
+    allowedMimeTypes: readonly string[];
+    /** Most earlier turns a remix may be sent with. */
+    maxHistoryTurns: number;
+    /** Most image bytes across all earlier turns of a remix. */
+    maxHistoryImageBytes: number;
+    /** Most subject photos a generation may send besides its main image. */
+    maxExtraImages: number;
+    /** Most image bytes across those extra photos. */
+    maxExtraImageBytes: number;
+}
+
+export const DEFAULT_UPLOAD_LIMITS: UploadLimits = {
+    maxImageBytes: 7 * 1024 * 1024,
+    maxPromptLength: 4000,
+    allowedMimeTypes: ['image/png', 'image/jpeg', 'image/webp'],
+    maxHistoryTurns: 16,
+    maxHistoryImageBytes: 20 * 1024 * 1024,
+    maxExtraImages: 7,
+    maxExtraImageBytes: 20 * 1024 * 1024,
+};
+
+// Leading bytes of each allowed format, used to check that the payload matches its declared type.
+const SIGNATURES: Record<string, (bytes: Buffer) => boolean> = {
+    'image/png': bytes => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+    'image/jpeg': bytes => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff,
+    'image/webp': bytes => bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP',
+};
+
+function invalid(message: string): ApiError {
+    return new ApiError(400, 'INVALID_ARGUMENT', message);
+}
+
+/**
+ * Checks an untrusted inline image and returns it with its decoded size.
+ * @param field The name to use in error messages, e.g. "image" or "history[2].image".
+ */
+function validateInlineImage(value: unknown, field: string, limits: UploadLimits): { image: InlineImage; bytes: number } {
+    if (!value || typeof value !== 'object') {
+        throw invalid(`"${field}" must be an object with "mimeType" and "data".`);
+    }
+    const { mimeType, data } = value as Record<string, unknown>;
+    if (typeof mimeType !== 'string' || typeof data !== 'string') {
+        throw invalid(`"${field}" must be an object with "mimeType" and "data".`);
+    }
+    if (!limits.allowedMimeTypes.includes(mimeType)) {
+        throw new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', `Unsupported image type "${mimeType}". Allowed: ${limits.allowedMimeTypes.join(', ')}.`);
+    }
+    if (!/^[A-Za-z0-9+/]+={0,2}$/.test(data)) {
+        throw invalid(`"${field}.data" must be base64-encoded.`);
+    }
+
+    const bytes = Buffer.from(data, 'base64');
+    if (bytes.length > limits.maxImageBytes) {
+        throw new ApiError(413, 'PAYLOAD_TOO_LARGE', `Image is ${bytes.length} bytes; the limit is ${limits.maxImageBytes}.`);
+    }
+    const matchesSignature = SIGNATURES[mimeType];
+    if (matchesSignature && !matchesSignature(bytes)) {
+        throw invalid(`Image data is not a valid ${mimeType} file.`);
+    }
+    return { image: { mimeType, data }, bytes: bytes.length };
+}
+
+function validateHistory(history: unknown, limits: UploadLimits): ConversationTurn[] {
+    if (!Array.isArray(history)) {
+        throw invalid('"history" must be an array of turns.');
+    }
+    if (history.length > limits.maxHistoryTurns) {
+        throw invalid(`"history" can have at most ${limits.maxHistoryTurns} turns.`);
+    }
+    let totalBytes = 0;
+    const turns = history.map((turn: unknown, index): ConversationTurn => {
+        const field = `history[${index}]`;
+        if (!turn || typeof turn !== 'object') {
+            throw invalid(`"${field}" must be an object.`);
+        }
+        const { role, text, image } = turn as Record<string, unknown>;
+        if (role !== 'user' && role !== 'model') {
+            throw invalid(`"${field}.role" must be "user" or "model".`);
+        }
+        if (text !== undefined && (typeof text !== 'string' || text.length > limits.maxPromptLength)) {
+            throw invalid(`"${field}.text" must be a string of at most ${limits.maxPromptLength} characters.`);
+        }
+        if (text === undefined && image === undefined) {
+            throw invalid(`"${field}" must have "text", "image" or both.`);
+        }
+        if (image === undefined) {
+            return { role, text: text as string };
+        }
+        const validated = validateInlineImage(image, `${field}.image`, limits);
+        totalBytes += validated.bytes;
+        return { role, ...(text !== undefined && { text: text as string }), image: validated.image };
+    });
+    if (totalBytes > limits.maxHistoryImageBytes) {
+        throw new ApiError(413, 'PAYLOAD_TOO_LARGE', `History images total ${totalBytes} bytes; the limit is ${limits.maxHistoryImageBytes}.`);
+    }
+    return turns;
+}
+
+function validateExtraImages(extraImages: unknown, limits: UploadLimits): InlineImage[] {
+    if (!Array.isArray(extraImages)) {
+        throw invalid('"extraImages" must be an array of images.');
+    }
+    if (extraImages.length > limits.maxExtraImages) {
+        throw invalid(`"extraImages" can have at most ${limits.maxExtraImages} images.`);
+    }
+    let totalBytes = 0;
+    const images = extraImages.map((extra: unknown, index) => {
+        const validated = validateInlineImage(extra, `extraImages[${index}]`, limits);
+        totalBytes += validated.bytes;
+        return validated.image;
+    });
+    if (totalBytes > limits.maxExtraImageBytes) {
+        throw new ApiError(413, 'PAYLOAD_TOO_LARGE', `Extra images total ${totalBytes} bytes; the limit is ${limits.maxExtraImageBytes}.`);
+    }
+    return images;
+}
+
+/**
+ * Checks an untrusted request body and returns it as an ImageRequest.
+ * Throws an ApiError (400/413/415) describing the first problem found.
+ */
+export function validateImageRequest(body: unknown, limits: UploadLimits): ImageRequest {
+    if (!body || typeof body !== 'object') {
+        throw invalid('Request body must be a JSON object.');
+    }
+    const { image, prompt, sceneId, extraImages, history, mask, reference } = body as Record<string, unknown>;
+
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+        throw invalid('"prompt" must be a non-empty string.');
+    }
+    if (prompt.length > limits.maxPromptLength) {
+        throw invalid(`"prompt" must be at most ${limits.maxPromptLength} characters.`);
+    }
+
+    if (sceneId !== undefined && (typeof sceneId !== 'string' || !/^[a-z0-9-]{1,64}$/.test(sceneId))) {
+        throw invalid('"sceneId" must be lowercase letters, digits and dashes.');
+    }
+
+    const validated = validateInlineImage(image, 'image', limits);
+    const extras = extraImages === undefined ? undefined : validateExtraImages(extraImages, limits);
+    const turns = history === undefined ? undefined : validateHistory(history, limits);
+    const validatedMask = mask === undefined ? undefined : validateInlineImage(mask, 'mask', limits);
+    const validatedReference = reference === undefined ? undefined : validateInlineImage(reference, 'reference', limits);
+
+    return {
+        image: validated.image,
+        prompt,
+        sceneId: sceneId as string | undefined,
+        ...(extras && extras.length > 0 && { extraImages: extras }),
+        ...(turns && turns.length > 0 && { history: turns }),
+        ...(validatedMask && { mask: validatedMask.image }),
+        ...(validatedReference && { reference: validatedReference.image }),
+    };
+}
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateStyledImage } from './geminiService';
+import { GenerationError } from './generationErrors';
+import { setImageProvider } from './imageProvider';
+import type { ImageProvider, ImageRequest, ImageResponse } from './imageProvider';
+import { createStubProvider, STUB_BLOCK_MARKER, STUB_INTERNAL_ERROR_MARKER, STUB_REFUSE_MARKER } from './providers/stubProvider';
+
+const PHOTO = 'data:image/png;base64,iVBORw0KGgo=';
+
+/** Puts the stub provider, without latency or a canvas, in front of the service, and returns its generate calls. */
+function useStub(override?: (request: ImageRequest) => ImageResponse | undefined) {
+    const stub = createStubProvider({ latencyMs: 0, renderPlaceholder: async (label, hue) => `data:image/png;base64,${btoa(`${label}|${hue}`)}` });
+    const generate = vi.fn((request: ImageRequest) => {
+        const response = override?.(request);
+        return response ? Promise.resolve(response) : stub.generate(request);
+    });
+    const provider: ImageProvider = { ...stub, generate };
+    setImageProvider(provider);
+    return generate;
+}
+
+async function generationFailure(promise: Promise<unknown>): Promise<GenerationError> {
+    const error = await promise.then(() => null, error => error);
+    expect(error).toBeInstanceOf(GenerationError);
+    return error;
+}
+
+describe('generateStyledImage', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        setImageProvider(null);
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('uses the original prompt when it works', async () => {
+        const generate = useStub();
+        const result = await generateStyledImage([PHOTO], 'Writing a "letter"', ['A softer letter']);
+        expect(result.rung).toBe(0);
+        expect(result.imageUrl).toMatch(/^data:image\/png;base64,/);
+        expect(result.attempts).toEqual([expect.objectContaining({ rung: 0, prompt: 'Writing a "letter"', outcome: 'image' })]);
+        expect(generate).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends the photos after the first, and the anchor, with the request', async () => {
+        const generate = useStub();
+        await generateStyledImage([PHOTO, PHOTO, PHOTO], 'Writing a letter', [], { sceneId: 'letter', anchorDataUrl: PHOTO });
+        const [request] = generate.mock.calls[0];
+        expect(request.extraImages).toHaveLength(2);
+        expect(request.reference).toEqual({ mimeType: 'image/png', data: 'iVBORw0KGgo=' });
+        expect(request.sceneId).toBe('letter');
+        expect(request.prompt).toMatch(/^Writing a letter\n\nThe last image is an earlier illustration/);
+    });
+
+    it('walks down the fallback prompts past refusals and blocks', async () => {
+        const generate = useStub();
+        const result = await generateStyledImage([PHOTO], `Original ${STUB_REFUSE_MARKER}`, [`Softer ${STUB_BLOCK_MARKER}`, 'Softest', 'Unused']);
+        expect(result.rung).toBe(2);
+        expect(result.attempts.map(({ rung, outcome }) => ({ rung, outcome }))).toEqual([
+            { rung: 0, outcome: 'model-refusal' },
+            { rung: 1, outcome: 'safety-block' },
+            { rung: 2, outcome: 'image' },
+        ]);
+        expect(generate.mock.calls.map(([request]) => request.prompt)).toEqual([`Original ${STUB_REFUSE_MARKER}`, `Softer ${STUB_BLOCK_MARKER}`, 'Softest']);
+    });
+
+    it('fails with the last error and every attempt once the prompts run out', async () => {
+        useStub();
+        const error = await generationFailure(generateStyledImage([PHOTO], STUB_REFUSE_MARKER, [STUB_BLOCK_MARKER, STUB_REFUSE_MARKER]));
+        expect(error.kind).toBe('model-refusal');
+        expect(error.message).toMatch(/^The AI model failed with the original prompt and 2 fallback prompts\. Last error: /);
+        expect(error.attempts?.map(attempt => attempt.outcome)).toEqual(['model-refusal', 'safety-block', 'model-refusal']);
+    });
+
+    it('does not soften the prompt for a block no rewording gets past', async () => {
+        const generate = useStub(() => ({ block: { stage: 'prompt', reason: 'PROHIBITED_CONTENT', categories: [] } }));
+        const error = await generationFailure(generateStyledImage([PHOTO], 'Original', ['Softer']));
+        expect(error.kind).toBe('safety-block');
+        expect(error.block?.reason).toBe('PROHIBITED_CONTENT');
+        expect(generate).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries internal errors with backoff rather than softening the prompt', async () => {
+        vi.useFakeTimers({ now: 0 });
+        const generate = useStub();
+        const failure = generationFailure(generateStyledImage([PHOTO], STUB_INTERNAL_ERROR_MARKER, ['Softer']));
+        await vi.advanceTimersByTimeAsync(999);
+        expect(generate).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(generate).toHaveBeenCalledTimes(2);
+        await vi.runAllTimersAsync();
+        const error = await failure;
+        expect(error.kind).toBe('internal');
+        expect(error.attempts).toHaveLength(1);
+        expect(generate).toHaveBeenCalledTimes(3);
+    });
+
+    it('leaves rate limits to the scheduler', async () => {
+        const generate = useStub(() => { throw new GenerationError('rate-limited', 'Too many requests.', { retryAfterMs: 5000 }); });
+        const error = await generationFailure(generateStyledImage([PHOTO], 'Original', ['Softer']));
+        expect(error.kind).toBe('rate-limited');
+        expect(error.retryAfterMs).toBe(5000);
+        expect(generate).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects photos that are not image data URLs without calling the provider', async () => {
+        const generate = useStub();
+        const error = await generationFailure(generateStyledImage([PHOTO, 'https://example.com/photo.jpg'], 'Original'));
+        expect(error.kind).toBe('invalid-input');
+        expect(generate).not.toHaveBeenCalled();
+    });
+});
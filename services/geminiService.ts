@@ -2,199 +2,254 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { GenerateContentResponse } from "@google/genai";
-
-const API_KEY = process.env.API_KEY;
+import { getImageProvider, parseImageDataUrl } from './imageProvider';
+import type { BlockInfo, ConversationTurn, ImageRequest, ImageResponse, InlineImage } from './imageProvider';
+import { isAbortError, sleep, throwIfAborted } from '../lib/abort';
+import { GenerationError, toGenerationError } from './generationErrors';
+import type { GenerationErrorKind } from './generationErrors';
+
+
+export interface GenerateOptions {
+    signal?: AbortSignal;
+    sceneId?: string;
+    /** An earlier result (as a data URL) whose character the new image should match. */
+    anchorDataUrl?: string;
+}
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
+export interface RemixOptions {
+    signal?: AbortSignal;
+    /** Earlier turns of the remix conversation, so follow-up instructions can refer back to them. */
+    history?: ConversationTurn[];
+    /** A black-and-white mask (as a data URL) limiting the edit to its white area. */
+    maskDataUrl?: string;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+/**
+ * One try on the fallback ladder. Rung 0 is the original prompt.
+ */
+export interface PromptAttempt {
+    rung: number;
+    prompt: string;
+    /** 'image' if this attempt produced the result, otherwise why it failed. */
+    outcome: 'image' | GenerationErrorKind;
+    reason?: string;
+    at: number;
+}
 
+export interface GenerationResult {
+    imageUrl: string;
+    /** Which rung of the ladder produced the image; anything above 0 used a softened prompt. */
+    rung: number;
+    attempts: PromptAttempt[];
+}
 
 // --- Helper Functions ---
 
 /**
- * Creates a fallback prompt to use when the primary one is blocked.
- * @param scene The scene string (e.g., "At a Grand Ball").
- * @returns The fallback prompt string.
+ * Processes a provider response, extracting the image or throwing an error if none is found.
+ * @param response The response from the provider's generate call.
+ * @returns A data URL string for the generated image.
  */
-function getFallbackPrompt(scene: string): string {
-    return `Create an artistic image of the person in this photo. The style should be inspired by the anime 'Violet Evergarden', and the setting is "${scene}". The image should have a painterly, emotional feel, with authentic-looking clothing and background. Ensure the final image is high quality and artistic.`;
+function processGeminiResponse(response: ImageResponse): string {
+    if (response.imageUrl) {
+        return response.imageUrl;
+    }
+
+    const { block, text: textResponse } = response;
+    if (block) {
+        console.error("API blocked the request:", block);
+        throw new GenerationError('safety-block', describeBlock(block), { block, modelText: textResponse });
+    }
+    console.error("API did not return an image. Response:", textResponse, response.finishReason);
+    if (!textResponse) {
+        // Without block details, an empty reply is most likely a block the backend didn't explain.
+        throw new GenerationError('safety-block', "The AI model returned neither an image nor text; the request was likely blocked.");
+    }
+    throw new GenerationError('model-refusal', `The AI model responded with text instead of an image: "${textResponse}"`, { modelText: textResponse });
 }
 
 /**
- * Processes the Gemini API response, extracting the image or throwing an error if none is found.
- * @param response The response from the generateContent call.
- * @returns A data URL string for the generated image.
+ * Turns a block into a sentence, e.g. "The generated image was blocked (IMAGE_SAFETY: dangerous content)."
  */
-function processGeminiResponse(response: GenerateContentResponse): string {
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+function describeBlock({ stage, reason, categories }: BlockInfo): string {
+    const what = stage === 'prompt' ? 'The request' : 'The generated image';
+    const why = categories.length > 0
+        ? `${reason}: ${categories.map(category => category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase()).join(', ')}`
+        : reason;
+    return `${what} was blocked (${why}).`;
+}
 
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        return `data:${mimeType};base64,${data}`;
-    }
+// Block reasons that point at the photo or a hard policy line rather than the wording,
+// so a softer prompt would be blocked the same way.
+const UNAVOIDABLE_BLOCK_REASONS = new Set(['PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
 
-    const textResponse = response.text;
-    console.error("API did not return an image. Response:", textResponse);
-    throw new Error(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+/**
+ * Returns true for failures a softer prompt might get past.
+ */
+function isWorthFallingBack(error: GenerationError): boolean {
+    if (error.kind === 'model-refusal') {
+        return true;
+    }
+    if (error.kind !== 'safety-block') {
+        return false;
+    }
+    return !error.block || !UNAVOIDABLE_BLOCK_REASONS.has(error.block.reason);
 }
 
 /**
- * Processes a multipart Gemini API response, extracting image and text.
- * @param response The response from the generateContent call.
+ * Processes a multipart provider response, checking that it carries an image or text.
+ * @param response The response from the provider's remix call.
  * @returns An object containing the image URL and/or text.
  */
-function processMultipartGeminiResponse(response: GenerateContentResponse): { imageUrl?: string; text?: string } {
-    let imageUrl: string | undefined;
-    let text: string | undefined;
-
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (!parts) {
-        throw new Error("Invalid response format from AI model.");
+function processMultipartGeminiResponse(response: ImageResponse): { imageUrl?: string; text?: string } {
+    if (response.block && !response.imageUrl) {
+        throw new GenerationError('safety-block', describeBlock(response.block), { block: response.block, modelText: response.text });
     }
-
-    for (const part of parts) {
-        if (part.inlineData) {
-            const { mimeType, data } = part.inlineData;
-            imageUrl = `data:${mimeType};base64,${data}`;
-        } else if (part.text) {
-            text = part.text;
-        }
-    }
-
-    if (!imageUrl && !text) {
-        // It's possible for the model to just refuse, which comes back as a text part.
-        const refusalText = response.text;
-        if (refusalText) {
-            return { text: refusalText };
-        }
-        throw new Error("The AI model did not return an image or text.");
+    if (!response.imageUrl && !response.text) {
+        throw new GenerationError('safety-block', "The AI model did not return an image or text; the request was likely blocked.");
     }
-
-    return { imageUrl, text };
+    return response;
 }
 
 /**
- * A wrapper for the Gemini API call that includes a retry mechanism for internal server errors.
- * @param imagePart The image part of the request payload.
- * @param textPart The text part of the request payload.
- * @returns The GenerateContentResponse from the API.
+ * A wrapper for the image provider's generate call that retries internal and network errors.
+ * Rate limits are not retried here: they are surfaced so the scheduler can hold back every request, not just this one.
+ * @param request The image and prompt to send. Aborting its signal also cuts short any backoff wait.
+ * @returns The ImageResponse from the provider.
  */
-async function callGeminiWithRetry(imagePart: object, textPart: object): Promise<GenerateContentResponse> {
+async function callGeminiWithRetry(request: ImageRequest): Promise<ImageResponse> {
     const maxRetries = 3;
     const initialDelay = 1000;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        throwIfAborted(request.signal);
         try {
-            return await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: { parts: [imagePart, textPart] },
-            });
+            return await getImageProvider().generate(request);
         } catch (error) {
-            console.error(`Error calling Gemini API (Attempt ${attempt}/${maxRetries}):`, error);
-            const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-            const isInternalError = errorMessage.includes('"code":500') || errorMessage.includes('INTERNAL');
+            if (isAbortError(error)) throw error;
+            console.error(`Error calling image provider (Attempt ${attempt}/${maxRetries}):`, error);
+            const generationError = toGenerationError(error);
+            const isRetriable = generationError.kind === 'internal' || generationError.kind === 'network';
 
-            if (isInternalError && attempt < maxRetries) {
+            if (isRetriable && attempt < maxRetries) {
                 const delay = initialDelay * Math.pow(2, attempt - 1);
-                console.log(`Internal error detected. Retrying in ${delay}ms...`);
-                await new Promise(resolve => setTimeout(resolve, delay));
+                console.log(`${generationError.kind === 'network' ? 'Network' : 'Internal'} error detected. Retrying in ${delay}ms...`);
+                await sleep(delay, request.signal);
                 continue;
             }
-            throw error; // Re-throw if not a retriable error or if max retries are reached.
+            throw generationError; // Re-throw if not a retriable error or if max retries are reached.
         }
     }
     // This should be unreachable due to the loop and throw logic above.
-    throw new Error("Gemini API call failed after all retries.");
+    throw new Error("Image provider call failed after all retries.");
 }
 
+const ANCHOR_INSTRUCTION = "The last image is an earlier illustration from this series. Draw whoever appears in it with the same "
+    + "face, hair, eye color, outfit and art style as there, unless the prompt above asks for something different.";
 
 /**
- * Generates a styled image from a source image and a prompt.
- * It includes a fallback mechanism for prompts that might be blocked.
- * @param imageDataUrl A data URL string of the source image (e.g., 'data:image/png;base64,...').
+ * Generates a styled image from one or more source photos and a prompt.
+ * If the prompt is blocked in a way rewording could avoid, it walks down a ladder of
+ * progressively safer fallback prompts, logging each attempt, until one produces an image.
+ * @param imageDataUrls Data URLs of the source photos (e.g., 'data:image/png;base64,...'), in the order
+ *        the prompt describes them. Usually just one.
  * @param prompt The prompt to guide the image generation.
- * @param scene The specific scene for the image, used for the fallback prompt.
- * @returns A promise that resolves to a base64-encoded image data URL of the generated image.
+ * @param fallbackPrompts Softer prompts to try, in order. Pass none to stop at the original prompt.
+ * @param options.signal Cancels the generation, including any pending retries; the promise then rejects with an AbortError.
+ * @param options.sceneId Tags the requests so the server can count blocks per scene.
+ * @param options.anchorDataUrl Sent after the photos so the characters look the same as in this earlier result.
+ * @returns A promise resolving to the image, the rung that produced it and every attempt made.
+ * @throws {GenerationError} Classified by what went wrong and carrying the attempts made, so callers can suggest what to do next.
  */
-export async function generateStyledImage(imageDataUrl: string, prompt: string, scene: string): Promise<string> {
-  const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
-  if (!match) {
-    throw new Error("Invalid image data URL format. Expected 'data:image/...;base64,...'");
-  }
-  const [, mimeType, base64Data] = match;
-
-    const imagePart = {
-        inlineData: { mimeType, data: base64Data },
-    };
-
-    // --- First attempt with the original prompt ---
-    try {
-        console.log("Attempting generation with original prompt...");
-        const textPart = { text: prompt };
-        const response = await callGeminiWithRetry(imagePart, textPart);
-        return processGeminiResponse(response);
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-        const isNoImageError = errorMessage.includes("The AI model responded with text instead of an image");
-
-        if (isNoImageError) {
-            console.warn("Original prompt was likely blocked. Trying a fallback prompt.");
-
-            // --- Second attempt with the fallback prompt ---
-            try {
-                const fallbackPrompt = getFallbackPrompt(scene);
-                console.log(`Attempting generation with fallback prompt for ${scene}...`);
-                const fallbackTextPart = { text: fallbackPrompt };
-                const fallbackResponse = await callGeminiWithRetry(imagePart, fallbackTextPart);
-                return processGeminiResponse(fallbackResponse);
-            } catch (fallbackError) {
-                console.error("Fallback prompt also failed.", fallbackError);
-                const finalErrorMessage = fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
-                throw new Error(`The AI model failed with both original and fallback prompts. Last error: ${finalErrorMessage}`);
+export async function generateStyledImage(
+    imageDataUrls: string[],
+    prompt: string,
+    fallbackPrompts: string[] = [],
+    { signal, sceneId, anchorDataUrl }: GenerateOptions = {},
+): Promise<GenerationResult> {
+    const photos = imageDataUrls.map(parseImageDataUrl);
+    const [image, ...extraImages] = photos;
+    if (!image || photos.includes(null)) {
+        throw new GenerationError('invalid-input', "Invalid image data URL format. Expected 'data:image/...;base64,...'");
+    }
+    const reference = anchorDataUrl ? parseImageDataUrl(anchorDataUrl) : undefined;
+    if (reference === null) {
+        throw new GenerationError('invalid-input', "Invalid anchor image data URL format.");
+    }
+
+    const ladder = [prompt, ...fallbackPrompts];
+    const attempts: PromptAttempt[] = [];
+    for (const [rung, rungPrompt] of ladder.entries()) {
+        const label = rung === 0 ? 'original prompt' : `fallback prompt ${rung}/${fallbackPrompts.length}`;
+        try {
+            console.log(`Attempting generation with ${label}...`);
+            const response = await callGeminiWithRetry({
+                image,
+                ...(extraImages.length > 0 && { extraImages: extraImages as InlineImage[] }),
+                prompt: reference ? `${rungPrompt}\n\n${ANCHOR_INSTRUCTION}` : rungPrompt,
+                ...(reference && { reference }),
+                signal,
+                sceneId,
+            });
+            const imageUrl = processGeminiResponse(response);
+            attempts.push({ rung, prompt: rungPrompt, outcome: 'image', at: Date.now() });
+            return { imageUrl, rung, attempts };
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            const generationError = toGenerationError(error);
+            attempts.push({ rung, prompt: rungPrompt, outcome: generationError.kind, reason: generationError.message, at: Date.now() });
+            console.warn(`Generation with ${label} failed (${generationError.kind}): ${generationError.message}`);
+
+            if (rung < ladder.length - 1 && isWorthFallingBack(generationError)) {
+                continue; // A softer prompt might get past this block.
             }
-        } else {
-            // This is for other errors, like a final internal server error after retries.
-            console.error("An unrecoverable error occurred during image generation.", error);
-            throw new Error(`The AI model failed to generate an image. Details: ${errorMessage}`);
+            // Out of rungs, or an error no rewording gets past, like a final internal error after retries.
+            throw generationError.withMessage(rung === 0
+                ? `The AI model failed to generate an image. Details: ${generationError.message}`
+                : `The AI model failed with the original prompt and ${rung} fallback prompt${rung === 1 ? '' : 's'}. Last error: ${generationError.message}`,
+                attempts);
         }
     }
+    // Unreachable: the last rung either returns or throws.
+    throw new Error("Image generation ran out of prompts.");
 }
 
+const MASK_INSTRUCTION = "The second image is a mask. Change only the area that is white in the mask, "
+    + "and keep everything in the black area exactly as it is in the first image.";
+
 /**
- * Sends an image and a text prompt to the Gemini model to edit/remix the image.
+ * Sends an image and a text prompt to the active image provider to edit/remix the image.
  * @param imageDataUrl The base image to be edited.
  * @param prompt The user's instruction for the edit.
+ * @param options.signal Cancels the remix; the promise then rejects with an AbortError.
+ * @param options.history Earlier turns of the conversation, oldest first.
+ * @param options.maskDataUrl Limits the edit to the white area of this mask. The model can still
+ * stray outside it, so callers should composite the result back over the original.
  * @returns A promise resolving to an object with the new image URL and any accompanying text.
  */
-export async function remixImage(imageDataUrl: string, prompt: string): Promise<{ imageUrl?: string; text?: string }> {
-    const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
-    if (!match) {
-        throw new Error("Invalid image data URL format for remix.");
+export async function remixImage(imageDataUrl: string, prompt: string, { signal, history, maskDataUrl }: RemixOptions = {}): Promise<{ imageUrl?: string; text?: string }> {
+    const image = parseImageDataUrl(imageDataUrl);
+    if (!image) {
+        throw new GenerationError('invalid-input', "Invalid image data URL format for remix.");
+    }
+    const mask = maskDataUrl ? parseImageDataUrl(maskDataUrl) : undefined;
+    if (mask === null) {
+        throw new GenerationError('invalid-input', "Invalid mask data URL format for remix.");
     }
-    const [, mimeType, base64Data] = match;
-
-    const imagePart = {
-        inlineData: { mimeType, data: base64Data },
-    };
-    const textPart = { text: prompt };
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image-preview',
-            contents: { parts: [imagePart, textPart] },
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            },
+        const response = await getImageProvider().remix({
+            image,
+            prompt: mask ? `${prompt}\n\n${MASK_INSTRUCTION}` : prompt,
+            signal,
+            ...(history?.length && { history }),
+            ...(mask && { mask }),
         });
         return processMultipartGeminiResponse(response);
     } catch (error) {
-        console.error("Error calling Gemini API for remix:", error);
-        const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-        throw new Error(`The AI model failed to remix the image. Details: ${errorMessage}`);
+        if (isAbortError(error)) throw error;
+        console.error("Error calling image provider for remix:", error);
+        const generationError = toGenerationError(error);
+        throw generationError.withMessage(`The AI model failed to remix the image. Details: ${generationError.message}`);
     }
 }
\ No newline at end of file
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { describeGenerationError, GenerationError, generationErrorFromResponse, toGenerationError } from './generationErrors';
+
+const errorBody = (error: object) => JSON.stringify({ error });
+
+describe('generationErrorFromResponse', () => {
+    it('reads a rate limit and the Retry-After header', () => {
+        const error = generationErrorFromResponse(errorBody({ code: 429, message: 'Slow down.', status: 'RESOURCE_EXHAUSTED' }), 429, '7');
+        expect(error.kind).toBe('rate-limited');
+        expect(error.message).toBe('Slow down.');
+        expect(error.retryAfterMs).toBe(7000);
+    });
+
+    it('falls back to the retry delay in the error details', () => {
+        const body = errorBody({ code: 429, message: 'Slow down.', details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '1.5s' }] });
+        expect(generationErrorFromResponse(body, 429).retryAfterMs).toBe(1500);
+    });
+
+    it('tells a used-up daily quota from a rate limit', () => {
+        const error = generationErrorFromResponse(errorBody({ code: 429, message: 'You exceeded your current quota, please check your plan and billing details.' }), 429);
+        expect(error.kind).toBe('quota-exhausted');
+    });
+
+    it('treats a quota error that says when to retry as a rate limit', () => {
+        const body = errorBody({ code: 429, message: 'Quota exceeded for requests per day.', details: [{ retryDelay: '30s' }] });
+        expect(generationErrorFromResponse(body, 429).kind).toBe('rate-limited');
+    });
+
+    it.each([
+        [400, 'invalid-input'],
+        [413, 'invalid-input'],
+        [415, 'invalid-input'],
+        [502, 'network'],
+        [504, 'network'],
+        [500, 'internal'],
+    ])('classifies an HTTP %i without a JSON body as %s', (status, kind) => {
+        const error = generationErrorFromResponse('<html>Bad gateway</html>', status);
+        expect(error.kind).toBe(kind);
+        expect(error.message).toBe('<html>Bad gateway</html>');
+    });
+
+    it('prefers the status in the body over the HTTP status', () => {
+        expect(generationErrorFromResponse(errorBody({ message: 'Bad image.', status: 'INVALID_ARGUMENT' }), 500).kind).toBe('invalid-input');
+    });
+
+    it('describes an empty response by its status', () => {
+        expect(generationErrorFromResponse('', 503).message).toBe('Image API responded with HTTP 503.');
+    });
+});
+
+describe('toGenerationError', () => {
+    it('returns a GenerationError as it is', () => {
+        const error = new GenerationError('safety-block', 'Blocked.');
+        expect(toGenerationError(error)).toBe(error);
+    });
+
+    it('classifies a fetch that never got a response as a network error', () => {
+        const error = toGenerationError(new TypeError('Failed to fetch'));
+        expect(error.kind).toBe('network');
+        expect(error.cause).toBeInstanceOf(TypeError);
+    });
+
+    it('reads an error body embedded in the message, as the SDK throws them', () => {
+        const error = toGenerationError(new Error(`got status: 429 . ${errorBody({ code: 429, message: 'Slow down.', status: 'RESOURCE_EXHAUSTED', details: [{ retryDelay: '17s' }] })}`));
+        expect(error.kind).toBe('rate-limited');
+        expect(error.message).toBe('Slow down.');
+        expect(error.retryAfterMs).toBe(17000);
+    });
+
+    it('uses the status an SDK error carries', () => {
+        expect(toGenerationError(Object.assign(new Error('Request too large'), { status: 413 })).kind).toBe('invalid-input');
+    });
+
+    it('treats anything else as internal', () => {
+        const error = toGenerationError('Something odd');
+        expect(error.kind).toBe('internal');
+        expect(error.message).toBe('Something odd');
+    });
+});
+
+describe('describeGenerationError', () => {
+    it('suggests what to do for each kind', () => {
+        expect(describeGenerationError('safety-block')).toEqual({ reason: 'Blocked by the safety filter.', action: 'edit-prompt', actionLabel: 'Edit prompt' });
+        expect(describeGenerationError('rate-limited').action).toBe('retry-later');
+        expect(describeGenerationError('invalid-input').action).toBe('try-another-photo');
+    });
+
+    it('uses the fallback reason for failures without a kind', () => {
+        expect(describeGenerationError(undefined, 'Cancelled.')).toEqual({ reason: 'Cancelled.', action: 'retry', actionLabel: 'Retry' });
+    });
+});
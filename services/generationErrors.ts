@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { BlockInfo } from './imageProvider';
+import type { PromptAttempt } from './geminiService';
+
+/**
+ * Why a generation failed, as far as the app needs to know to suggest what to do next.
+ */
+export type GenerationErrorKind =
+    | 'safety-block'
+    | 'rate-limited'
+    | 'quota-exhausted'
+    | 'network'
+    | 'invalid-input'
+    | 'model-refusal'
+    | 'internal';
+
+export interface GenerationErrorOptions {
+    /** For rate limits: how long the API asked us to wait before trying again. */
+    retryAfterMs?: number;
+    /** For refusals: what the model said instead of drawing. */
+    modelText?: string;
+    /** For safety blocks: what the API said was blocked, when it said so. */
+    block?: BlockInfo;
+    /** For generations: every prompt tried before giving up. */
+    attempts?: PromptAttempt[];
+    cause?: unknown;
+}
+
+/**
+ * A classified failure from the image API or the service layer on top of it.
+ */
+export class GenerationError extends Error {
+    readonly retryAfterMs?: number;
+    readonly modelText?: string;
+    readonly block?: BlockInfo;
+    readonly attempts?: PromptAttempt[];
+
+    constructor(readonly kind: GenerationErrorKind, message: string, { retryAfterMs, modelText, block, attempts, cause }: GenerationErrorOptions = {}) {
+        super(message, { cause });
+        this.name = 'GenerationError';
+        this.retryAfterMs = retryAfterMs;
+        this.modelText = modelText;
+        this.block = block;
+        this.attempts = attempts;
+    }
+
+    /** Returns a copy with a more specific message, keeping the classification. */
+    withMessage(message: string, attempts = this.attempts): GenerationError {
+        return new GenerationError(this.kind, message, { retryAfterMs: this.retryAfterMs, modelText: this.modelText, block: this.block, attempts, cause: this });
+    }
+}
+
+interface ApiErrorBody {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: Array<{ '@type'?: string; retryDelay?: string }>;
+}
+
+/**
+ * Pulls an embedded `{"error":{...}}` body out of an error message, as both the
+ * Gemini SDK and our own server produce them.
+ */
+function parseErrorBody(message: string): ApiErrorBody | null {
+    const start = message.indexOf('{');
+    if (start === -1) {
+        return null;
+    }
+    try {
+        const { error } = JSON.parse(message.substring(start));
+        return error && typeof error === 'object' ? error : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Reads a retry hint from a google.rpc.RetryInfo detail (e.g. "17s" or "1.5s").
+ */
+function retryDelayFromDetails(details: ApiErrorBody['details']): number | undefined {
+    const delay = details?.find(detail => detail.retryDelay)?.retryDelay;
+    const seconds = delay ? parseFloat(delay) : NaN;
+    return Number.isFinite(seconds) ? Math.round(seconds * 1000) : undefined;
+}
+
+// Per-minute limits and daily/billing quotas both come back as 429 RESOURCE_EXHAUSTED;
+// only the wording tells them apart, and a quota won't come back within the session.
+const QUOTA_PATTERN = /quota.*(billing|per day|daily)|(billing|per day|daily).*quota/i;
+
+function classifyStatus(code: number | undefined, status: string | undefined, message: string, retryAfterMs?: number, cause?: unknown): GenerationError {
+    if (code === 429 || status === 'RESOURCE_EXHAUSTED') {
+        if (QUOTA_PATTERN.test(message) && retryAfterMs === undefined) {
+            return new GenerationError('quota-exhausted', message, { cause });
+        }
+        return new GenerationError('rate-limited', message, { retryAfterMs, cause });
+    }
+    if (code === 400 || code === 413 || code === 415 || status === 'INVALID_ARGUMENT' || status === 'FAILED_PRECONDITION') {
+        return new GenerationError('invalid-input', message, { cause });
+    }
+    if (code === 502 || code === 504 || status === 'UPSTREAM_ERROR' || status === 'DEADLINE_EXCEEDED') {
+        return new GenerationError('network', message, { cause });
+    }
+    return new GenerationError('internal', message, { cause });
+}
+
+/**
+ * Builds a GenerationError from a failed HTTP response of the image API.
+ * @param body The response body, usually `{"error":{"code":...}}`.
+ * @param httpStatus The HTTP status code.
+ * @param retryAfterHeader The Retry-After header, in seconds, if the server sent one.
+ */
+export function generationErrorFromResponse(body: string, httpStatus: number, retryAfterHeader?: string | null): GenerationError {
+    const parsed = parseErrorBody(body);
+    const message = parsed?.message || body || `Image API responded with HTTP ${httpStatus}.`;
+    const headerSeconds = retryAfterHeader ? Number(retryAfterHeader) : NaN;
+    const retryAfterMs = Number.isFinite(headerSeconds) ? headerSeconds * 1000 : retryDelayFromDetails(parsed?.details);
+    return classifyStatus(parsed?.code ?? httpStatus, parsed?.status, message, retryAfterMs);
+}
+
+/**
+ * Classifies anything thrown while talking to an image provider.
+ * AbortErrors are not failures and should be checked for before calling this.
+ */
+export function toGenerationError(error: unknown): GenerationError {
+    if (error instanceof GenerationError) {
+        return error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    // fetch rejects with a TypeError when the request never got a response.
+    if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+        return new GenerationError('network', "Couldn't reach the image server. Check your connection.", { cause: error });
+    }
+    const body = parseErrorBody(message);
+    if (body) {
+        return classifyStatus(body.code, body.status, body.message || message, retryDelayFromDetails(body.details), error);
+    }
+    const sdkStatus = (error as { status?: unknown })?.status;
+    if (typeof sdkStatus === 'number') {
+        return classifyStatus(sdkStatus, undefined, message, undefined, error);
+    }
+    return new GenerationError('internal', message, { cause: error });
+}
+
+export type ErrorAction = 'retry' | 'retry-later' | 'edit-prompt' | 'try-another-photo';
+
+export interface ErrorDescription {
+    reason: string;
+    action: ErrorAction;
+    actionLabel: string;
+}
+
+const ACTION_LABELS: Record<ErrorAction, string> = {
+    'retry': 'Retry',
+    'retry-later': 'Retry later',
+    'edit-prompt': 'Edit prompt',
+    'try-another-photo': 'Try another photo',
+};
+
+const DESCRIPTIONS: Record<GenerationErrorKind, { reason: string; action: ErrorAction }> = {
+    'safety-block': { reason: 'Blocked by the safety filter.', action: 'edit-prompt' },
+    'rate-limited': { reason: 'Too many requests right now.', action: 'retry-later' },
+    'quota-exhausted': { reason: 'The image quota has been used up.', action: 'retry-later' },
+    'network': { reason: "Couldn't reach the image server.", action: 'retry' },
+    'invalid-input': { reason: "This photo couldn't be used.", action: 'try-another-photo' },
+    'model-refusal': { reason: 'The model declined to draw this scene.', action: 'edit-prompt' },
+    'internal': { reason: 'The image service had a problem.', action: 'retry' },
+};
+
+/**
+ * Returns a short, human-readable reason for a failure and the action to offer for it.
+ * @param kind The classified kind, or undefined for failures recorded before classification existed.
+ * @param fallbackReason Shown when there is no kind, e.g. "Cancelled."
+ */
+export function describeGenerationError(kind: GenerationErrorKind | undefined, fallbackReason?: string): ErrorDescription {
+    const { reason, action } = kind ? DESCRIPTIONS[kind] : { reason: fallbackReason || 'Something went wrong.', action: 'retry' as const };
+    return { reason, action, actionLabel: ACTION_LABELS[action] };
+}
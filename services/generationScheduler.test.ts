@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sleep } from '../lib/abort';
+import { GenerationError } from './generationErrors';
+import { createGenerationScheduler } from './generationScheduler';
+
+const rateLimited = (retryAfterMs?: number) => new GenerationError('rate-limited', 'Too many requests.', { retryAfterMs });
+
+/** A job that takes `ms` and records when it started. */
+function timedJob(ms: number, starts: number[], value = ms) {
+    return async () => {
+        starts.push(Date.now());
+        await sleep(ms);
+        return value;
+    };
+}
+
+/** A job that is rate limited the first `failures` times it runs, recording when each run started. */
+function rateLimitedJob(failures: number, starts: number[], retryAfterMs?: number) {
+    return async () => {
+        starts.push(Date.now());
+        if (starts.length <= failures) throw rateLimited(retryAfterMs);
+        return 'done';
+    };
+}
+
+describe('createGenerationScheduler', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ now: 0 });
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('runs at most `concurrency` jobs at a time, interactive ones first', async () => {
+        const scheduler = createGenerationScheduler({ concurrency: 2 });
+        const order: string[] = [];
+        const job = (name: string) => async () => {
+            order.push(name);
+            await sleep(1000);
+        };
+        scheduler.schedule(job('batch 1'));
+        scheduler.schedule(job('batch 2'));
+        scheduler.schedule(job('batch 3'));
+        scheduler.schedule(job('interactive'), { priority: 'interactive' });
+        expect(scheduler.getProgress()).toMatchObject({ total: 4, active: 2, queued: 2 });
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(order).toEqual(['batch 1', 'batch 2', 'interactive', 'batch 3']);
+    });
+
+    it('removes a queued job whose signal is aborted', async () => {
+        const scheduler = createGenerationScheduler({ concurrency: 1 });
+        const starts: number[] = [];
+        scheduler.schedule(timedJob(1000, starts));
+        const controller = new AbortController();
+        const cancelled = scheduler.schedule(timedJob(1000, starts), { signal: controller.signal });
+        controller.abort();
+        await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+        expect(scheduler.getProgress()).toMatchObject({ total: 1, queued: 0 });
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(starts).toEqual([0]);
+    });
+
+    describe('when rate limited', () => {
+        it('holds back every job for the backoff, then retries', async () => {
+            const scheduler = createGenerationScheduler({ concurrency: 2, initialBackoffMs: 2000 });
+            const limitedStarts: number[] = [];
+            const otherStarts: number[] = [];
+            const limited = scheduler.schedule(rateLimitedJob(1, limitedStarts));
+            scheduler.schedule(timedJob(100, otherStarts));
+            scheduler.schedule(timedJob(100, otherStarts));
+            await vi.advanceTimersByTimeAsync(0);
+            expect(scheduler.getProgress().pausedUntil).toBe(2000);
+
+            await vi.advanceTimersByTimeAsync(1999);
+            // The job already running when the limit hit finishes, but nothing new starts.
+            expect(otherStarts).toEqual([0]);
+            expect(limitedStarts).toEqual([0]);
+
+            await vi.advanceTimersByTimeAsync(1);
+            await expect(limited).resolves.toBe('done');
+            expect(limitedStarts).toEqual([0, 2000]);
+            expect(otherStarts).toEqual([0, 2000]);
+            expect(scheduler.getProgress().pausedUntil).toBeNull();
+        });
+
+        it('doubles the backoff on consecutive rate limits, up to the maximum', async () => {
+            const scheduler = createGenerationScheduler({ concurrency: 1, initialBackoffMs: 1000, maxBackoffMs: 3000, maxRateLimitRetries: 5 });
+            const starts: number[] = [];
+            const job = scheduler.schedule(rateLimitedJob(4, starts));
+            await vi.advanceTimersByTimeAsync(20000);
+            await expect(job).resolves.toBe('done');
+            // Pauses of 1s, 2s, 3s and 3s.
+            expect(starts).toEqual([0, 1000, 3000, 6000, 9000]);
+        });
+
+        it('resets the backoff after a job succeeds', async () => {
+            const scheduler = createGenerationScheduler({ concurrency: 1, initialBackoffMs: 1000 });
+            const firstStarts: number[] = [];
+            const secondStarts: number[] = [];
+            scheduler.schedule(rateLimitedJob(1, firstStarts));
+            await vi.advanceTimersByTimeAsync(1000);
+            scheduler.schedule(rateLimitedJob(1, secondStarts));
+            await vi.advanceTimersByTimeAsync(0);
+            expect(scheduler.getProgress().pausedUntil).toBe(2000);
+        });
+
+        it('waits as long as the API asked instead of the backoff', async () => {
+            const scheduler = createGenerationScheduler({ concurrency: 1, initialBackoffMs: 1000 });
+            const starts: number[] = [];
+            const job = scheduler.schedule(rateLimitedJob(1, starts, 17000));
+            await vi.advanceTimersByTimeAsync(20000);
+            await expect(job).resolves.toBe('done');
+            expect(starts).toEqual([0, 17000]);
+        });
+
+        it('gives up after the most retries allowed', async () => {
+            const scheduler = createGenerationScheduler({ concurrency: 1, initialBackoffMs: 1000, maxRateLimitRetries: 2 });
+            const starts: number[] = [];
+            const job = scheduler.schedule(rateLimitedJob(Infinity, starts));
+            const failed = expect(job).rejects.toMatchObject({ kind: 'rate-limited' });
+            await vi.advanceTimersByTimeAsync(20000);
+            await failed;
+            expect(starts).toHaveLength(3);
+        });
+    });
+
+    describe('progress', () => {
+        it('has no ETA until a job has finished', () => {
+            const scheduler = createGenerationScheduler({ concurrency: 1 });
+            scheduler.schedule(timedJob(1000, []));
+            expect(scheduler.getProgress().etaMs).toBeNull();
+        });
+
+        it('estimates the time left from how long finished jobs took', async () => {
+            const scheduler = createGenerationScheduler({ concurrency: 1 });
+            const starts: number[] = [];
+            for (let i = 0; i < 3; i++) scheduler.schedule(timedJob(1000, starts));
+
+            await vi.advanceTimersByTimeAsync(1000);
+            // One job queued, and one just started.
+            expect(scheduler.getProgress()).toMatchObject({ completed: 1, active: 1, queued: 1, etaMs: 2000 });
+
+            await vi.advanceTimersByTimeAsync(500);
+            expect(scheduler.getProgress().etaMs).toBe(1500);
+        });
+
+        it('spreads the estimate over the parallel jobs', async () => {
+            const scheduler = createGenerationScheduler({ concurrency: 2 });
+            for (let i = 0; i < 4; i++) scheduler.schedule(timedJob(1000, []));
+
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(scheduler.getProgress()).toMatchObject({ completed: 2, active: 2, queued: 0, etaMs: 1000 });
+        });
+
+        it('adds the rest of a rate-limit pause to the estimate', async () => {
+            const scheduler = createGenerationScheduler({ concurrency: 1, initialBackoffMs: 5000 });
+            scheduler.schedule(timedJob(1000, []));
+            await vi.advanceTimersByTimeAsync(1000);
+            scheduler.schedule(rateLimitedJob(1, []));
+            await vi.advanceTimersByTimeAsync(0);
+            // The retried job is queued behind a 5s pause.
+            expect(scheduler.getProgress().etaMs).toBe(1000 + 5000);
+        });
+
+        it('starts counting afresh once the queue drains', async () => {
+            const scheduler = createGenerationScheduler({ concurrency: 1 });
+            const listener = vi.fn();
+            scheduler.subscribe(listener);
+            scheduler.schedule(timedJob(1000, []));
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ total: 0, completed: 0, active: 0 }));
+        });
+    });
+});
@@ -0,0 +1,279 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createAbortError } from '../lib/abort';
+import { GenerationError } from './generationErrors';
+
+/**
+ * Interactive jobs (a regenerate or remix the user just asked for) start before any queued batch work.
+ */
+export type JobPriority = 'interactive' | 'batch';
+
+const PRIORITY_RANK: Record<JobPriority, number> = { interactive: 0, batch: 1 };
+
+export interface ScheduleOptions {
+    priority?: JobPriority;
+    /** Removes the job from the queue if it hasn't started; a running job must watch the signal itself. */
+    signal?: AbortSignal;
+}
+
+/**
+ * Counts since the scheduler last went idle, so a progress bar covers one burst of work.
+ */
+export interface SchedulerProgress {
+    total: number;
+    completed: number;
+    active: number;
+    queued: number;
+    concurrency: number;
+    /** Estimated time until the queue drains, or null until a job has finished. */
+    etaMs: number | null;
+    /** While rate limited, when new jobs may start again. */
+    pausedUntil: number | null;
+}
+
+export interface GenerationScheduler {
+    schedule<T>(job: () => Promise<T>, options?: ScheduleOptions): Promise<T>;
+    readonly concurrency: number;
+    setConcurrency(limit: number): void;
+    getProgress(): SchedulerProgress;
+    /** @returns A function that removes the listener. */
+    subscribe(listener: (progress: SchedulerProgress) => void): () => void;
+}
+
+export interface GenerationSchedulerOptions {
+    concurrency?: number;
+    /** First pause after a rate-limit error; doubles on each consecutive one. */
+    initialBackoffMs?: number;
+    maxBackoffMs?: number;
+    /** How often a rate-limited job is put back in the queue before its error is surfaced. */
+    maxRateLimitRetries?: number;
+    /** How many recent job durations the ETA is averaged over. */
+    latencySamples?: number;
+}
+
+interface QueuedJob {
+    run: () => Promise<unknown>;
+    resolve: (value: unknown) => void;
+    reject: (error: unknown) => void;
+    rank: number;
+    seq: number;
+    signal?: AbortSignal;
+    onAbort?: () => void;
+    rateLimitRetries: number;
+}
+
+export const MIN_CONCURRENCY = 1;
+export const MAX_CONCURRENCY = 6;
+
+/**
+ * Returns true if an error came from the API's rate limiter.
+ */
+export function isRateLimitError(error: unknown): error is GenerationError {
+    return error instanceof GenerationError && error.kind === 'rate-limited';
+}
+
+/**
+ * Creates a priority queue that runs at most `concurrency` jobs at a time and
+ * pauses everything when the API reports that we're sending too many requests,
+ * for as long as the API asked or, without a hint, with exponential backoff.
+ */
+export function createGenerationScheduler({
+    concurrency = 2,
+    initialBackoffMs = 2000,
+    maxBackoffMs = 60000,
+    maxRateLimitRetries = 3,
+    latencySamples = 10,
+}: GenerationSchedulerOptions = {}): GenerationScheduler {
+    let limit = clampConcurrency(concurrency);
+    let queue: QueuedJob[] = [];
+    const startedAt = new Map<QueuedJob, number>();
+    const latencies: number[] = [];
+    const listeners = new Set<(progress: SchedulerProgress) => void>();
+    let nextSeq = 0;
+    let total = 0;
+    let completed = 0;
+    let backoffMs = initialBackoffMs;
+    let pausedUntil: number | null = null;
+    let resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const getProgress = (): SchedulerProgress => {
+        const now = Date.now();
+        let etaMs: number | null = null;
+        if (latencies.length > 0) {
+            const average = latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length;
+            let remainingWork = queue.length * average;
+            startedAt.forEach(start => { remainingWork += Math.max(average - (now - start), 0); });
+            etaMs = remainingWork / limit + Math.max((pausedUntil ?? now) - now, 0);
+        }
+        return { total, completed, active: startedAt.size, queued: queue.length, concurrency: limit, etaMs, pausedUntil };
+    };
+
+    const notify = () => {
+        const progress = getProgress();
+        listeners.forEach(listener => listener(progress));
+    };
+
+    const enqueue = (job: QueuedJob) => {
+        const index = queue.findIndex(other => other.rank > job.rank || (other.rank === job.rank && other.seq > job.seq));
+        queue.splice(index === -1 ? queue.length : index, 0, job);
+    };
+
+    const settle = (job: QueuedJob) => {
+        if (job.onAbort) job.signal?.removeEventListener('abort', job.onAbort);
+    };
+
+    const start = (job: QueuedJob) => {
+        const began = Date.now();
+        startedAt.set(job, began);
+        job.run().then(
+            value => {
+                backoffMs = initialBackoffMs;
+                recordLatency(Date.now() - began);
+                finish(job);
+                job.resolve(value);
+            },
+            error => {
+                if (job.signal?.aborted) {
+                    // Cancelled work drops out of the progress counts instead of counting as done.
+                    total--;
+                    finish(job, false);
+                } else if (isRateLimitError(error) && job.rateLimitRetries < maxRateLimitRetries) {
+                    startedAt.delete(job);
+                    job.rateLimitRetries++;
+                    pause(error.retryAfterMs);
+                    enqueue(job);
+                    pump();
+                    return;
+                } else {
+                    recordLatency(Date.now() - began);
+                    finish(job);
+                }
+                job.reject(error);
+            },
+        );
+    };
+
+    const finish = (job: QueuedJob, countAsCompleted = true) => {
+        startedAt.delete(job);
+        settle(job);
+        if (countAsCompleted) completed++;
+        pump();
+    };
+
+    const recordLatency = (ms: number) => {
+        latencies.push(ms);
+        if (latencies.length > latencySamples) latencies.shift();
+    };
+
+    const pause = (retryAfterMs?: number) => {
+        const delay = retryAfterMs ?? backoffMs;
+        const until = Date.now() + delay;
+        console.warn(`Rate limited; pausing new requests for ${Math.round(delay / 1000)}s.`);
+        backoffMs = Math.min(backoffMs * 2, maxBackoffMs);
+        pausedUntil = Math.max(pausedUntil ?? 0, until);
+        if (resumeTimer) clearTimeout(resumeTimer);
+        resumeTimer = setTimeout(() => {
+            resumeTimer = null;
+            pausedUntil = null;
+            pump();
+        }, pausedUntil - Date.now());
+    };
+
+    const pump = () => {
+        if (pausedUntil === null) {
+            while (startedAt.size < limit && queue.length > 0) {
+                start(queue.shift()!);
+            }
+        }
+        if (queue.length === 0 && startedAt.size === 0) {
+            // Idle: the next job starts a fresh progress window.
+            total = 0;
+            completed = 0;
+        }
+        notify();
+    };
+
+    return {
+        schedule<T>(job: () => Promise<T>, { priority = 'batch', signal }: ScheduleOptions = {}): Promise<T> {
+            return new Promise<T>((resolve, reject) => {
+                if (signal?.aborted) {
+                    reject(createAbortError());
+                    return;
+                }
+                const queued: QueuedJob = {
+                    run: job,
+                    // `run` is this job, so whatever it settles with is a T.
+                    resolve: value => resolve(value as T),
+                    reject, signal,
+                    rank: PRIORITY_RANK[priority],
+                    seq: nextSeq++,
+                    rateLimitRetries: 0,
+                };
+                queued.onAbort = () => {
+                    if (!queue.includes(queued)) return; // Already running; the job handles its own signal.
+                    queue = queue.filter(other => other !== queued);
+                    total--;
+                    settle(queued);
+                    reject(createAbortError());
+                    pump();
+                };
+                signal?.addEventListener('abort', queued.onAbort, { once: true });
+                total++;
+                enqueue(queued);
+                pump();
+            });
+        },
+        get concurrency() {
+            return limit;
+        },
+        setConcurrency(next: number) {
+            limit = clampConcurrency(next);
+            pump();
+        },
+        getProgress,
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+    };
+}
+
+function clampConcurrency(value: number): number {
+    return Math.min(Math.max(Math.round(value) || MIN_CONCURRENCY, MIN_CONCURRENCY), MAX_CONCURRENCY);
+}
+
+const CONCURRENCY_STORAGE_KEY = 'violet-evergarden.concurrency';
+
+/**
+ * Reads the user's preferred number of parallel requests, if they have set one.
+ */
+export function loadConcurrencySetting(): number | undefined {
+    try {
+        const stored = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY));
+        return stored > 0 ? clampConcurrency(stored) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+export function saveConcurrencySetting(limit: number): void {
+    try {
+        localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(clampConcurrency(limit)));
+    } catch (error) {
+        console.warn('Could not save the concurrency setting:', error);
+    }
+}
+
+let activeScheduler: GenerationScheduler | null = null;
+
+/**
+ * Returns the scheduler every generate, regenerate and remix request goes through.
+ */
+export function getGenerationScheduler(): GenerationScheduler {
+    if (!activeScheduler) {
+        activeScheduler = createGenerationScheduler({ concurrency: loadConcurrencySetting() });
+    }
+    return activeScheduler;
+}
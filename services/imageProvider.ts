@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createDefaultImageProvider } from './providers';
+
+/**
+ * A base64-encoded image as it is sent to (or received from) an image model.
+ */
+export interface InlineImage {
+    mimeType: string;
+    data: string;
+}
+
+/**
+ * An earlier turn of a remix conversation, replayed so the model remembers it.
+ */
+export interface ConversationTurn {
+    role: 'user' | 'model';
+    text?: string;
+    image?: InlineImage;
+}
+
+/**
+ * A single request to an image backend: a source image (with any supporting images) and one instruction.
+ */
+export interface ImageRequest {
+    image: InlineImage;
+    prompt: string;
+    /** For generations: further photos of the subjects, sent after `image` in the order the prompt describes them. */
+    extraImages?: InlineImage[];
+    /** For remixes: earlier turns of the conversation, oldest first. `image` and `prompt` form the next turn. */
+    history?: ConversationTurn[];
+    /** For remixes: a black-and-white image the size of `image`; only the white area should change. */
+    mask?: InlineImage;
+    /** For generations: an earlier result whose character the new image should match. */
+    reference?: InlineImage;
+    /** Cancels the call; providers reject with an AbortError. Never serialized. */
+    signal?: AbortSignal;
+    /** The scene this request is for, so the server can tell which scenes get blocked. */
+    sceneId?: string;
+}
+
+/**
+ * Why the API refused to produce content, as reported by the API itself.
+ */
+export interface BlockInfo {
+    /** Whether the prompt was rejected up front, or the model's output was filtered. */
+    stage: 'prompt' | 'output';
+    /** The API's block or finish reason, e.g. "SAFETY", "PROHIBITED_CONTENT" or "IMAGE_SAFETY". */
+    reason: string;
+    /** Harm categories that triggered the block, e.g. "HARM_CATEGORY_DANGEROUS_CONTENT". May be empty. */
+    categories: string[];
+}
+
+/**
+ * The raw result of a backend call. A provider may return an image, text, or both;
+ * deciding whether a text-only reply is a refusal is left to the caller.
+ */
+export interface ImageResponse {
+    imageUrl?: string;
+    text?: string;
+    /** The candidate's finish reason, if the backend reports one (e.g. "STOP", "NO_IMAGE"). */
+    finishReason?: string;
+    /** Set when the API blocked the prompt or the output. */
+    block?: BlockInfo;
+}
+
+/**
+ * A backend capable of producing styled images and remixing existing ones.
+ * Implementations make exactly one call per method; retries and fallback
+ * prompts are handled by the service layer on top of them.
+ */
+export interface ImageProvider {
+    /** A short identifier used in logs (e.g. "gemini", "stub"). */
+    readonly id: string;
+    generate(request: ImageRequest): Promise<ImageResponse>;
+    remix(request: ImageRequest): Promise<ImageResponse>;
+}
+
+let activeProvider: ImageProvider | null = null;
+
+/**
+ * Returns the provider used by the app, creating the default one on first use.
+ */
+export function getImageProvider(): ImageProvider {
+    if (!activeProvider) {
+        activeProvider = createDefaultImageProvider();
+        console.log(`Using "${activeProvider.id}" image provider.`);
+    }
+    return activeProvider;
+}
+
+/**
+ * Replaces the provider used by the app, e.g. to swap in the offline stub.
+ * @param provider The provider to use, or null to fall back to the default on next use.
+ */
+export function setImageProvider(provider: ImageProvider | null): void {
+    activeProvider = provider;
+}
+
+/**
+ * Splits an image data URL into its MIME type and base64 payload.
+ * @param imageDataUrl A data URL string (e.g., 'data:image/png;base64,...').
+ * @returns The inline image, or null if the string is not a base64 image data URL.
+ */
+export function parseImageDataUrl(imageDataUrl: string): InlineImage | null {
+    // Subtypes can contain dots, pluses and dashes, e.g. image/svg+xml or image/vnd.microsoft.icon.
+    const match = imageDataUrl.match(/^data:(image\/[\w.+-]+);base64,(.*)$/);
+    if (!match) {
+        return null;
+    }
+    const [, mimeType, data] = match;
+    return { mimeType, data };
+}
+
+/**
+ * Builds a data URL from an inline image.
+ */
+export function toImageDataUrl({ mimeType, data }: InlineImage): string {
+    return `data:${mimeType};base64,${data}`;
+}
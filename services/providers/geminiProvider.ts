@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { GenerateContentResponse, SafetyRating } from "@google/genai";
+import type { BlockInfo, ConversationTurn, ImageProvider, ImageRequest, ImageResponse } from '../imageProvider';
+import { toImageDataUrl } from '../imageProvider';
+import { createAbortError } from '../../lib/abort';
+
+export const DEFAULT_GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+export interface GeminiProviderOptions {
+    apiKey: string;
+    model?: string;
+}
+
+// Finish reasons meaning the output was filtered, as opposed to finishing or failing for other reasons.
+const BLOCKING_FINISH_REASONS = new Set<string>([
+    'SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT',
+]);
+
+/**
+ * Lists the harm categories behind a block: the ones marked blocked, or failing that the likely ones.
+ */
+function blockedCategories(ratings: SafetyRating[] = []): string[] {
+    const blocked = ratings.filter(rating => rating.blocked);
+    const likely = blocked.length > 0 ? blocked : ratings.filter(rating => rating.probability === 'HIGH' || rating.probability === 'MEDIUM');
+    return likely.flatMap(rating => rating.category ? [String(rating.category)] : []);
+}
+
+/**
+ * Reports whether the prompt or the output of a response was blocked, and why.
+ */
+function extractBlock(response: GenerateContentResponse): BlockInfo | undefined {
+    const { blockReason, safetyRatings } = response.promptFeedback ?? {};
+    if (blockReason) {
+        return { stage: 'prompt', reason: String(blockReason), categories: blockedCategories(safetyRatings) };
+    }
+    const candidate = response.candidates?.[0];
+    if (candidate?.finishReason && BLOCKING_FINISH_REASONS.has(candidate.finishReason)) {
+        return { stage: 'output', reason: String(candidate.finishReason), categories: blockedCategories(candidate.safetyRatings) };
+    }
+    return undefined;
+}
+
+/**
+ * Collects the image and text parts of the first candidate of a Gemini response.
+ * @param response The response from the generateContent call.
+ * @returns An object containing the image URL and/or text, plus any block the API reported.
+ */
+function extractParts(response: GenerateContentResponse): ImageResponse {
+    let imageUrl: string | undefined;
+    let text: string | undefined;
+
+    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData?.mimeType && part.inlineData.data) {
+            imageUrl = toImageDataUrl({ mimeType: part.inlineData.mimeType, data: part.inlineData.data });
+        } else if (part.text) {
+            text = part.text;
+        }
+    }
+
+    if (!imageUrl && !text) {
+        // Blocked prompts can come back without parts; the aggregated text is all we get.
+        text = response.text;
+    }
+
+    const finishReason = response.candidates?.[0]?.finishReason;
+    return { imageUrl, text, finishReason: finishReason ? String(finishReason) : undefined, block: extractBlock(response) };
+}
+
+const toContent = ({ role, text, image }: ConversationTurn) => ({
+    role,
+    parts: [...(image ? [{ inlineData: image }] : []), ...(text ? [{ text }] : [])],
+});
+
+/**
+ * Creates an image provider backed by the Gemini API.
+ */
+export function createGeminiProvider({ apiKey, model = DEFAULT_GEMINI_IMAGE_MODEL }: GeminiProviderOptions): ImageProvider {
+    const ai = new GoogleGenAI({ apiKey });
+
+    // sceneId is only for our own bookkeeping and isn't sent to the API.
+    const call = async ({ image, prompt, extraImages = [], history = [], mask, reference, signal }: ImageRequest, responseModalities?: Modality[]) => {
+        // Extra images follow the one they belong to; the prompt explains how to read them.
+        const parts = [
+            { inlineData: image },
+            ...extraImages.map(extra => ({ inlineData: extra })),
+            ...(reference ? [{ inlineData: reference }] : []),
+            ...(mask ? [{ inlineData: mask }] : []),
+            { text: prompt },
+        ];
+        try {
+            const response = await ai.models.generateContent({
+                model,
+                contents: history.length > 0 ? [...history.map(toContent), { role: 'user', parts }] : { parts },
+                config: { abortSignal: signal, ...(responseModalities && { responseModalities }) },
+            });
+            return extractParts(response);
+        } catch (error) {
+            // Normalize however the SDK surfaces cancellation into a standard AbortError.
+            if (signal?.aborted) throw createAbortError();
+            throw error;
+        }
+    };
+
+    return {
+        id: 'gemini',
+        generate: (request) => call(request),
+        remix: (request) => call(request, [Modality.IMAGE, Modality.TEXT]),
+    };
+}
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ImageProvider } from '../imageProvider';
+import { createProxyProvider } from './proxyProvider';
+import { createStubProvider } from './stubProvider';
+
+export { createProxyProvider } from './proxyProvider';
+export { createStubProvider, STUB_REFUSE_MARKER, STUB_INTERNAL_ERROR_MARKER } from './stubProvider';
+
+/**
+ * Creates the browser's provider, selected by the IMAGE_PROVIDER environment variable.
+ * By default requests go through the server proxy (`server/`), which holds the API key;
+ * "stub" keeps everything in the browser with no server at all.
+ * The Gemini provider is deliberately not available here so the SDK and key never ship to clients.
+ */
+export function createDefaultImageProvider(): ImageProvider {
+    const requested = process.env.IMAGE_PROVIDER || 'proxy';
+
+    if (requested === 'stub') {
+        return createStubProvider();
+    }
+    if (requested !== 'proxy') {
+        throw new Error(`Unknown IMAGE_PROVIDER "${requested}". Expected "proxy" or "stub".`);
+    }
+    return createProxyProvider();
+}
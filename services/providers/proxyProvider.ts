@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ImageProvider, ImageRequest, ImageResponse } from '../imageProvider';
+import { generationErrorFromResponse } from '../generationErrors';
+
+export interface ProxyProviderOptions {
+    /** Base path of the image API served by `server/`. */
+    baseUrl?: string;
+}
+
+/**
+ * Creates an image provider that forwards requests to the app's own server,
+ * which holds the Gemini API key. Failed responses are thrown as classified
+ * GenerationErrors, carrying the server's Retry-After hint for rate limits.
+ */
+export function createProxyProvider({ baseUrl = '/api' }: ProxyProviderOptions = {}): ImageProvider {
+    const post = async (route: string, { signal, ...payload }: ImageRequest): Promise<ImageResponse> => {
+        // Aborting the fetch closes the connection, which the server treats as a cancellation.
+        const response = await fetch(`${baseUrl}/${route}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+            signal,
+        });
+        const body = await response.text();
+        if (!response.ok) {
+            throw generationErrorFromResponse(body, response.status, response.headers.get('Retry-After'));
+        }
+        return JSON.parse(body) as ImageResponse;
+    };
+
+    return {
+        id: 'proxy',
+        generate: (request) => post('generate', request),
+        remix: (request) => post('remix', request),
+    };
+}
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ImageProvider, ImageRequest, ImageResponse } from '../imageProvider';
+import { sleep } from '../../lib/abort';
+
+/**
+ * Renders a placeholder image for a request and returns it as a data URL.
+ * The default implementation draws on a canvas, so it needs a DOM.
+ */
+export type PlaceholderRenderer = (label: string, hue: number) => Promise<string>;
+
+export interface StubProviderOptions {
+    /** Artificial latency per call, in milliseconds. */
+    latencyMs?: number;
+    /** Fraction (0-1) of calls that reply with a canned refusal instead of an image. */
+    refusalRate?: number;
+    /** Fraction (0-1) of calls that fail with an injected internal (500) error. */
+    internalErrorRate?: number;
+    /** Seed for the pseudo-random sequence deciding which calls fail. */
+    seed?: number;
+    renderPlaceholder?: PlaceholderRenderer;
+}
+
+// Prompts containing these markers always trigger the matching behaviour,
+// which makes specific failure paths reproducible regardless of the rates above.
+export const STUB_REFUSE_MARKER = '[stub:refuse]';
+export const STUB_INTERNAL_ERROR_MARKER = '[stub:500]';
+export const STUB_BLOCK_MARKER = '[stub:block]';
+
+const CANNED_REFUSAL = "I'm unable to create that image. Please try a different prompt.";
+
+/**
+ * Returns a small, stable hash of a string (FNV-1a).
+ */
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * A seeded pseudo-random generator (mulberry32), so failure injection is deterministic.
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Pulls the quoted scene out of a prompt, falling back to the start of the prompt.
+ */
+function labelForPrompt(prompt: string): string {
+    const quoted = prompt.match(/"([^"]+)"/);
+    const label = quoted ? quoted[1] : prompt;
+    return label.length > 40 ? `${label.substring(0, 37)}...` : label;
+}
+
+const renderCanvasPlaceholder: PlaceholderRenderer = async (label, hue) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 768;
+    canvas.height = 768;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    gradient.addColorStop(0, `hsl(${hue}, 45%, 70%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 45%, 40%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `48px 'Caveat', cursive`;
+    ctx.fillText(label, canvas.width / 2, canvas.height / 2);
+    ctx.font = `24px 'Lato', sans-serif`;
+    ctx.fillText('stub image', canvas.width / 2, canvas.height / 2 + 56);
+
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Creates an offline image provider that needs no API key and no network.
+ * It returns placeholder images derived from the prompt, and can be configured
+ * to reply with refusals or internal errors to exercise the app's error handling.
+ */
+export function createStubProvider({
+    latencyMs = 800,
+    refusalRate = 0,
+    internalErrorRate = 0,
+    seed = 1,
+    renderPlaceholder = renderCanvasPlaceholder,
+}: StubProviderOptions = {}): ImageProvider {
+    const random = createRandom(seed);
+
+    const call = async ({ image, prompt, extraImages = [], history = [], mask, reference, signal }: ImageRequest): Promise<ImageResponse> => {
+        await sleep(latencyMs, signal);
+
+        if (prompt.includes(STUB_INTERNAL_ERROR_MARKER) || random() < internalErrorRate) {
+            throw new Error(JSON.stringify({ error: { code: 500, message: 'Injected by stub provider.', status: 'INTERNAL' } }));
+        }
+        if (prompt.includes(STUB_BLOCK_MARKER)) {
+            return { finishReason: 'IMAGE_SAFETY', block: { stage: 'output', reason: 'IMAGE_SAFETY', categories: ['HARM_CATEGORY_DANGEROUS_CONTENT'] } };
+        }
+        if (prompt.includes(STUB_REFUSE_MARKER) || random() < refusalRate) {
+            return { text: CANNED_REFUSAL };
+        }
+
+        // Conversation history and extra images change the result, as they would with a real model.
+        const hue = hashString(`${prompt}|${image.data.length}|${extraImages.length}|${history.length}|${mask?.data.length ?? 0}|${reference?.data.length ?? 0}`) % 360;
+        return { imageUrl: await renderPlaceholder(labelForPrompt(prompt), hue) };
+    };
+
+    return {
+        id: 'stub',
+        generate: call,
+        remix: call,
+    };
+}
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GenerationErrorKind } from './services/generationErrors';
+import type { BlockInfo } from './services/imageProvider';
+import type { PromptAttempt } from './services/geminiService';
+
+export type ImageStatus = 'pending' | 'done' | 'error';
+
+export interface GeneratedImage {
+    status: ImageStatus;
+    url?: string;
+    error?: string;
+    /** Why it failed; absent for cancellations and sessions saved before errors were classified. */
+    errorKind?: GenerationErrorKind;
+    /** For safety blocks: which stage and categories the API blocked. */
+    block?: BlockInfo;
+    /** Which rung of the scene's fallback ladder produced the image; 0 is the original prompt. */
+    promptRung?: number;
+    /** Every prompt tried for the latest generation, with why each one failed. */
+    attempts?: PromptAttempt[];
+    /** Candidates generated for the scene, when there is more than one; `url` is the chosen one. */
+    variants?: ImageVariant[];
+    chosenVariantId?: string;
+    /** Every image the scene has had, oldest first, and which one is showing. */
+    versions?: ImageVersion[];
+    currentVersionId?: string;
+    /** When the image last finished generating or failed (ms since epoch). */
+    updatedAt?: number;
+}
+
+/**
+ * One candidate image for a scene, shown on its contact sheet.
+ */
+export interface ImageVariant {
+    id: string;
+    url: string;
+    /** Starred variants survive regenerating the scene. */
+    starred?: boolean;
+    promptRung?: number;
+    createdAt: number;
+}
+
+export type VersionOrigin = 'initial' | 'regenerate' | 'remix';
+
+/**
+ * One entry in a scene's history.
+ */
+export interface ImageVersion {
+    id: string;
+    url: string;
+    origin: VersionOrigin;
+    /** The prompt that produced the image; for remixes, the remix instructions. */
+    prompt: string;
+    createdAt: number;
+}
+
+export interface ChatMessage {
+    type: 'user' | 'bot';
+    text?: string;
+    imageUrl?: string;
+    /** For image replies: identifies the image as a node of the remix tree. */
+    nodeId?: string;
+    /** The node that was being remixed when this image was made. */
+    parentId?: string;
+    /** Marks where the conversation was restarted from this message's image; nothing earlier is sent as context. */
+    startsFresh?: boolean;
+    /** For instructions: the edit was limited to a painted region of the image. */
+    masked?: boolean;
+    /** Shown in the transcript only, never sent to the model (e.g. errors and cancellations). */
+    local?: boolean;
+}
+
+/**
+ * Someone to put in the scenes, with one or more photos of them.
+ */
+export interface Subject {
+    id: string;
+    /** How the prompts refer to them, e.g. "Anna". */
+    label: string;
+    /** Data URLs; always at least one. */
+    photos: string[];
+}
+
+/**
+ * A finished result other scenes are drawn to match, so the whole album shows one character.
+ */
+export interface CharacterAnchor {
+    sceneId: string;
+    /** The image as it was when chosen; later edits to the scene don't move the anchor. */
+    url: string;
+}
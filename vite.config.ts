@@ -1,12 +1,18 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // Only client builds get build-time env; the server reads its own environment
+      // at runtime so the API key is never inlined into a bundle.
+      define: isSsrBuild ? {} : {
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER)
+      },
+      server: {
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`
+        }
       },
       resolve: {
         alias: {